@@ -1,4 +1,4 @@
-import React, {useEffect} from 'react';
+import React, {useEffect, useState} from 'react';
 import {InteractionManager, StatusBar} from 'react-native';
 import {GestureHandlerRootView} from 'react-native-gesture-handler';
 import {SafeAreaProvider} from 'react-native-safe-area-context';
@@ -9,35 +9,60 @@ import {
   EditorScreen,
   SettingsScreen,
   SearchScreen,
+  ConflictScreen,
+  HistoryScreen,
+  DiffScreen,
+  TagsScreen,
 } from './src/screens';
 import {indexDB} from './src/services/index-db';
+import {gitSync} from './src/services/git-sync';
+import {activateVault} from './src/services/vault-switch';
+import {indexService} from './src/services/index-service';
 import {colors} from './src/theme';
 import {useVaultStore} from './src/store';
 import {useAutoSync} from './src/hooks';
 
 export type RootStackParamList = {
   Vault: undefined;
-  Editor: {path: string};
+  Editor: {path: string; restoredAt?: number};
   Settings: undefined;
   Search: undefined;
+  Conflict: {path?: string} | undefined;
+  History: {path?: string; restore?: boolean} | undefined;
+  // Omitted `from` diffs against an empty file; omitted `to` is the working copy
+  Diff: {path: string; from?: string; to?: string};
+  // Without a tag, lists every tag; with one, the notes tagged with it
+  Tags: {tag?: string} | undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
 function App(): React.JSX.Element {
-  const loadRecentNotes = useVaultStore(state => state.loadRecentNotes);
-  const loadSyncInterval = useVaultStore(state => state.loadSyncInterval);
+  const changeDetection = useVaultStore(state => state.changeDetection);
+  const [vaultReady, setVaultReady] = useState(false);
 
   useAutoSync();
 
   useEffect(() => {
-    loadRecentNotes();
-    loadSyncInterval();
-    const handle = InteractionManager.runAfterInteractions(() => {
-      indexDB.init().catch(console.error);
-    });
-    return () => handle.cancel();
-  }, [loadRecentNotes, loadSyncInterval]);
+    gitSync.setChangeDetection(changeDetection);
+  }, [changeDetection]);
+
+  useEffect(() => {
+    let handle: {cancel: () => void} | undefined;
+    // Screens read the active vault's files and queue, so wait for it
+    activateVault()
+      .catch(console.error)
+      .finally(() => {
+        setVaultReady(true);
+        handle = InteractionManager.runAfterInteractions(() => {
+          indexDB
+            .init()
+            .then(() => indexService.indexVault())
+            .catch(console.error);
+        });
+      });
+    return () => handle?.cancel();
+  }, []);
 
   return (
     <GestureHandlerRootView style={{flex: 1, backgroundColor: colors.background}}>
@@ -47,36 +72,58 @@ function App(): React.JSX.Element {
           backgroundColor={colors.background}
           translucent={false}
         />
-        <NavigationContainer>
-          <Stack.Navigator
-            initialRouteName="Vault"
-            screenOptions={{
-              headerStyle: {backgroundColor: colors.background},
-              headerTintColor: colors.textPrimary,
-              contentStyle: {backgroundColor: colors.background},
-            }}>
-            <Stack.Screen
-              name="Vault"
-              component={VaultScreen}
-              options={{headerShown: false}}
-            />
-            <Stack.Screen
-              name="Editor"
-              component={EditorScreen}
-              options={{title: 'Editor'}}
-            />
-            <Stack.Screen
-              name="Settings"
-              component={SettingsScreen}
-              options={{title: 'Settings'}}
-            />
-            <Stack.Screen
-              name="Search"
-              component={SearchScreen}
-              options={{title: 'Search'}}
-            />
-          </Stack.Navigator>
-        </NavigationContainer>
+        {vaultReady && (
+          <NavigationContainer>
+            <Stack.Navigator
+              initialRouteName="Vault"
+              screenOptions={{
+                headerStyle: {backgroundColor: colors.background},
+                headerTintColor: colors.textPrimary,
+                contentStyle: {backgroundColor: colors.background},
+              }}>
+              <Stack.Screen
+                name="Vault"
+                component={VaultScreen}
+                options={{headerShown: false}}
+              />
+              <Stack.Screen
+                name="Editor"
+                component={EditorScreen}
+                options={{title: 'Editor'}}
+              />
+              <Stack.Screen
+                name="Settings"
+                component={SettingsScreen}
+                options={{title: 'Settings'}}
+              />
+              <Stack.Screen
+                name="Search"
+                component={SearchScreen}
+                options={{title: 'Search'}}
+              />
+              <Stack.Screen
+                name="Conflict"
+                component={ConflictScreen}
+                options={{title: 'Conflicts'}}
+              />
+              <Stack.Screen
+                name="History"
+                component={HistoryScreen}
+                options={{title: 'History'}}
+              />
+              <Stack.Screen
+                name="Diff"
+                component={DiffScreen}
+                options={{title: 'Diff'}}
+              />
+              <Stack.Screen
+                name="Tags"
+                component={TagsScreen}
+                options={{title: 'Tags'}}
+              />
+            </Stack.Navigator>
+          </NavigationContainer>
+        )}
       </SafeAreaProvider>
     </GestureHandlerRootView>
   );
@@ -0,0 +1,111 @@
+import {AppState} from 'react-native';
+import type {AppStateStatus} from 'react-native';
+import {renderHook, act} from '@testing-library/react-native';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn().mockResolvedValue(null),
+  setItem: jest.fn().mockResolvedValue(undefined),
+  removeItem: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../../services/vault-fs', () => ({vaultFS: {}}));
+
+jest.mock('../../services/sync-manager', () => ({
+  syncManager: {sync: jest.fn()},
+}));
+
+import {useAutoSync} from '../../hooks/useAutoSync';
+import {useVaultStore} from '../../store';
+import {addToQueue, useSyncQueueStore} from '../../services/sync-queue';
+import {syncManager} from '../../services/sync-manager';
+
+const sync = syncManager.sync as jest.Mock;
+
+describe('useAutoSync', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sync.mockResolvedValue({updated: [], conflicts: []});
+    useSyncQueueStore.setState({queue: []});
+    useVaultStore.setState({
+      syncInterval: 0,
+      syncOnAppState: false,
+      syncAfterEdit: 0,
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('after edits', () => {
+    it('should sync once edits settle', () => {
+      useVaultStore.setState({syncAfterEdit: 30});
+      renderHook(() => useAutoSync());
+
+      act(() => addToQueue('a.md', 'modify'));
+      jest.advanceTimersByTime(20_000);
+      act(() => addToQueue('b.md', 'modify'));
+      jest.advanceTimersByTime(20_000);
+
+      expect(sync).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(10_000);
+
+      expect(sync).toHaveBeenCalledTimes(1);
+      expect(sync).toHaveBeenCalledWith(expect.any(String), 'both');
+    });
+
+    it('should ignore the queue emptying after a sync', () => {
+      useVaultStore.setState({syncAfterEdit: 10});
+      addToQueue('a.md', 'modify');
+      renderHook(() => useAutoSync());
+
+      act(() => useSyncQueueStore.setState({queue: []}));
+      jest.advanceTimersByTime(60_000);
+
+      expect(sync).not.toHaveBeenCalled();
+    });
+
+    it('should not sync when disabled', () => {
+      renderHook(() => useAutoSync());
+
+      act(() => addToQueue('a.md', 'modify'));
+      jest.advanceTimersByTime(10 * 60_000);
+
+      expect(sync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('app state', () => {
+    let onChange: (state: AppStateStatus) => void;
+    const remove = jest.fn();
+
+    beforeEach(() => {
+      jest
+        .spyOn(AppState, 'addEventListener')
+        .mockImplementation((_type, listener) => {
+          onChange = listener as (state: AppStateStatus) => void;
+          return {remove};
+        });
+    });
+
+    it('should pull on foreground and push on background', () => {
+      useVaultStore.setState({syncOnAppState: true});
+      renderHook(() => useAutoSync());
+
+      onChange('background');
+      onChange('active');
+
+      expect(sync.mock.calls.map(call => call[1])).toEqual(['push', 'pull']);
+    });
+
+    it('should stop listening when turned off', () => {
+      useVaultStore.setState({syncOnAppState: true});
+      renderHook(() => useAutoSync());
+
+      act(() => useVaultStore.setState({syncOnAppState: false}));
+
+      expect(remove).toHaveBeenCalled();
+    });
+  });
+});
@@ -1,5 +1,8 @@
 import {renderHook, act, waitFor} from '@testing-library/react-native';
 import {useSearch} from '../../hooks/useSearch';
+import type {RegexSearchRequest, ReplaceSearchRequest} from '../../hooks/useSearch';
+import type {RegexFileMatches} from '../../services/regex-search';
+import type {ReplacePlan} from '../../services/vault-replace';
 import type {FileMeta, SearchResult} from '../../types';
 
 jest.useFakeTimers();
@@ -207,4 +210,163 @@ describe('useSearch', () => {
       consoleError.mockRestore();
     });
   });
+
+  describe('regex mode', () => {
+    function fileMatches(path: string): RegexFileMatches {
+      return {
+        path,
+        title: path,
+        matches: [
+          {line: 1, index: 0, text: 'TODO', column: 0, lineText: 'TODO', before: [], after: []},
+        ],
+      };
+    }
+
+    it('streams results as they are found', async () => {
+      const requests: RegexSearchRequest[] = [];
+      const onRegexSearch = jest.fn(
+        (_pattern: string, request: RegexSearchRequest) =>
+          new Promise<void>(() => {
+            requests.push(request);
+          }),
+      );
+
+      const {result} = renderHook(() => useSearch({debounceMs: 150, onRegexSearch}));
+
+      act(() => {
+        result.current.setMode('regex');
+        result.current.setQuery('TODO ');
+      });
+      act(() => {
+        jest.advanceTimersByTime(150);
+      });
+
+      await waitFor(() => {
+        expect(onRegexSearch).toHaveBeenCalledWith('TODO ', expect.anything());
+      });
+      expect(requests[0]?.caseSensitive).toBe(false);
+
+      act(() => {
+        requests[0]?.onResult(fileMatches('a.md'));
+      });
+      expect(result.current.regexResults.map(r => r.path)).toEqual(['a.md']);
+      expect(result.current.isLoading).toBe(true);
+
+      act(() => {
+        requests[0]?.onResult(fileMatches('b.md'));
+      });
+      expect(result.current.regexResults.map(r => r.path)).toEqual(['a.md', 'b.md']);
+    });
+
+    it('cancels the running search when the query or case changes', async () => {
+      const requests: RegexSearchRequest[] = [];
+      const onRegexSearch = jest.fn(
+        (_pattern: string, request: RegexSearchRequest) =>
+          new Promise<void>(() => {
+            requests.push(request);
+          }),
+      );
+
+      const {result} = renderHook(() => useSearch({debounceMs: 150, onRegexSearch}));
+
+      act(() => {
+        result.current.setMode('regex');
+        result.current.setQuery('old');
+      });
+      act(() => {
+        jest.advanceTimersByTime(150);
+      });
+      await waitFor(() => expect(requests).toHaveLength(1));
+
+      act(() => {
+        result.current.setQuery('new');
+      });
+      act(() => {
+        jest.advanceTimersByTime(150);
+      });
+      await waitFor(() => expect(requests).toHaveLength(2));
+      expect(requests[0]?.signal.aborted).toBe(true);
+
+      // Late results from the cancelled search are dropped
+      act(() => {
+        requests[0]?.onResult(fileMatches('stale.md'));
+      });
+      expect(result.current.regexResults).toEqual([]);
+
+      act(() => {
+        result.current.setCaseSensitive(true);
+      });
+      await waitFor(() => expect(requests).toHaveLength(3));
+      expect(requests[1]?.signal.aborted).toBe(true);
+      expect(requests[2]?.caseSensitive).toBe(true);
+      expect(onRegexSearch).toHaveBeenLastCalledWith('new', expect.anything());
+    });
+
+    it('reports an invalid pattern', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const onRegexSearch = async () => {
+        throw new SyntaxError('Invalid regular expression: /(/: Unterminated group');
+      };
+
+      const {result} = renderHook(() => useSearch({debounceMs: 150, onRegexSearch}));
+
+      act(() => {
+        result.current.setMode('regex');
+        result.current.setQuery('(');
+      });
+      act(() => {
+        jest.advanceTimersByTime(150);
+      });
+
+      await waitFor(() => {
+        expect(result.current.error).toMatch('Unterminated group');
+        expect(result.current.isLoading).toBe(false);
+      });
+      expect(consoleError).not.toHaveBeenCalled();
+
+      act(() => {
+        result.current.setQuery('');
+      });
+      act(() => {
+        jest.advanceTimersByTime(150);
+      });
+      await waitFor(() => expect(result.current.error).toBeNull());
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('replace mode', () => {
+    const plan: ReplacePlan = {files: [], matches: 0};
+
+    it('plans with the replacement and options, and again on refresh', async () => {
+      const calls: Array<[string, ReplaceSearchRequest]> = [];
+      const onReplaceSearch = async (pattern: string, request: ReplaceSearchRequest) => {
+        calls.push([pattern, request]);
+        return plan;
+      };
+
+      const {result} = renderHook(() => useSearch({debounceMs: 150, onReplaceSearch}));
+
+      act(() => {
+        result.current.setMode('replace');
+        result.current.setQuery('(\\d+)');
+        result.current.setReplacement('#$1');
+        result.current.setIsRegex(true);
+      });
+      act(() => {
+        jest.advanceTimersByTime(150);
+      });
+
+      await waitFor(() => expect(result.current.replacePlan).toBe(plan));
+      const [pattern, request] = calls[calls.length - 1]!;
+      expect(pattern).toBe('(\\d+)');
+      expect(request).toMatchObject({replacement: '#$1', regex: true, caseSensitive: false});
+
+      const before = calls.length;
+      act(() => {
+        result.current.refresh();
+      });
+      await waitFor(() => expect(calls).toHaveLength(before + 1));
+    });
+  });
 });
@@ -50,13 +50,32 @@ describe('Sync Flow Integration', () => {
       const gitSync = createMockGitSync({
         pullResult: {
           updated: [],
-          conflicts: ['/notes/conflicted.md'],
+          conflicts: [
+            {
+              path: '/notes/conflicted.md',
+              hunks: [
+                {
+                  baseStart: 3,
+                  localStart: 3,
+                  remoteStart: 3,
+                  base: ['original'],
+                  local: ['local edit'],
+                  remote: ['remote edit'],
+                },
+              ],
+              regions: [
+                {type: 'merged', lines: ['# Title', '']},
+                {type: 'conflict', hunkIndex: 0},
+              ],
+            },
+          ],
         },
       });
 
       const result = await gitSync.pull();
 
-      expect(result.conflicts).toContain('/notes/conflicted.md');
+      expect(result.conflicts[0]?.path).toBe('/notes/conflicted.md');
+      expect(result.conflicts[0]?.hunks).toHaveLength(1);
     });
   });
 
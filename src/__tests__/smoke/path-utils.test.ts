@@ -8,6 +8,7 @@ import {
   isMarkdownFile,
   isAbsolute,
   relativePath,
+  movedPath,
 } from '../../utils/path';
 
 describe('Path Utility Functions', () => {
@@ -144,4 +145,16 @@ describe('Path Utility Functions', () => {
       expect(relativePath('/notes', '/notes')).toBe('.');
     });
   });
+
+  describe('movedPath', () => {
+    it('should move a file or anything under a folder', () => {
+      expect(movedPath('a/b.md', 'a/b.md', 'c/b.md')).toBe('c/b.md');
+      expect(movedPath('a/sub/b.md', 'a', 'x/a')).toBe('x/a/sub/b.md');
+    });
+
+    it('should leave other paths alone', () => {
+      expect(movedPath('ab/c.md', 'a', 'x')).toBeNull();
+      expect(movedPath('b.md', 'a', 'x')).toBeNull();
+    });
+  });
 });
@@ -26,6 +26,7 @@ describe('Type Interface Compliance', () => {
         stat: jest.fn(),
         ensureDir: jest.fn(),
         exists: jest.fn(),
+        isIgnored: jest.fn(),
       };
 
       expect(mockVaultFS.readFile).toBeDefined();
@@ -94,7 +95,13 @@ describe('Type Interface Compliance', () => {
         getBacklinks: jest.fn(),
         ftsUpsert: jest.fn(),
         ftsSearch: jest.fn(),
+        indexFile: jest.fn(),
+        movePath: jest.fn(),
         deleteFileMeta: jest.fn(),
+        getTags: jest.fn(),
+        getNotesWithTag: jest.fn(),
+        getProperties: jest.fn(),
+        getNotesWithProperty: jest.fn(),
         close: jest.fn(),
       };
 
@@ -136,10 +143,21 @@ describe('Type Interface Compliance', () => {
     it('should define all required methods', () => {
       const mockGitSync: GitSync = {
         clone: jest.fn(),
+        isShallow: jest.fn(),
+        fetchMoreHistory: jest.fn(),
         pull: jest.fn(),
         commitAndPush: jest.fn(),
         status: jest.fn(),
+        resolveConflict: jest.fn(),
+        log: jest.fn(),
+        readFileAt: jest.fn(),
+        getPendingChanges: jest.fn(),
+        setChangeDetection: jest.fn(),
+        listBranches: jest.fn(),
+        switchBranch: jest.fn(),
+        createBranch: jest.fn(),
         setAuth: jest.fn(),
+        reset: jest.fn(),
       };
 
       expect(mockGitSync.clone).toBeDefined();
@@ -173,7 +191,22 @@ describe('Type Interface Compliance', () => {
     it('should create valid PullResult', () => {
       const result: PullResult = {
         updated: ['/a.md', '/b.md'],
-        conflicts: ['/c.md'],
+        conflicts: [
+          {
+            path: '/c.md',
+            hunks: [
+              {
+                baseStart: 1,
+                localStart: 1,
+                remoteStart: 1,
+                base: ['a'],
+                local: ['b'],
+                remote: ['c'],
+              },
+            ],
+            regions: [{type: 'conflict', hunkIndex: 0}],
+          },
+        ],
       };
 
       expect(result.updated).toHaveLength(2);
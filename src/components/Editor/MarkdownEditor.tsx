@@ -28,7 +28,11 @@ const TYPEWRITER_POSITION = 0.4; // 40% from top
 export interface MarkdownEditorProps {
   initialContent: string;
   onSave: (content: string) => void;
+  /** Called on every change, before the debounced save. */
+  onChangeText?: (content: string) => void;
   onGetFileTitles: () => string[];
+  /** Called with the target of a wikilink tapped while not editing. */
+  onWikilinkPress?: (link: string) => void;
   debounceMs?: number;
   placeholder?: string;
 }
@@ -41,7 +45,9 @@ interface Selection {
 export function MarkdownEditor({
   initialContent,
   onSave,
+  onChangeText,
   onGetFileTitles,
+  onWikilinkPress,
   debounceMs = 500,
   placeholder = '',
 }: MarkdownEditorProps): React.JSX.Element {
@@ -65,6 +71,10 @@ export function MarkdownEditor({
     lastSavedRef.current = initialContent;
   }, [initialContent]);
 
+  useEffect(() => {
+    onChangeText?.(text);
+  }, [text, onChangeText]);
+
   const getLineFromPosition = useCallback((pos: number, content: string): number => {
     return content.slice(0, pos).split('\n').length - 1;
   }, []);
@@ -95,8 +105,9 @@ export function MarkdownEditor({
     };
   }, [onSave]);
 
+  // Skips text replaced by a new initialContent while the save was pending
   const debouncedSave = useDebounce((content: string) => {
-    if (content !== lastSavedRef.current) {
+    if (content !== lastSavedRef.current && content === textRef.current) {
       onSave(content);
       lastSavedRef.current = content;
     }
@@ -465,6 +476,7 @@ export function MarkdownEditor({
               <StyledMarkdownOverlay
                 text={text}
                 style={styles.markdownPreview}
+                onWikilinkPress={onWikilinkPress}
               />
             </ScrollView>
           </Pressable>
@@ -25,6 +25,7 @@ export interface StyledMarkdownOverlayProps {
   currentParagraphIndex?: number;
   frontmatterCollapsed?: boolean;
   onToggleFrontmatter?: () => void;
+  onWikilinkPress?: (link: string) => void;
 }
 
 const HEADING_STYLES: Record<number, TextStyle> = {
@@ -104,6 +105,7 @@ export function StyledMarkdownOverlay({
   currentParagraphIndex = 0,
   frontmatterCollapsed = true,
   onToggleFrontmatter,
+  onWikilinkPress,
 }: StyledMarkdownOverlayProps): React.JSX.Element {
   const paragraphs = useMemo(() => parseParagraphs(text), [text]);
   
@@ -116,10 +118,16 @@ export function StyledMarkdownOverlay({
     return segments.map((segment, index) => {
       const baseStyle = getSegmentStyle(segment);
       const dimStyle = dimmed ? styles.dimmedText : undefined;
+      const onPress =
+        segment.type === 'wikilink' && onWikilinkPress
+          ? () => onWikilinkPress(segment.text)
+          : undefined;
       return (
         <Text
           key={index}
-          style={[baseStyle, dimStyle]}>
+          style={[baseStyle, dimStyle]}
+          onPress={onPress}
+          suppressHighlighting>
           {segment.text}
         </Text>
       );
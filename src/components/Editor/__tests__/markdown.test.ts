@@ -1,6 +1,7 @@
 import {
   parseWikilinks,
   parseTitle,
+  parseTags,
   extractImageEmbeds,
   fuzzyMatch,
   tokenizeMarkdown,
@@ -75,6 +76,45 @@ title: Frontmatter Title
   });
 });
 
+describe('parseTags', () => {
+  it('extracts inline tags, including nested ones', () => {
+    const content = '# Title\n\nWork on #project and #area/sub-area, (#todo).';
+    expect(parseTags(content)).toEqual(['project', 'area/sub-area', 'todo']);
+  });
+
+  it('reads frontmatter tags in list, flow and string form', () => {
+    expect(parseTags('---\ntags:\n  - one\n  - "#two"\ntitle: X\n---\nBody')).toEqual([
+      'one',
+      'two',
+    ]);
+    expect(parseTags('---\ntags: [one, area/two]\n---\n')).toEqual([
+      'one',
+      'area/two',
+    ]);
+    expect(parseTags('---\ntags: one, two three\n---\n')).toEqual([
+      'one',
+      'two',
+      'three',
+    ]);
+  });
+
+  it('lowercases and removes duplicates', () => {
+    expect(parseTags('---\ntags: Idea\n---\n#idea #IDEA')).toEqual(['idea']);
+  });
+
+  it('ignores headings, links, code and numbers', () => {
+    const content = [
+      '## Heading',
+      'See [[Note#Section]] and https://example.com/#anchor',
+      '`#inline` and issue #42',
+      '```',
+      '#include <stdio.h>',
+      '```',
+    ].join('\n');
+    expect(parseTags(content)).toEqual([]);
+  });
+});
+
 describe('extractImageEmbeds', () => {
   it('extracts image embeds', () => {
     const content = 'Here is an image: ![[photo.png]]';
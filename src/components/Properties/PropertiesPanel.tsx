@@ -0,0 +1,586 @@
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  Switch,
+  TextInput,
+} from 'react-native';
+import Modal from 'react-native-modal';
+import {
+  emptyValue,
+  getProperties,
+  propertyType,
+  removeProperty,
+  setProperty,
+  type Property,
+  type PropertyValue,
+} from '../../utils/frontmatter';
+import type {PropertyType} from '../../types';
+import {colors, radius, touchTargets} from '../../theme';
+
+interface PropertiesPanelProps {
+  visible: boolean;
+  onClose: () => void;
+  /** The note as currently edited, frontmatter included. */
+  content: string;
+  /** Types of keys used elsewhere in the vault, for empty values. */
+  knownTypes: Record<string, PropertyType>;
+  onChange: (content: string) => void;
+}
+
+const TYPE_LABELS: Record<PropertyType, string> = {
+  text: 'Text',
+  list: 'List',
+  number: 'Number',
+  checkbox: 'Checkbox',
+  date: 'Date',
+  datetime: 'Date & time',
+};
+
+const PLACEHOLDERS: Partial<Record<PropertyType, string>> = {
+  number: '0',
+  date: 'YYYY-MM-DD',
+  datetime: 'YYYY-MM-DDTHH:MM',
+};
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2})?$/;
+
+// The typed text as a value of `type`, or undefined when it isn't one
+function parseInput(text: string, type: PropertyType): PropertyValue | undefined {
+  const value = text.trim();
+  if (!value) {
+    return null;
+  }
+  switch (type) {
+    case 'number': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'date':
+      return DATE_REGEX.test(value) ? value : undefined;
+    case 'datetime':
+      return DATETIME_REGEX.test(value) ? value : undefined;
+    default:
+      return value;
+  }
+}
+
+interface TextValueEditorProps {
+  value: PropertyValue;
+  type: PropertyType;
+  onCommit: (value: PropertyValue) => void;
+}
+
+// Commits when editing ends; text that isn't a valid value is discarded
+function TextValueEditor({value, type, onCommit}: TextValueEditorProps): React.JSX.Element {
+  const text = value === null ? '' : String(value);
+  const [draft, setDraft] = useState(text);
+
+  useEffect(() => {
+    setDraft(text);
+  }, [text]);
+
+  const commit = () => {
+    const parsed = parseInput(draft, type);
+    if (parsed === undefined) {
+      setDraft(text);
+    } else if (parsed !== value) {
+      onCommit(parsed);
+    }
+  };
+
+  return (
+    <TextInput
+      style={styles.valueInput}
+      value={draft}
+      onChangeText={setDraft}
+      onEndEditing={commit}
+      placeholder={PLACEHOLDERS[type] ?? 'Empty'}
+      placeholderTextColor={colors.textDisabled}
+      keyboardType={type === 'number' ? 'numeric' : 'default'}
+      autoCapitalize={type === 'text' ? 'sentences' : 'none'}
+      autoCorrect={type === 'text'}
+      returnKeyType="done"
+    />
+  );
+}
+
+interface ListValueEditorProps {
+  items: string[];
+  onCommit: (value: PropertyValue) => void;
+}
+
+function ListValueEditor({items, onCommit}: ListValueEditorProps): React.JSX.Element {
+  const [draft, setDraft] = useState('');
+
+  const addItem = () => {
+    const item = draft.trim();
+    if (item) {
+      onCommit([...items, item]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <View style={styles.listValue}>
+      {items.map((item, index) => (
+        <Pressable
+          key={`${index}-${item}`}
+          style={styles.chip}
+          onPress={() => onCommit(items.filter((_, i) => i !== index))}
+          accessibilityRole="button"
+          accessibilityLabel={`Remove ${item}`}>
+          <Text style={styles.chipText} numberOfLines={1}>
+            {item}
+          </Text>
+          <Text style={styles.chipRemove}>✕</Text>
+        </Pressable>
+      ))}
+      <TextInput
+        style={[styles.valueInput, styles.listInput]}
+        value={draft}
+        onChangeText={setDraft}
+        onSubmitEditing={addItem}
+        onEndEditing={addItem}
+        placeholder="Add item"
+        placeholderTextColor={colors.textDisabled}
+        autoCapitalize="none"
+        returnKeyType="done"
+        blurOnSubmit={false}
+      />
+    </View>
+  );
+}
+
+interface PropertyRowProps {
+  property: Property;
+  type: PropertyType;
+  onCommit: (key: string, value: PropertyValue) => void;
+  onRemove: (key: string) => void;
+}
+
+const PropertyRow = React.memo(function PropertyRow({
+  property,
+  type,
+  onCommit,
+  onRemove,
+}: PropertyRowProps): React.JSX.Element {
+  const {key, value, readOnly} = property;
+  const commit = (next: PropertyValue) => onCommit(key, next);
+
+  let editor: React.ReactNode;
+  if (readOnly) {
+    editor = (
+      <Text style={styles.readOnlyValue} numberOfLines={3}>
+        {String(value)}
+      </Text>
+    );
+  } else if (type === 'checkbox') {
+    editor = (
+      <Switch
+        value={value === true}
+        onValueChange={commit}
+        trackColor={{false: colors.backgroundCard, true: colors.accent}}
+        accessibilityLabel={key}
+      />
+    );
+  } else if (type === 'list') {
+    const items = Array.isArray(value) ? value : value === null ? [] : [String(value)];
+    editor = <ListValueEditor items={items} onCommit={commit} />;
+  } else {
+    editor = <TextValueEditor value={value} type={type} onCommit={commit} />;
+  }
+
+  return (
+    <View style={styles.row}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.key} numberOfLines={1}>
+          {key}
+        </Text>
+        <Text style={styles.typeLabel}>
+          {readOnly ? 'Edit in source' : TYPE_LABELS[type]}
+        </Text>
+        <Pressable
+          onPress={() => onRemove(key)}
+          style={styles.removeButton}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel={`Remove property ${key}`}>
+          <Text style={styles.removeButtonText}>✕</Text>
+        </Pressable>
+      </View>
+      {editor}
+    </View>
+  );
+});
+
+interface AddPropertyProps {
+  existing: string[];
+  knownTypes: Record<string, PropertyType>;
+  onAdd: (key: string, type: PropertyType) => void;
+}
+
+function AddProperty({existing, knownTypes, onAdd}: AddPropertyProps): React.JSX.Element {
+  const [key, setKey] = useState('');
+  const [type, setType] = useState<PropertyType>('text');
+
+  const trimmed = key.trim();
+  const suggestions = useMemo(() => {
+    const query = trimmed.toLowerCase();
+    return Object.keys(knownTypes)
+      .filter(k => !existing.includes(k) && k.toLowerCase().startsWith(query))
+      .sort()
+      .slice(0, 5);
+  }, [existing, knownTypes, trimmed]);
+
+  const chooseKey = (next: string) => {
+    setKey(next);
+    const known = knownTypes[next];
+    if (known) {
+      setType(known);
+    }
+  };
+
+  const canAdd = trimmed !== '' && !existing.includes(trimmed);
+  const add = () => {
+    if (canAdd) {
+      onAdd(trimmed, type);
+      setKey('');
+      setType('text');
+    }
+  };
+
+  return (
+    <View style={styles.addSection}>
+      <Text style={styles.sectionTitle}>Add property</Text>
+      <TextInput
+        style={styles.valueInput}
+        value={key}
+        onChangeText={chooseKey}
+        onSubmitEditing={add}
+        placeholder="Name"
+        placeholderTextColor={colors.textDisabled}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+      />
+      {suggestions.length > 0 && (
+        <View style={styles.options}>
+          {suggestions.map(suggestion => (
+            <Pressable
+              key={suggestion}
+              style={styles.option}
+              onPress={() => chooseKey(suggestion)}
+              accessibilityRole="button">
+              <Text style={styles.optionText}>{suggestion}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+      <View style={styles.options}>
+        {(Object.keys(TYPE_LABELS) as PropertyType[]).map(option => (
+          <Pressable
+            key={option}
+            style={[styles.option, option === type && styles.optionSelected]}
+            onPress={() => setType(option)}
+            accessibilityRole="button"
+            accessibilityState={{selected: option === type}}>
+            <Text
+              style={[
+                styles.optionText,
+                option === type && styles.optionTextSelected,
+              ]}>
+              {TYPE_LABELS[option]}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      <Pressable
+        style={({pressed}) => [
+          styles.addButton,
+          !canAdd && styles.addButtonDisabled,
+          pressed && canAdd && styles.addButtonPressed,
+        ]}
+        onPress={add}
+        disabled={!canAdd}
+        accessibilityRole="button">
+        <Text style={styles.addButtonText}>Add</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+/**
+ * Edits the note's frontmatter as typed properties. Every change is
+ * written back through the frontmatter parser, so the rest of the YAML,
+ * comments included, stays as it was.
+ */
+export function PropertiesPanel({
+  visible,
+  onClose,
+  content,
+  knownTypes,
+  onChange,
+}: PropertiesPanelProps): React.JSX.Element {
+  const properties = useMemo(() => getProperties(content), [content]);
+
+  const handleCommit = useCallback(
+    (key: string, value: PropertyValue) => {
+      onChange(setProperty(content, key, value));
+    },
+    [content, onChange],
+  );
+
+  const handleRemove = useCallback(
+    (key: string) => {
+      onChange(removeProperty(content, key));
+    },
+    [content, onChange],
+  );
+
+  const handleAdd = useCallback(
+    (key: string, type: PropertyType) => {
+      onChange(setProperty(content, key, emptyValue(type)));
+    },
+    [content, onChange],
+  );
+
+  const typeOf = (property: Property): PropertyType =>
+    property.value === null
+      ? knownTypes[property.key] ?? 'text'
+      : propertyType(property.value);
+
+  return (
+    <Modal
+      isVisible={visible}
+      onBackdropPress={onClose}
+      onBackButtonPress={onClose}
+      backdropOpacity={0.6}
+      style={styles.modal}
+      animationIn="slideInUp"
+      animationOut="slideOutDown"
+      animationInTiming={250}
+      animationOutTiming={200}
+      useNativeDriverForBackdrop
+      avoidKeyboard>
+      <View style={styles.container}>
+        <View style={styles.handleContainer}>
+          <View style={styles.handle} />
+        </View>
+
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>
+            {properties.length === 0
+              ? 'No properties'
+              : `${properties.length} propert${properties.length !== 1 ? 'ies' : 'y'}`}
+          </Text>
+          <Pressable onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>✕</Text>
+          </Pressable>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentContainer}
+          keyboardShouldPersistTaps="handled">
+          {properties.map(property => (
+            <PropertyRow
+              key={property.key}
+              property={property}
+              type={typeOf(property)}
+              onCommit={handleCommit}
+              onRemove={handleRemove}
+            />
+          ))}
+          <AddProperty
+            existing={properties.map(property => property.key)}
+            knownTypes={knownTypes}
+            onAdd={handleAdd}
+          />
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    margin: 0,
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: colors.backgroundElevated,
+    borderTopLeftRadius: radius.xxl,
+    borderTopRightRadius: radius.xxl,
+    maxHeight: '80%',
+    minHeight: 200,
+    borderWidth: 1,
+    borderBottomWidth: 0,
+    borderColor: colors.border,
+  },
+  handleContainer: {
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    backgroundColor: colors.textDisabled,
+    borderRadius: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerTitle: {
+    flex: 1,
+    color: colors.textSecondary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  closeButton: {
+    width: touchTargets.minimum,
+    height: touchTargets.minimum,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    color: colors.textPlaceholder,
+    fontSize: 16,
+  },
+  content: {
+    flexGrow: 0,
+  },
+  contentContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+  row: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  key: {
+    flex: 1,
+    color: colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  typeLabel: {
+    color: colors.textPlaceholder,
+    fontSize: 12,
+    marginRight: 8,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  removeButtonText: {
+    color: colors.textPlaceholder,
+    fontSize: 14,
+  },
+  valueInput: {
+    color: colors.textSecondary,
+    fontSize: 15,
+    backgroundColor: colors.backgroundCard,
+    borderRadius: radius.sm,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  readOnlyValue: {
+    color: colors.textMuted,
+    fontSize: 14,
+    fontFamily: 'monospace',
+  },
+  listValue: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+  },
+  listInput: {
+    flexGrow: 1,
+    minWidth: 100,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.accentMuted,
+    borderRadius: radius.pill,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    maxWidth: '100%',
+  },
+  chipText: {
+    color: colors.textSecondary,
+    fontSize: 14,
+    flexShrink: 1,
+  },
+  chipRemove: {
+    color: colors.textPlaceholder,
+    fontSize: 11,
+    marginLeft: 6,
+  },
+  addSection: {
+    paddingTop: 16,
+    gap: 10,
+  },
+  sectionTitle: {
+    color: colors.textPlaceholder,
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  option: {
+    borderRadius: radius.pill,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  optionSelected: {
+    backgroundColor: colors.accentMuted,
+    borderColor: colors.borderFocus,
+  },
+  optionText: {
+    color: colors.textPlaceholder,
+    fontSize: 13,
+  },
+  optionTextSelected: {
+    color: colors.textPrimary,
+  },
+  addButton: {
+    alignItems: 'center',
+    backgroundColor: colors.accent,
+    borderRadius: radius.md,
+    paddingVertical: 12,
+  },
+  addButtonPressed: {
+    backgroundColor: colors.accentPressed,
+  },
+  addButtonDisabled: {
+    opacity: 0.4,
+  },
+  addButtonText: {
+    color: colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1 @@
+export {PropertiesPanel} from './PropertiesPanel';
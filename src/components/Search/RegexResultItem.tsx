@@ -0,0 +1,146 @@
+import React, {useMemo} from 'react';
+import {View, Text, StyleSheet, Pressable} from 'react-native';
+import type {RegexMatch} from '../../services/regex-search';
+import {colors, touchTargets} from '../../theme';
+
+interface RegexResultItemProps {
+  title: string;
+  path: string;
+  matches: RegexMatch[];
+  onPress: () => void;
+}
+
+// Characters kept before a match on long lines
+const LEAD = 40;
+
+function MatchLine({match}: {match: RegexMatch}): React.JSX.Element {
+  const {lineText, column} = match;
+  // A match running onto later lines is only highlighted on its first
+  const end = Math.min(column + match.text.length, lineText.length);
+  const start = Math.max(0, column - LEAD);
+
+  return (
+    <View style={styles.match}>
+      {match.before.map((text, i) => (
+        <Text key={`before-${i}`} style={styles.contextLine} numberOfLines={1}>
+          {text}
+        </Text>
+      ))}
+      <View style={styles.matchRow}>
+        <Text style={styles.lineNumber}>{match.line}</Text>
+        <Text style={styles.lineText} numberOfLines={2}>
+          {start > 0 ? '…' : ''}
+          {lineText.slice(start, column)}
+          <Text style={styles.highlight}>{lineText.slice(column, end)}</Text>
+          {lineText.slice(end)}
+        </Text>
+      </View>
+      {match.after.map((text, i) => (
+        <Text key={`after-${i}`} style={styles.contextLine} numberOfLines={1}>
+          {text}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+export function RegexResultItem({
+  title,
+  path,
+  matches,
+  onPress,
+}: RegexResultItemProps): React.JSX.Element {
+  const folderPath = useMemo(() => {
+    const parts = path.split('/');
+    return parts.slice(0, -1).join(' › ') || 'Vault';
+  }, [path]);
+
+  const count = `${matches.length} ${matches.length === 1 ? 'match' : 'matches'}`;
+
+  return (
+    <Pressable
+      style={styles.container}
+      onPress={onPress}
+      accessibilityLabel={`${title}, in ${folderPath}, ${count}`}
+      accessibilityHint="Double tap to open note"
+      accessibilityRole="button">
+      <View style={styles.header}>
+        <Text style={styles.title} numberOfLines={1}>
+          {title}
+        </Text>
+        <Text style={styles.count}>{count}</Text>
+      </View>
+      <Text style={styles.path} numberOfLines={1}>
+        {folderPath}
+      </Text>
+      {matches.map(match => (
+        <MatchLine key={match.index} match={match} />
+      ))}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    minHeight: touchTargets.comfortable,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    flex: 1,
+    color: colors.textSecondary,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  count: {
+    color: colors.textPlaceholder,
+    fontSize: 12,
+    marginLeft: 8,
+  },
+  path: {
+    color: colors.textPlaceholder,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  match: {
+    marginTop: 8,
+    paddingLeft: 8,
+    borderLeftWidth: 2,
+    borderLeftColor: colors.border,
+  },
+  matchRow: {
+    flexDirection: 'row',
+  },
+  lineNumber: {
+    color: colors.textDisabled,
+    fontSize: 12,
+    lineHeight: 18,
+    fontFamily: 'monospace',
+    minWidth: 28,
+  },
+  lineText: {
+    flex: 1,
+    color: colors.textMuted,
+    fontSize: 13,
+    lineHeight: 18,
+    fontFamily: 'monospace',
+  },
+  contextLine: {
+    color: colors.textDisabled,
+    fontSize: 12,
+    lineHeight: 18,
+    fontFamily: 'monospace',
+    paddingLeft: 28,
+  },
+  highlight: {
+    color: colors.accent,
+    fontWeight: '600',
+    backgroundColor: colors.accentMuted,
+  },
+});
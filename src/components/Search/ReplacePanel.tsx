@@ -0,0 +1,419 @@
+import React, {useCallback} from 'react';
+import {View, Text, StyleSheet, TextInput, Pressable} from 'react-native';
+import {FlashList} from '@shopify/flash-list';
+import type {ReplaceFile, ReplaceMatch, ReplacePlan} from '../../services/vault-replace';
+import {colors, radius, touchTargets} from '../../theme';
+
+interface ReplacePanelProps {
+  replacement: string;
+  onReplacementChange: (replacement: string) => void;
+  plan: ReplacePlan | null;
+  /** Why the pattern is invalid, if it is. */
+  error?: string | null;
+  /** Ids of the matches left out of the replacement. */
+  excluded: ReadonlySet<string>;
+  onToggleMatch: (match: ReplaceMatch) => void;
+  onToggleFile: (file: ReplaceFile) => void;
+  onReplace: () => void;
+  /** Disables replacing while the plan is out of date or being applied. */
+  isBusy: boolean;
+  /** The last replacement, while it can still be undone. */
+  lastReplace: {matches: number; files: number} | null;
+  onUndo: () => void;
+  onResultPress: (path: string) => void;
+}
+
+// Characters kept before a match on long lines
+const LEAD = 40;
+
+function plural(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+function Checkbox({
+  checked,
+  label,
+  onPress,
+}: {
+  checked: boolean;
+  label: string;
+  onPress: () => void;
+}): React.JSX.Element {
+  return (
+    <Pressable
+      onPress={onPress}
+      style={styles.checkboxTarget}
+      accessibilityLabel={label}
+      accessibilityRole="checkbox"
+      accessibilityState={{checked}}>
+      <View style={[styles.checkbox, checked && styles.checkboxChecked]}>
+        {checked && <Text style={styles.checkmark}>✓</Text>}
+      </View>
+    </Pressable>
+  );
+}
+
+function MatchPreview({
+  match,
+  included,
+  onToggle,
+}: {
+  match: ReplaceMatch;
+  included: boolean;
+  onToggle: () => void;
+}): React.JSX.Element {
+  const {lineText, column} = match;
+  const end = Math.min(column + match.text.length, lineText.length);
+  const start = Math.max(0, column - LEAD);
+  const lead = `${start > 0 ? '…' : ''}${lineText.slice(start, column)}`;
+  const replacementEnd = column + match.replacement.length;
+
+  return (
+    <View style={[styles.match, !included && styles.matchExcluded]}>
+      <Checkbox
+        checked={included}
+        label={`Replace match on line ${match.line}`}
+        onPress={onToggle}
+      />
+      <Text style={styles.lineNumber}>{match.line}</Text>
+      <View style={styles.lines}>
+        <Text style={styles.lineText} numberOfLines={2}>
+          {lead}
+          <Text style={styles.removed}>{lineText.slice(column, end)}</Text>
+          {lineText.slice(end)}
+        </Text>
+        <Text style={styles.lineText} numberOfLines={2}>
+          {lead}
+          <Text style={styles.added}>{match.replacement}</Text>
+          {match.preview.slice(replacementEnd)}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+export function ReplacePanel({
+  replacement,
+  onReplacementChange,
+  plan,
+  error,
+  excluded,
+  onToggleMatch,
+  onToggleFile,
+  onReplace,
+  isBusy,
+  lastReplace,
+  onUndo,
+  onResultPress,
+}: ReplacePanelProps): React.JSX.Element {
+  const selected = plan
+    ? plan.files.reduce(
+        (count, file) =>
+          count + file.matches.filter(match => !excluded.has(match.id)).length,
+        0,
+      )
+    : 0;
+
+  const renderFile = useCallback(
+    ({item}: {item: ReplaceFile}) => {
+      const included = item.matches.filter(match => !excluded.has(match.id)).length;
+      return (
+        <View style={styles.file}>
+          <View style={styles.fileHeader}>
+            <Checkbox
+              checked={included > 0}
+              label={`Replace in ${item.title}`}
+              onPress={() => onToggleFile(item)}
+            />
+            <Pressable
+              style={styles.fileTitle}
+              onPress={() => onResultPress(item.path)}
+              accessibilityRole="button"
+              accessibilityHint="Double tap to open note">
+              <Text style={styles.title} numberOfLines={1}>
+                {item.title}
+              </Text>
+              <Text style={styles.path} numberOfLines={1}>
+                {item.path}
+              </Text>
+            </Pressable>
+            <Text style={styles.count}>
+              {included}/{item.matches.length}
+            </Text>
+          </View>
+          {item.matches.map(match => (
+            <MatchPreview
+              key={match.id}
+              match={match}
+              included={!excluded.has(match.id)}
+              onToggle={() => onToggleMatch(match)}
+            />
+          ))}
+        </View>
+      );
+    },
+    [excluded, onToggleFile, onToggleMatch, onResultPress],
+  );
+
+  const keyExtractor = useCallback((item: ReplaceFile) => item.path, []);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputIcon}>↳</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Replace with..."
+          placeholderTextColor={colors.textPlaceholder}
+          value={replacement}
+          onChangeText={onReplacementChange}
+          autoCapitalize="none"
+          autoCorrect={false}
+          accessibilityLabel="Replace with"
+        />
+      </View>
+
+      {lastReplace && (
+        <View style={styles.banner}>
+          <Text style={styles.bannerText}>
+            Replaced {plural(lastReplace.matches, 'match', 'matches')} in{' '}
+            {plural(lastReplace.files, 'note', 'notes')}
+          </Text>
+          <Pressable
+            onPress={onUndo}
+            style={styles.bannerButton}
+            accessibilityLabel="Undo replace"
+            accessibilityRole="button">
+            <Text style={styles.bannerButtonText}>Undo</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {error ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.errorText}>Invalid pattern</Text>
+          <Text style={styles.emptySubtext}>{error}</Text>
+        </View>
+      ) : plan && plan.matches > 0 ? (
+        <>
+          <View style={styles.summary}>
+            <Text style={styles.summaryText}>
+              {selected} of {plural(plan.matches, 'match', 'matches')} in{' '}
+              {plural(plan.files.length, 'note', 'notes')}
+            </Text>
+            <Pressable
+              onPress={onReplace}
+              disabled={isBusy || selected === 0}
+              style={[
+                styles.replaceButton,
+                (isBusy || selected === 0) && styles.replaceButtonDisabled,
+              ]}
+              accessibilityLabel={`Replace ${plural(selected, 'match', 'matches')}`}
+              accessibilityRole="button">
+              <Text style={styles.replaceButtonText}>Replace</Text>
+            </Pressable>
+          </View>
+          <FlashList
+            data={plan.files}
+            extraData={excluded}
+            renderItem={renderFile}
+            keyExtractor={keyExtractor}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          />
+        </>
+      ) : (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>
+            {plan ? 'No matches' : 'Find text across every note and replace it'}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.border,
+    borderRadius: radius.lg,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    paddingHorizontal: 14,
+    minHeight: touchTargets.comfortable,
+  },
+  inputIcon: {
+    color: colors.textPlaceholder,
+    fontSize: 16,
+    marginRight: 10,
+  },
+  input: {
+    flex: 1,
+    height: touchTargets.comfortable,
+    color: colors.textPrimary,
+    fontSize: 16,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 12,
+    paddingLeft: 14,
+    borderRadius: radius.md,
+    backgroundColor: colors.accentMuted,
+  },
+  bannerText: {
+    flex: 1,
+    color: colors.textSecondary,
+    fontSize: 14,
+  },
+  bannerButton: {
+    minWidth: touchTargets.minimum,
+    minHeight: touchTargets.minimum,
+    paddingHorizontal: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bannerButtonText: {
+    color: colors.accent,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  summaryText: {
+    flex: 1,
+    color: colors.textPlaceholder,
+    fontSize: 13,
+  },
+  replaceButton: {
+    minHeight: touchTargets.minimum,
+    paddingHorizontal: 18,
+    borderRadius: radius.pill,
+    backgroundColor: colors.accent,
+    justifyContent: 'center',
+  },
+  replaceButtonDisabled: {
+    opacity: 0.5,
+  },
+  replaceButtonText: {
+    color: colors.textPrimary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  file: {
+    paddingVertical: 8,
+    paddingRight: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  fileHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  fileTitle: {
+    flex: 1,
+  },
+  title: {
+    color: colors.textSecondary,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  path: {
+    color: colors.textPlaceholder,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  count: {
+    color: colors.textPlaceholder,
+    fontSize: 12,
+    marginLeft: 8,
+  },
+  match: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  matchExcluded: {
+    opacity: 0.4,
+  },
+  checkboxTarget: {
+    width: touchTargets.minimum,
+    height: touchTargets.minimum,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 1.5,
+    borderColor: colors.textPlaceholder,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: colors.accent,
+    borderColor: colors.accent,
+  },
+  checkmark: {
+    color: colors.textPrimary,
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  lineNumber: {
+    color: colors.textDisabled,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    minWidth: 28,
+  },
+  lines: {
+    flex: 1,
+  },
+  lineText: {
+    color: colors.textMuted,
+    fontSize: 13,
+    lineHeight: 18,
+    fontFamily: 'monospace',
+  },
+  removed: {
+    color: colors.error,
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+    textDecorationLine: 'line-through',
+  },
+  added: {
+    color: colors.success,
+    backgroundColor: 'rgba(16, 185, 129, 0.1)',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 32,
+  },
+  emptyText: {
+    color: colors.textPlaceholder,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  errorText: {
+    color: colors.error,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    color: colors.textPlaceholder,
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
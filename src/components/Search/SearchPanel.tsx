@@ -7,11 +7,14 @@ import {
   Pressable,
   ActivityIndicator,
   Animated,
+  ScrollView,
 } from 'react-native';
 import {FlashList} from '@shopify/flash-list';
 import {SearchResultItem} from './SearchResultItem';
+import {RegexResultItem} from './RegexResultItem';
 import type {SearchResult} from '../../types';
 import type {SearchMode} from '../../hooks/useSearch';
+import type {RegexFileMatches} from '../../services/regex-search';
 import {colors, radius, touchTargets} from '../../theme';
 
 interface SearchPanelProps {
@@ -20,18 +23,63 @@ interface SearchPanelProps {
   results: SearchResult[];
   mode: SearchMode;
   onModeChange: (mode: SearchMode) => void;
+  caseSensitive: boolean;
+  onCaseSensitiveChange: (caseSensitive: boolean) => void;
+  regexResults: RegexFileMatches[];
+  /** Whether replace mode's pattern is a regular expression. */
+  isRegex?: boolean;
+  onIsRegexChange?: (isRegex: boolean) => void;
+  /** Shown instead of results, e.g. for an invalid pattern. */
+  error?: string | null;
   isLoading: boolean;
   onResultPress: (path: string) => void;
+  /** Shown below the search box in replace mode. */
+  children?: React.ReactNode;
 }
 
+const MODES: Array<{mode: SearchMode; label: string}> = [
+  {mode: 'filename', label: 'Filename'},
+  {mode: 'fulltext', label: 'Full Text'},
+  {mode: 'regex', label: 'Regex'},
+  {mode: 'replace', label: 'Replace'},
+];
+
+const PLACEHOLDERS: Record<SearchMode, string> = {
+  filename: 'Search by filename...',
+  fulltext: 'Search content, "phrase", -word, tag:...',
+  regex: 'Regular expression, e.g. TODO|FIXME',
+  replace: 'Find...',
+};
+
+const ACCESSIBILITY_LABELS: Record<SearchMode, string> = {
+  filename: 'Search by filename',
+  fulltext: 'Search content',
+  regex: 'Search with a regular expression',
+  replace: 'Find',
+};
+
+const EMPTY_MESSAGES: Record<SearchMode, string> = {
+  filename: 'Search notes by filename',
+  fulltext: 'Search within note content',
+  regex: 'Find every line matching a pattern',
+  replace: 'Find text across every note and replace it',
+};
+
 export function SearchPanel({
   query,
   onQueryChange,
   results,
   mode,
   onModeChange,
+  caseSensitive,
+  onCaseSensitiveChange,
+  regexResults,
+  isRegex = false,
+  onIsRegexChange,
+  error,
   isLoading,
   onResultPress,
+  children,
 }: SearchPanelProps): React.JSX.Element {
   const inputRef = useRef<TextInput>(null);
   const clearButtonOpacity = useRef(new Animated.Value(0)).current;
@@ -71,7 +119,19 @@ export function SearchPanel({
     [onResultPress],
   );
 
-  const keyExtractor = useCallback((item: SearchResult) => item.path, []);
+  const renderRegexItem = useCallback(
+    ({item}: {item: RegexFileMatches}) => (
+      <RegexResultItem
+        title={item.title}
+        path={item.path}
+        matches={item.matches}
+        onPress={() => onResultPress(item.path)}
+      />
+    ),
+    [onResultPress],
+  );
+
+  const keyExtractor = useCallback((item: {path: string}) => item.path, []);
 
   const handleClear = () => {
     onQueryChange('');
@@ -80,47 +140,74 @@ export function SearchPanel({
 
   return (
     <View style={styles.container}>
-      <View style={styles.tabBar}>
-        <Pressable
-          style={[styles.tab, mode === 'filename' && styles.tabActive]}
-          onPress={() => onModeChange('filename')}>
-          <Text
-            style={[
-              styles.tabText,
-              mode === 'filename' && styles.tabTextActive,
-            ]}>
-            Filename
-          </Text>
-        </Pressable>
-        <Pressable
-          style={[styles.tab, mode === 'fulltext' && styles.tabActive]}
-          onPress={() => onModeChange('fulltext')}>
-          <Text
-            style={[
-              styles.tabText,
-              mode === 'fulltext' && styles.tabTextActive,
-            ]}>
-            Full Text
-          </Text>
-        </Pressable>
-      </View>
+      <ScrollView
+        horizontal
+        style={styles.tabScroll}
+        contentContainerStyle={styles.tabBar}
+        showsHorizontalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled">
+        {MODES.map(tab => (
+          <Pressable
+            key={tab.mode}
+            style={[styles.tab, mode === tab.mode && styles.tabActive]}
+            onPress={() => onModeChange(tab.mode)}>
+            <Text
+              style={[
+                styles.tabText,
+                mode === tab.mode && styles.tabTextActive,
+              ]}>
+              {tab.label}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
 
       <View style={styles.searchContainer}>
         <Text style={styles.searchIcon}>🔍</Text>
         <TextInput
           ref={inputRef}
           style={styles.input}
-          placeholder={
-            mode === 'filename' ? 'Search by filename...' : 'Search content...'
-          }
+          placeholder={PLACEHOLDERS[mode]}
           placeholderTextColor={colors.textPlaceholder}
           value={query}
           onChangeText={onQueryChange}
           autoCapitalize="none"
           autoCorrect={false}
           returnKeyType="search"
-          accessibilityLabel={mode === 'filename' ? 'Search by filename' : 'Search content'}
+          accessibilityLabel={ACCESSIBILITY_LABELS[mode]}
         />
+        {mode === 'replace' && onIsRegexChange && (
+          <Pressable
+            onPress={() => onIsRegexChange(!isRegex)}
+            style={[styles.caseToggle, isRegex && styles.caseToggleActive]}
+            accessibilityLabel="Use regular expression"
+            accessibilityRole="switch"
+            accessibilityState={{checked: isRegex}}>
+            <Text
+              style={[
+                styles.caseToggleText,
+                isRegex && styles.caseToggleTextActive,
+              ]}>
+              .*
+            </Text>
+          </Pressable>
+        )}
+        {(mode === 'regex' || mode === 'replace') && (
+          <Pressable
+            onPress={() => onCaseSensitiveChange(!caseSensitive)}
+            style={[styles.caseToggle, caseSensitive && styles.caseToggleActive]}
+            accessibilityLabel="Match case"
+            accessibilityRole="switch"
+            accessibilityState={{checked: caseSensitive}}>
+            <Text
+              style={[
+                styles.caseToggleText,
+                caseSensitive && styles.caseToggleTextActive,
+              ]}>
+              Aa
+            </Text>
+          </Pressable>
+        )}
         {isLoading && (
           <ActivityIndicator
             size="small"
@@ -142,7 +229,22 @@ export function SearchPanel({
       </View>
 
       <View style={styles.resultsContainer}>
-        {results.length > 0 ? (
+        {mode === 'replace' ? (
+          children
+        ) : error ? (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.errorText}>Invalid pattern</Text>
+            <Text style={styles.emptySubtext}>{error}</Text>
+          </View>
+        ) : mode === 'regex' && regexResults.length > 0 ? (
+          <FlashList
+            data={regexResults}
+            renderItem={renderRegexItem}
+            keyExtractor={keyExtractor}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          />
+        ) : mode !== 'regex' && results.length > 0 ? (
           <FlashList
             data={results}
             renderItem={renderItem}
@@ -161,11 +263,7 @@ export function SearchPanel({
         ) : !query.length ? (
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyIcon}>🔍</Text>
-            <Text style={styles.emptyText}>
-              {mode === 'filename'
-                ? 'Search notes by filename'
-                : 'Search within note content'}
-            </Text>
+            <Text style={styles.emptyText}>{EMPTY_MESSAGES[mode]}</Text>
           </View>
         ) : null}
       </View>
@@ -178,6 +276,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: colors.backgroundElevated,
   },
+  tabScroll: {
+    flexGrow: 0,
+  },
   tabBar: {
     flexDirection: 'row',
     paddingHorizontal: 16,
@@ -227,6 +328,25 @@ const styles = StyleSheet.create({
   loader: {
     marginRight: 8,
   },
+  caseToggle: {
+    minWidth: touchTargets.minimum,
+    height: touchTargets.minimum,
+    paddingHorizontal: 8,
+    borderRadius: radius.sm,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  caseToggleActive: {
+    backgroundColor: colors.accentMuted,
+  },
+  caseToggleText: {
+    color: colors.textPlaceholder,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  caseToggleTextActive: {
+    color: colors.accent,
+  },
   clearButton: {
     width: touchTargets.minimum,
     height: touchTargets.minimum,
@@ -257,6 +377,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlign: 'center',
   },
+  errorText: {
+    color: colors.error,
+    fontSize: 16,
+    textAlign: 'center',
+  },
   emptySubtext: {
     color: colors.textPlaceholder,
     fontSize: 14,
@@ -1,2 +1,4 @@
 export {SearchPanel} from './SearchPanel';
 export {SearchResultItem} from './SearchResultItem';
+export {RegexResultItem} from './RegexResultItem';
+export {ReplacePanel} from './ReplacePanel';
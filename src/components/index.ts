@@ -2,6 +2,7 @@ export {FileTree, FileTreeItem} from './FileTree';
 export {QuickSwitcher} from './QuickSwitcher';
 export {RecentNotes} from './RecentNotes';
 export {Breadcrumb} from './Breadcrumb';
-export {SearchPanel, SearchResultItem} from './Search';
+export {SearchPanel, SearchResultItem, RegexResultItem, ReplacePanel} from './Search';
 export {BacklinksPanel, BacklinkItem} from './Backlinks';
+export {PropertiesPanel} from './Properties';
 export {BlurHeader, useBlurHeaderHeight} from './BlurHeader';
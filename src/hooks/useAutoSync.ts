@@ -1,10 +1,30 @@
 import {useEffect, useRef} from 'react';
+import {AppState} from 'react-native';
+import type {AppStateStatus} from 'react-native';
 import {useVaultStore} from '../store';
-import {gitSync} from '../services/git-sync';
+import {syncManager} from '../services/sync-manager';
+import type {SyncDirection} from '../services/sync-manager';
+import {useSyncQueueStore} from '../services/sync-queue';
+import type {SyncQueueItem} from '../types';
+
+const AUTO_SYNC_MESSAGE = 'Auto-sync from Obsidian Git Mobile';
+
+async function autoSync(direction: SyncDirection = 'both') {
+  try {
+    await syncManager.sync(AUTO_SYNC_MESSAGE, direction);
+  } catch (error) {
+    console.error('Auto-sync failed:', error);
+  }
+}
+
+function lastQueuedAt(queue: SyncQueueItem[]): number {
+  return queue.reduce((latest, item) => Math.max(latest, item.queuedAt), 0);
+}
 
 export function useAutoSync() {
   const syncInterval = useVaultStore(state => state.syncInterval);
-  const setSyncStatus = useVaultStore(state => state.setSyncStatus);
+  const syncOnAppState = useVaultStore(state => state.syncOnAppState);
+  const syncAfterEdit = useVaultStore(state => state.syncAfterEdit);
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   useEffect(() => {
@@ -16,27 +36,62 @@ export function useAutoSync() {
       return;
     }
 
-    const sync = async () => {
-      try {
-        await gitSync.pull();
-        const queue = useVaultStore.getState().syncQueue;
-        if (queue.length > 0) {
-          await gitSync.commitAndPush('Auto-sync from Obsidian Git Mobile');
-          useVaultStore.getState().clearSyncQueue();
-        }
-        const status = await gitSync.status();
-        setSyncStatus(status);
-      } catch (error) {
-        console.error('Auto-sync failed:', error);
+    intervalRef.current = setInterval(autoSync, syncInterval * 60 * 1000);
+
+    return () => {
+      if (intervalRef.current) {
+        clearInterval(intervalRef.current);
       }
     };
+  }, [syncInterval]);
+
+  useEffect(() => {
+    if (!syncOnAppState) {
+      return;
+    }
+
+    let previous: AppStateStatus = AppState.currentState;
+    const subscription = AppState.addEventListener('change', next => {
+      if (next === 'active' && previous !== 'active') {
+        autoSync('pull');
+      } else if (next === 'background') {
+        autoSync('push');
+      }
+      previous = next;
+    });
+
+    return () => subscription.remove();
+  }, [syncOnAppState]);
+
+  useEffect(() => {
+    if (syncAfterEdit <= 0) {
+      return;
+    }
 
-    intervalRef.current = setInterval(sync, syncInterval * 60 * 1000);
+    // Every edit made in the app lands in the sync queue, so a newer
+    // queuedAt means the user just changed something
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let lastEditAt = lastQueuedAt(useSyncQueueStore.getState().queue);
+    const unsubscribe = useSyncQueueStore.subscribe(state => {
+      const editAt = lastQueuedAt(state.queue);
+      if (editAt <= lastEditAt) {
+        return;
+      }
+      lastEditAt = editAt;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(() => {
+        timer = null;
+        autoSync();
+      }, syncAfterEdit * 1000);
+    });
 
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+      unsubscribe();
+      if (timer) {
+        clearTimeout(timer);
       }
     };
-  }, [syncInterval, setSyncStatus]);
+  }, [syncAfterEdit]);
 }
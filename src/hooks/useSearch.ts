@@ -1,8 +1,24 @@
 import {useState, useEffect, useCallback} from 'react';
 import {useDebouncedValue} from './useDebounce';
 import type {SearchResult, FileMeta} from '../types';
+import type {RegexFileMatches} from '../services/regex-search';
+import type {ReplacePlan} from '../services/vault-replace';
 
-export type SearchMode = 'filename' | 'fulltext';
+export type SearchMode = 'filename' | 'fulltext' | 'regex' | 'replace';
+
+export interface RegexSearchRequest {
+  caseSensitive: boolean;
+  signal: AbortSignal;
+  onResult: (result: RegexFileMatches) => void;
+}
+
+export interface ReplaceSearchRequest {
+  replacement: string;
+  /** Whether the pattern is a regular expression rather than literal text. */
+  regex: boolean;
+  caseSensitive: boolean;
+  signal: AbortSignal;
+}
 
 export interface FileSearchResult {
   path: string;
@@ -14,6 +30,9 @@ export interface UseSearchOptions {
   debounceMs?: number;
   onFilenameSearch?: (query: string) => Promise<FileMeta[]>;
   onFulltextSearch?: (query: string) => Promise<SearchResult[]>;
+  /** Streams matches through `onResult`; should stop when `signal` aborts. */
+  onRegexSearch?: (pattern: string, request: RegexSearchRequest) => Promise<unknown>;
+  onReplaceSearch?: (pattern: string, request: ReplaceSearchRequest) => Promise<ReplacePlan>;
 }
 
 export interface UseSearchReturn {
@@ -22,54 +41,149 @@ export interface UseSearchReturn {
   results: SearchResult[];
   mode: SearchMode;
   setMode: (mode: SearchMode) => void;
+  caseSensitive: boolean;
+  setCaseSensitive: (caseSensitive: boolean) => void;
+  /** Notes matching in regex mode, in the order they were scanned. */
+  regexResults: RegexFileMatches[];
+  replacement: string;
+  setReplacement: (replacement: string) => void;
+  /** Whether replace mode's pattern is a regular expression. */
+  isRegex: boolean;
+  setIsRegex: (isRegex: boolean) => void;
+  /** Every match in replace mode and what it becomes. */
+  replacePlan: ReplacePlan | null;
+  /** Why the regex pattern is invalid, if it is. */
+  error: string | null;
   isLoading: boolean;
+  /** Searches again with the same query, e.g. after the vault changed. */
+  refresh: () => void;
 }
 
 export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
-  const {debounceMs = 150, onFilenameSearch, onFulltextSearch} = options;
+  const {
+    debounceMs = 150,
+    onFilenameSearch,
+    onFulltextSearch,
+    onRegexSearch,
+    onReplaceSearch,
+  } = options;
 
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
   const [mode, setMode] = useState<SearchMode>('filename');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [regexResults, setRegexResults] = useState<RegexFileMatches[]>([]);
+  const [replacement, setReplacement] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [replacePlan, setReplacePlan] = useState<ReplacePlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [generation, setGeneration] = useState(0);
 
   const debouncedQuery = useDebouncedValue(query, debounceMs);
+  const debouncedReplacement = useDebouncedValue(replacement, debounceMs);
 
-  const performSearch = useCallback(async () => {
-    const trimmedQuery = debouncedQuery.trim();
-    if (!trimmedQuery) {
-      setResults([]);
-      return;
-    }
+  // Each search gets a signal that aborts once the query, mode or options
+  // change, so a slow search never overwrites a newer one's results
+  const performSearch = useCallback(
+    async (signal: AbortSignal) => {
+      const trimmedQuery = debouncedQuery.trim();
+      setError(null);
+      if (!trimmedQuery) {
+        setResults([]);
+        setRegexResults([]);
+        setReplacePlan(null);
+        setIsLoading(false);
+        return;
+      }
 
-    setIsLoading(true);
-    try {
-      if (mode === 'filename' && onFilenameSearch) {
-        const files = await onFilenameSearch(trimmedQuery);
-        const searchResults: SearchResult[] = files.map(file => ({
-          path: file.path,
-          title: file.title,
-          snippet: '',
-          score: 0,
-        }));
-        setResults(searchResults);
-      } else if (mode === 'fulltext' && onFulltextSearch) {
-        const searchResults = await onFulltextSearch(trimmedQuery);
-        setResults(searchResults);
-      } else {
+      setIsLoading(true);
+      try {
+        if (mode === 'filename' && onFilenameSearch) {
+          const files = await onFilenameSearch(trimmedQuery);
+          if (signal.aborted) {
+            return;
+          }
+          const searchResults: SearchResult[] = files.map(file => ({
+            path: file.path,
+            title: file.title,
+            snippet: '',
+            score: 0,
+          }));
+          setResults(searchResults);
+        } else if (mode === 'fulltext' && onFulltextSearch) {
+          const searchResults = await onFulltextSearch(trimmedQuery);
+          if (signal.aborted) {
+            return;
+          }
+          setResults(searchResults);
+        } else if (mode === 'regex' && onRegexSearch) {
+          setResults([]);
+          setRegexResults([]);
+          // Spaces can be part of a pattern, so only an empty one is skipped
+          await onRegexSearch(debouncedQuery, {
+            caseSensitive,
+            signal,
+            onResult: result => {
+              if (!signal.aborted) {
+                setRegexResults(previous => [...previous, result]);
+              }
+            },
+          });
+        } else if (mode === 'replace' && onReplaceSearch) {
+          setResults([]);
+          const plan = await onReplaceSearch(debouncedQuery, {
+            replacement: debouncedReplacement,
+            regex: isRegex,
+            caseSensitive,
+            signal,
+          });
+          if (signal.aborted) {
+            return;
+          }
+          setReplacePlan(plan);
+        } else {
+          setResults([]);
+        }
+      } catch (searchError) {
+        if (signal.aborted) {
+          return;
+        }
+        if ((mode === 'regex' || mode === 'replace') && searchError instanceof SyntaxError) {
+          setError(searchError.message);
+        } else {
+          console.error('Search failed:', searchError);
+        }
         setResults([]);
+        setRegexResults([]);
+        setReplacePlan(null);
+      } finally {
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
       }
-    } catch (error) {
-      console.error('Search failed:', error);
-      setResults([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [debouncedQuery, mode, onFilenameSearch, onFulltextSearch]);
+    },
+    [
+      debouncedQuery,
+      debouncedReplacement,
+      mode,
+      caseSensitive,
+      isRegex,
+      onFilenameSearch,
+      onFulltextSearch,
+      onRegexSearch,
+      onReplaceSearch,
+    ],
+  );
 
+  // `generation` changes only to search again when refreshed
   useEffect(() => {
-    void performSearch();
-  }, [performSearch]);
+    const controller = new AbortController();
+    void performSearch(controller.signal);
+    return () => controller.abort();
+  }, [performSearch, generation]);
+
+  const refresh = useCallback(() => setGeneration(value => value + 1), []);
 
   return {
     query,
@@ -77,6 +191,16 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
     results,
     mode,
     setMode,
+    caseSensitive,
+    setCaseSensitive,
+    regexResults,
+    replacement,
+    setReplacement,
+    isRegex,
+    setIsRegex,
+    replacePlan,
+    error,
     isLoading,
+    refresh,
   };
 }
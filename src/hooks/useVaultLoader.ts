@@ -7,6 +7,8 @@ import {treeCache} from '../services/tree-cache';
 export function useVaultLoader() {
   const setFileTree = useVaultStore(state => state.setFileTree);
   const setIsLoading = useVaultStore(state => state.setIsLoading);
+  // Reload when switching vaults
+  const vaultPath = useVaultStore(state => state.vaultPath);
 
   useEffect(() => {
     let cancelled = false;
@@ -51,5 +53,5 @@ export function useVaultLoader() {
     return () => {
       cancelled = true;
     };
-  }, [setFileTree, setIsLoading]);
+  }, [setFileTree, setIsLoading, vaultPath]);
 }
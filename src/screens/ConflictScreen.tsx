@@ -0,0 +1,481 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import type {NativeStackScreenProps} from '@react-navigation/native-stack';
+import type {RootStackParamList} from '../../App';
+import {useConflictStore} from '../services/conflict-store';
+import {syncManager} from '../services/sync-manager';
+import {useVaultStore} from '../store';
+import type {ConflictHunk, FileConflict} from '../types';
+import {
+  renderMerge,
+  resolveHunk,
+  type HunkResolution,
+} from '../utils/merge';
+import {colors, radius, touchTargets} from '../theme';
+import {haptics} from '../utils/haptics';
+
+type ConflictScreenProps = NativeStackScreenProps<
+  RootStackParamList,
+  'Conflict'
+>;
+
+const CHOICES: Array<{type: 'local' | 'remote' | 'both'; label: string}> = [
+  {type: 'local', label: 'Local'},
+  {type: 'remote', label: 'Remote'},
+  {type: 'both', label: 'Both'},
+];
+
+interface ConflictFileListProps {
+  conflicts: FileConflict[];
+  onSelect: (path: string) => void;
+}
+
+function ConflictFileList({
+  conflicts,
+  onSelect,
+}: ConflictFileListProps): React.JSX.Element {
+  if (conflicts.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyIcon}>✓</Text>
+        <Text style={styles.emptyText}>No conflicts</Text>
+        <Text style={styles.emptySubtext}>
+          Files changed both here and on the remote will appear here
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      {conflicts.map(conflict => (
+        <Pressable
+          key={conflict.path}
+          style={({pressed}) => [
+            styles.fileRow,
+            pressed && styles.fileRowPressed,
+          ]}
+          onPress={() => onSelect(conflict.path)}
+          accessibilityRole="button"
+          accessibilityLabel={`${conflict.path}, ${conflict.hunks.length} conflicts`}>
+          <Text style={styles.filePath} numberOfLines={1}>
+            {conflict.path}
+          </Text>
+          <Text style={styles.fileCount}>
+            {conflict.hunks.length}{' '}
+            {conflict.hunks.length === 1 ? 'conflict' : 'conflicts'}
+          </Text>
+        </Pressable>
+      ))}
+    </ScrollView>
+  );
+}
+
+interface HunkCardProps {
+  hunk: ConflictHunk;
+  index: number;
+  total: number;
+  resolution: HunkResolution | null;
+  onResolve: (index: number, resolution: HunkResolution) => void;
+}
+
+function HunkCard({
+  hunk,
+  index,
+  total,
+  resolution,
+  onResolve,
+}: HunkCardProps): React.JSX.Element {
+  const isEditing = resolution?.type === 'manual';
+
+  const handleEdit = useCallback(() => {
+    const initial = resolution ? resolveHunk(hunk, resolution) : hunk.local;
+    onResolve(index, {type: 'manual', text: initial.join('\n')});
+  }, [hunk, index, resolution, onResolve]);
+
+  return (
+    <View style={styles.hunkCard}>
+      <Text style={styles.hunkTitle}>
+        Conflict {index + 1} of {total} · line {hunk.localStart}
+      </Text>
+
+      <View style={styles.sides}>
+        <View style={[styles.side, styles.sideLocal]}>
+          <Text style={styles.sideLabel}>Local</Text>
+          <Text style={styles.sideText}>{hunk.local.join('\n') || ' '}</Text>
+        </View>
+        <View style={[styles.side, styles.sideRemote]}>
+          <Text style={styles.sideLabel}>Remote</Text>
+          <Text style={styles.sideText}>{hunk.remote.join('\n') || ' '}</Text>
+        </View>
+      </View>
+
+      <View style={styles.choiceRow}>
+        {CHOICES.map(choice => (
+          <Pressable
+            key={choice.type}
+            style={({pressed}) => [
+              styles.choiceButton,
+              resolution?.type === choice.type && styles.choiceButtonActive,
+              pressed && styles.choiceButtonPressed,
+            ]}
+            onPress={() => {
+              haptics.selection();
+              onResolve(index, {type: choice.type});
+            }}
+            accessibilityRole="button"
+            accessibilityLabel={`Keep ${choice.label.toLowerCase()} for conflict ${index + 1}`}>
+            <Text
+              style={[
+                styles.choiceText,
+                resolution?.type === choice.type && styles.choiceTextActive,
+              ]}>
+              {choice.label}
+            </Text>
+          </Pressable>
+        ))}
+        <Pressable
+          style={({pressed}) => [
+            styles.choiceButton,
+            isEditing && styles.choiceButtonActive,
+            pressed && styles.choiceButtonPressed,
+          ]}
+          onPress={handleEdit}
+          accessibilityRole="button"
+          accessibilityLabel={`Edit conflict ${index + 1} manually`}>
+          <Text style={[styles.choiceText, isEditing && styles.choiceTextActive]}>
+            Edit
+          </Text>
+        </Pressable>
+      </View>
+
+      {resolution?.type === 'manual' && (
+        <TextInput
+          style={styles.manualInput}
+          value={resolution.text}
+          onChangeText={text => onResolve(index, {type: 'manual', text})}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          accessibilityLabel={`Manual resolution for conflict ${index + 1}`}
+        />
+      )}
+    </View>
+  );
+}
+
+interface ConflictFileViewProps {
+  conflict: FileConflict;
+  onResolved: () => void;
+}
+
+function ConflictFileView({
+  conflict,
+  onResolved,
+}: ConflictFileViewProps): React.JSX.Element {
+  const refreshTree = useVaultStore(state => state.refreshTree);
+  const [resolutions, setResolutions] = useState<Array<HunkResolution | null>>(
+    () => conflict.hunks.map(() => null),
+  );
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleResolve = useCallback(
+    (index: number, resolution: HunkResolution) => {
+      setResolutions(prev =>
+        prev.map((existing, i) => (i === index ? resolution : existing)),
+      );
+    },
+    [],
+  );
+
+  const allResolved = resolutions.every(resolution => resolution !== null);
+
+  const handleApply = useCallback(async () => {
+    setIsApplying(true);
+    try {
+      const content = renderMerge(conflict.regions, conflict.hunks, (hunk, i) =>
+        resolveHunk(hunk, resolutions[i] ?? {type: 'local'}),
+      );
+      await syncManager.resolveConflict(conflict.path, content);
+      haptics.notificationSuccess();
+      await refreshTree();
+      onResolved();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Resolve Failed', message);
+    } finally {
+      setIsApplying(false);
+    }
+  }, [conflict, resolutions, refreshTree, onResolved]);
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled">
+        <Text style={styles.filePathHeader}>{conflict.path}</Text>
+        {conflict.hunks.map((hunk, index) => (
+          <HunkCard
+            key={`${hunk.baseStart}-${index}`}
+            hunk={hunk}
+            index={index}
+            total={conflict.hunks.length}
+            resolution={resolutions[index] ?? null}
+            onResolve={handleResolve}
+          />
+        ))}
+      </ScrollView>
+
+      <Pressable
+        style={({pressed}) => [
+          styles.applyButton,
+          pressed && styles.applyButtonPressed,
+          (!allResolved || isApplying) && styles.buttonDisabled,
+        ]}
+        onPress={handleApply}
+        disabled={!allResolved || isApplying}
+        accessibilityRole="button"
+        accessibilityLabel="Apply resolution and commit">
+        {isApplying ? (
+          <ActivityIndicator size="small" color={colors.textPrimary} />
+        ) : (
+          <Text style={styles.applyButtonText}>Apply & Commit</Text>
+        )}
+      </Pressable>
+    </View>
+  );
+}
+
+export function ConflictScreen({
+  route,
+  navigation,
+}: ConflictScreenProps): React.JSX.Element {
+  const path = route.params?.path;
+  const conflicts = useConflictStore(state => state.conflicts);
+  const conflict = path
+    ? conflicts.find(candidate => candidate.path === path)
+    : undefined;
+
+  useEffect(() => {
+    navigation.setOptions({
+      title: path ? 'Resolve Conflict' : 'Conflicts',
+    });
+  }, [navigation, path]);
+
+  const handleSelect = useCallback(
+    (selectedPath: string) => {
+      navigation.push('Conflict', {path: selectedPath});
+    },
+    [navigation],
+  );
+
+  const handleResolved = useCallback(() => {
+    navigation.goBack();
+  }, [navigation]);
+
+  if (!path) {
+    return (
+      <View style={styles.container}>
+        <ConflictFileList conflicts={conflicts} onSelect={handleSelect} />
+      </View>
+    );
+  }
+
+  if (!conflict) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyIcon}>✓</Text>
+          <Text style={styles.emptyText}>Conflict resolved</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <ConflictFileView
+      key={conflict.path}
+      conflict={conflict}
+      onResolved={handleResolved}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+    minHeight: touchTargets.comfortable,
+    backgroundColor: colors.backgroundElevated,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  fileRowPressed: {
+    backgroundColor: colors.backgroundCard,
+  },
+  filePath: {
+    flex: 1,
+    color: colors.textSecondary,
+    fontSize: 15,
+    marginRight: 12,
+  },
+  fileCount: {
+    color: colors.warning,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  filePathHeader: {
+    color: colors.textMuted,
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  hunkCard: {
+    backgroundColor: colors.backgroundElevated,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: 12,
+    marginBottom: 16,
+  },
+  hunkTitle: {
+    color: colors.textSecondary,
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 10,
+  },
+  sides: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  side: {
+    flex: 1,
+    borderRadius: radius.sm,
+    borderLeftWidth: 3,
+    padding: 8,
+    backgroundColor: colors.backgroundCard,
+  },
+  sideLocal: {
+    borderLeftColor: colors.accent,
+  },
+  sideRemote: {
+    borderLeftColor: colors.warning,
+  },
+  sideLabel: {
+    color: colors.textPlaceholder,
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  sideText: {
+    color: colors.textSecondary,
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  choiceButton: {
+    flex: 1,
+    minHeight: touchTargets.minimum,
+    borderRadius: radius.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  choiceButtonActive: {
+    backgroundColor: colors.accent,
+    borderColor: colors.accent,
+  },
+  choiceButtonPressed: {
+    opacity: 0.7,
+  },
+  choiceText: {
+    color: colors.textSecondary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  choiceTextActive: {
+    color: colors.textPrimary,
+  },
+  manualInput: {
+    marginTop: 12,
+    minHeight: 88,
+    padding: 10,
+    borderRadius: radius.sm,
+    borderWidth: 1,
+    borderColor: colors.borderFocus,
+    backgroundColor: colors.backgroundCard,
+    color: colors.textPrimary,
+    fontSize: 13,
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+  },
+  applyButton: {
+    margin: 16,
+    backgroundColor: colors.accent,
+    paddingVertical: 14,
+    borderRadius: radius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: touchTargets.comfortable,
+  },
+  applyButtonPressed: {
+    backgroundColor: colors.accentPressed,
+  },
+  applyButtonText: {
+    color: colors.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 32,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: 16,
+    color: colors.success,
+  },
+  emptyText: {
+    color: colors.textPlaceholder,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    color: colors.textPlaceholder,
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,368 @@
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import type {NativeStackScreenProps} from '@react-navigation/native-stack';
+import {FlashList} from '@shopify/flash-list';
+import type {RootStackParamList} from '../../App';
+import {gitSync} from '../services/git-sync';
+import {vaultFS} from '../services/vault-fs';
+import {
+  buildHunks,
+  diffLines,
+  diffStats,
+  formatHunkHeader,
+  toSplitRows,
+  type DiffLine,
+  type SplitRow,
+} from '../utils/diff';
+import {colors, radius, touchTargets} from '../theme';
+
+type DiffScreenProps = NativeStackScreenProps<RootStackParamList, 'Diff'>;
+
+type DiffViewMode = 'unified' | 'split';
+
+const VIEW_MODE_LABELS: Record<DiffViewMode, string> = {
+  unified: 'Unified',
+  split: 'Split',
+};
+
+type DiffRowItem =
+  | {kind: 'header'; key: string; text: string}
+  | {kind: 'line'; key: string; line: DiffLine}
+  | {kind: 'split'; key: string; row: SplitRow};
+
+function describeRevision(ref: string | undefined, fallback: string): string {
+  if (!ref) return fallback;
+  return /^[0-9a-f]{40}$/.test(ref) ? ref.slice(0, 7) : ref;
+}
+
+function lineStyle(line: DiffLine | null) {
+  if (line?.type === 'add') return styles.lineAdded;
+  if (line?.type === 'remove') return styles.lineRemoved;
+  return null;
+}
+
+function lineMarker(line: DiffLine): string {
+  if (line.type === 'add') return '+';
+  if (line.type === 'remove') return '-';
+  return ' ';
+}
+
+function UnifiedLine({line}: {line: DiffLine}): React.JSX.Element {
+  return (
+    <View style={[styles.line, lineStyle(line)]}>
+      <Text style={styles.gutter}>{line.oldNumber ?? ''}</Text>
+      <Text style={styles.gutter}>{line.newNumber ?? ''}</Text>
+      <Text
+        style={[
+          styles.marker,
+          line.type === 'add' && styles.markerAdded,
+          line.type === 'remove' && styles.markerRemoved,
+        ]}>
+        {lineMarker(line)}
+      </Text>
+      <Text style={styles.lineText}>{line.text || ' '}</Text>
+    </View>
+  );
+}
+
+function SplitCell({
+  line,
+  side,
+}: {
+  line: DiffLine | null;
+  side: 'old' | 'new';
+}): React.JSX.Element {
+  const number = side === 'old' ? line?.oldNumber : line?.newNumber;
+  return (
+    <View style={[styles.splitCell, line ? lineStyle(line) : styles.lineEmpty]}>
+      <Text style={styles.gutter}>{line ? number ?? '' : ''}</Text>
+      <Text style={styles.lineText}>{line ? line.text || ' ' : ' '}</Text>
+    </View>
+  );
+}
+
+export function DiffScreen({
+  route,
+  navigation,
+}: DiffScreenProps): React.JSX.Element {
+  const {path, from, to} = route.params;
+  const [mode, setMode] = useState<DiffViewMode>('unified');
+  const [texts, setTexts] = useState<{old: string; new: string} | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    navigation.setOptions({
+      title: path.replace(/^.*\//, '').replace(/\.md$/, ''),
+    });
+  }, [navigation, path]);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function loadRevisions() {
+      try {
+        const [oldText, newText] = await Promise.all([
+          from ? gitSync.readFileAt(path, from) : Promise.resolve(null),
+          to ? gitSync.readFileAt(path, to) : vaultFS.readFile(path),
+        ]);
+        if (mounted) {
+          setTexts({old: oldText ?? '', new: newText ?? ''});
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      }
+    }
+
+    loadRevisions();
+
+    return () => {
+      mounted = false;
+    };
+  }, [path, from, to]);
+
+  const lines = useMemo(
+    () => (texts ? diffLines(texts.old, texts.new) : []),
+    [texts],
+  );
+
+  const stats = useMemo(() => diffStats(lines), [lines]);
+
+  const items = useMemo((): DiffRowItem[] => {
+    const rows: DiffRowItem[] = [];
+    buildHunks(lines).forEach((hunk, hunkIndex) => {
+      rows.push({
+        kind: 'header',
+        key: `h${hunkIndex}`,
+        text: formatHunkHeader(hunk),
+      });
+      if (mode === 'unified') {
+        hunk.lines.forEach((line, i) => {
+          rows.push({kind: 'line', key: `h${hunkIndex}-${i}`, line});
+        });
+      } else {
+        toSplitRows(hunk.lines).forEach((row, i) => {
+          rows.push({kind: 'split', key: `h${hunkIndex}-${i}`, row});
+        });
+      }
+    });
+    return rows;
+  }, [lines, mode]);
+
+  const renderItem = useCallback(({item}: {item: DiffRowItem}) => {
+    switch (item.kind) {
+      case 'header':
+        return <Text style={styles.hunkHeader}>{item.text}</Text>;
+      case 'line':
+        return <UnifiedLine line={item.line} />;
+      case 'split':
+        return (
+          <View style={styles.splitRow}>
+            <SplitCell line={item.row.left} side="old" />
+            <SplitCell line={item.row.right} side="new" />
+          </View>
+        );
+    }
+  }, []);
+
+  const keyExtractor = useCallback((item: DiffRowItem) => item.key, []);
+
+  const getItemType = useCallback((item: DiffRowItem) => item.kind, []);
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyText}>Could not load diff</Text>
+        <Text style={styles.emptySubtext}>{error}</Text>
+      </View>
+    );
+  }
+
+  if (!texts) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.accent} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <Text style={styles.revisions} numberOfLines={1}>
+          {describeRevision(from, 'empty')} →{' '}
+          {describeRevision(to, 'working copy')}
+        </Text>
+        <Text style={styles.statAdded}>+{stats.added}</Text>
+        <Text style={styles.statRemoved}>−{stats.removed}</Text>
+      </View>
+
+      <View style={styles.tabBar}>
+        {(['unified', 'split'] as const).map(option => (
+          <Pressable
+            key={option}
+            style={[styles.tab, mode === option && styles.tabActive]}
+            onPress={() => setMode(option)}
+            accessibilityRole="button"
+            accessibilityLabel={`${VIEW_MODE_LABELS[option]} view`}>
+            <Text
+              style={[styles.tabText, mode === option && styles.tabTextActive]}>
+              {VIEW_MODE_LABELS[option]}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {items.length > 0 ? (
+        <FlashList
+          data={items}
+          renderItem={renderItem}
+          keyExtractor={keyExtractor}
+          getItemType={getItemType}
+          showsVerticalScrollIndicator={false}
+        />
+      ) : (
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>No changes</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    backgroundColor: colors.background,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  revisions: {
+    flex: 1,
+    color: colors.textMuted,
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  statAdded: {
+    color: colors.success,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  statRemoved: {
+    color: colors.error,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  tabBar: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 8,
+  },
+  tab: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: radius.pill,
+    backgroundColor: colors.border,
+    minHeight: touchTargets.minimum,
+    justifyContent: 'center',
+  },
+  tabActive: {
+    backgroundColor: colors.accent,
+  },
+  tabText: {
+    color: colors.textPlaceholder,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  tabTextActive: {
+    color: colors.textPrimary,
+  },
+  hunkHeader: {
+    color: colors.accent,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: colors.accentMuted,
+  },
+  line: {
+    flexDirection: 'row',
+    paddingHorizontal: 4,
+  },
+  lineAdded: {
+    backgroundColor: 'rgba(16, 185, 129, 0.1)',
+  },
+  lineRemoved: {
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+  },
+  lineEmpty: {
+    backgroundColor: colors.backgroundElevated,
+  },
+  gutter: {
+    width: 32,
+    color: colors.textDisabled,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    textAlign: 'right',
+    marginRight: 6,
+  },
+  marker: {
+    width: 12,
+    color: colors.textPlaceholder,
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  markerAdded: {
+    color: colors.success,
+  },
+  markerRemoved: {
+    color: colors.error,
+  },
+  lineText: {
+    flex: 1,
+    color: colors.textSecondary,
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  splitRow: {
+    flexDirection: 'row',
+  },
+  splitCell: {
+    flex: 1,
+    flexDirection: 'row',
+    paddingHorizontal: 2,
+    borderRightWidth: StyleSheet.hairlineWidth,
+    borderRightColor: colors.border,
+  },
+  emptyText: {
+    color: colors.textPlaceholder,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    color: colors.textPlaceholder,
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
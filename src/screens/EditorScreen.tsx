@@ -1,4 +1,4 @@
-import React, {useEffect, useState, useCallback, useMemo} from 'react';
+import React, {useEffect, useState, useCallback, useMemo, useRef} from 'react';
 import {
   View,
   StyleSheet,
@@ -14,15 +14,21 @@ import {
 } from 'react-native-gesture-handler';
 import type {NativeStackScreenProps} from '@react-navigation/native-stack';
 import Svg, {Path} from 'react-native-svg';
+import ContextMenu from 'react-native-context-menu-view';
+import type {ContextMenuAction} from 'react-native-context-menu-view';
 import type {RootStackParamList} from '../../App';
 import {MarkdownEditor} from '../components/Editor';
-import {BacklinksPanel, BlurHeader} from '../components';
+import {BacklinksPanel, BlurHeader, PropertiesPanel} from '../components';
 import {useVaultStore} from '../store';
 import {useBacklinks, type BacklinkInfo} from '../hooks/useBacklinks';
-import {parseWikilinks, parseTitle} from '../utils/markdown';
+import {parseTitle} from '../utils/markdown';
+import {knownPropertyTypes} from '../utils/frontmatter';
+import type {PropertyType} from '../types';
 import {colors, touchTargets} from '../theme';
 import {vaultFS} from '../services/vault-fs';
 import {indexDB} from '../services/index-db';
+import {createNote, saveNote} from '../services/vault-changes';
+import {resolveWikilink} from '../services/link-resolver';
 
 type EditorScreenProps = NativeStackScreenProps<RootStackParamList, 'Editor'>;
 
@@ -61,14 +67,60 @@ function BacklinksIcon({color = '#888888'}: {color?: string}) {
   );
 }
 
+function PropertiesIcon({color = '#888888'}: {color?: string}) {
+  return (
+    <Svg width={22} height={22} viewBox="0 0 24 24" fill="none">
+      <Path
+        d="M9 6h11M9 12h11M9 18h11M4 6h.01M4 12h.01M4 18h.01"
+        stroke={color}
+        strokeWidth={2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </Svg>
+  );
+}
+
+function HistoryIcon({color = '#888888'}: {color?: string}) {
+  return (
+    <Svg width={22} height={22} viewBox="0 0 24 24" fill="none">
+      <Path
+        d="M3 12a9 9 0 1 0 3-6.7L3 8"
+        stroke={color}
+        strokeWidth={2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+      <Path
+        d="M3 3v5h5M12 7v5l3 3"
+        stroke={color}
+        strokeWidth={2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </Svg>
+  );
+}
+
+const HISTORY_MENU_ACTIONS: ContextMenuAction[] = [
+  {title: 'View History'},
+  {title: 'Compare with Last Commit'},
+  {title: 'Restore Previous Version'},
+];
+
 export function EditorScreen({
   route,
   navigation,
 }: EditorScreenProps): React.JSX.Element {
-  const {path} = route.params;
+  const {path, restoredAt} = route.params;
   const [content, setContent] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showBacklinks, setShowBacklinks] = useState(false);
+  const [showProperties, setShowProperties] = useState(false);
+  const [propertiesContent, setPropertiesContent] = useState('');
+  const [knownTypes, setKnownTypes] = useState<Record<string, PropertyType>>({});
+  // The editor's text as typed, which runs ahead of the debounced save
+  const latestContentRef = useRef('');
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>(
     'idle',
   );
@@ -119,11 +171,12 @@ export function EditorScreen({
         } else {
           // New file - create with default content
           noteContent = `# ${filename}\n\n`;
-          await vaultFS.writeFile(path, noteContent);
+          await createNote(path, noteContent);
         }
         
         if (mounted) {
           setContent(noteContent);
+          latestContentRef.current = noteContent;
           const title = parseTitle(noteContent);
           const noteMeta = {
             path,
@@ -150,20 +203,13 @@ export function EditorScreen({
     return () => {
       mounted = false;
     };
-  }, [path, filename, addRecentNote]);
+  }, [path, filename, addRecentNote, restoredAt]);
 
   const handleSave = useCallback(
     async (newContent: string) => {
       setSaveStatus('saving');
       try {
-        await vaultFS.writeFile(path, newContent);
-
-        const links = parseWikilinks(newContent);
-        try {
-          await indexDB.updateLinksForFile(path, links);
-        } catch (indexError) {
-          console.warn('Failed to update links in index:', indexError);
-        }
+        await saveNote(path, newContent);
 
         const title = parseTitle(newContent);
         setCurrentNote({
@@ -183,6 +229,32 @@ export function EditorScreen({
     [path, setCurrentNote],
   );
 
+  const handleChangeText = useCallback((text: string) => {
+    latestContentRef.current = text;
+  }, []);
+
+  const handleShowProperties = useCallback(async () => {
+    setPropertiesContent(latestContentRef.current);
+    setShowProperties(true);
+    try {
+      await indexDB.waitUntilReady();
+      setKnownTypes(knownPropertyTypes(await indexDB.getProperties()));
+    } catch (error) {
+      console.warn('Failed to load property types from indexDB:', error);
+    }
+  }, []);
+
+  // Property edits replace the editor's text and are saved right away
+  const handlePropertiesChange = useCallback(
+    (newContent: string) => {
+      latestContentRef.current = newContent;
+      setPropertiesContent(newContent);
+      setContent(newContent);
+      handleSave(newContent);
+    },
+    [handleSave],
+  );
+
   const fileTitles = useMemo((): string[] => {
     const titles: string[] = [];
 
@@ -210,6 +282,38 @@ export function EditorScreen({
     [navigation],
   );
 
+  // Unresolved links open a new note, which the editor creates on load
+  const handleWikilinkPress = useCallback(
+    async (link: string) => {
+      try {
+        const target = await resolveWikilink(link, path);
+        if (target && target !== path) {
+          navigation.push('Editor', {path: target});
+        }
+      } catch (error) {
+        console.warn('Failed to resolve wikilink:', error);
+      }
+    },
+    [navigation, path],
+  );
+
+  const handleHistoryMenuPress = useCallback(
+    (e: {nativeEvent: {index: number; name: string}}) => {
+      switch (e.nativeEvent.name) {
+        case 'View History':
+          navigation.navigate('History', {path});
+          break;
+        case 'Compare with Last Commit':
+          navigation.navigate('Diff', {path, from: 'HEAD'});
+          break;
+        case 'Restore Previous Version':
+          navigation.navigate('History', {path, restore: true});
+          break;
+      }
+    },
+    [navigation, path],
+  );
+
   const swipeGesture = Gesture.Fling()
     .direction(Directions.RIGHT)
     .onEnd(() => {
@@ -259,6 +363,26 @@ export function EditorScreen({
                 )}
               </View>
             </View>
+            <ContextMenu
+              actions={HISTORY_MENU_ACTIONS}
+              onPress={handleHistoryMenuPress}
+              dropdownMenuMode
+              previewBackgroundColor={colors.background}>
+              <View
+                style={styles.headerButton}
+                accessibilityLabel="Note history options"
+                accessibilityRole="button">
+                <HistoryIcon color={colors.textPlaceholder} />
+              </View>
+            </ContextMenu>
+            <Pressable
+              onPress={handleShowProperties}
+              style={styles.headerButton}
+              hitSlop={12}
+              accessibilityLabel="Edit properties"
+              accessibilityRole="button">
+              <PropertiesIcon color={colors.textPlaceholder} />
+            </Pressable>
             <Pressable
               onPress={() => setShowBacklinks(true)}
               style={styles.headerButton}
@@ -272,7 +396,9 @@ export function EditorScreen({
         <MarkdownEditor
           initialContent={content}
           onSave={handleSave}
+          onChangeText={handleChangeText}
           onGetFileTitles={getFileTitles}
+          onWikilinkPress={handleWikilinkPress}
           debounceMs={500}
         />
         <BacklinksPanel
@@ -282,6 +408,13 @@ export function EditorScreen({
           isLoading={backlinksLoading}
           onBacklinkPress={handleBacklinkPress}
         />
+        <PropertiesPanel
+          visible={showProperties}
+          onClose={() => setShowProperties(false)}
+          content={propertiesContent}
+          knownTypes={knownTypes}
+          onChange={handlePropertiesChange}
+        />
       </View>
     </GestureDetector>
   );
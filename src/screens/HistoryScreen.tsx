@@ -0,0 +1,355 @@
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import type {NativeStackScreenProps} from '@react-navigation/native-stack';
+import {FlashList} from '@shopify/flash-list';
+import type {RootStackParamList} from '../../App';
+import {gitSync} from '../services/git-sync';
+import {restoreNoteVersion} from '../services/note-restore';
+import type {CommitInfo} from '../types';
+import {colors, radius} from '../theme';
+
+type HistoryScreenProps = NativeStackScreenProps<RootStackParamList, 'History'>;
+
+const FETCH_HISTORY_COMMITS = 50;
+
+function formatCommitDate(timestamp: number): string {
+  const diffMins = Math.floor((Date.now() - timestamp) / 60000);
+  if (diffMins < 1) return 'just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+interface CommitRowProps {
+  commit: CommitInfo;
+  onPress?: (commit: CommitInfo) => void;
+  hint?: string;
+}
+
+const CommitRow = React.memo(function CommitRow({
+  commit,
+  onPress,
+  hint,
+}: CommitRowProps): React.JSX.Element {
+  const [subject] = commit.message.split('\n');
+
+  return (
+    <Pressable
+      style={({pressed}) => [styles.row, pressed && styles.rowPressed]}
+      onPress={onPress ? () => onPress(commit) : undefined}
+      disabled={!onPress}
+      accessibilityRole={onPress ? 'button' : undefined}
+      accessibilityLabel={`${subject}, by ${commit.authorName}, ${formatCommitDate(commit.timestamp)}`}
+      accessibilityHint={onPress ? hint : undefined}>
+      <Text style={styles.message} numberOfLines={2}>
+        {subject}
+      </Text>
+      <View style={styles.metaRow}>
+        <Text style={styles.author} numberOfLines={1}>
+          {commit.authorName}
+        </Text>
+        <Text style={styles.meta}>{formatCommitDate(commit.timestamp)}</Text>
+        <Text style={styles.oid}>{commit.oid.slice(0, 7)}</Text>
+      </View>
+    </Pressable>
+  );
+});
+
+export function HistoryScreen({
+  route,
+  navigation,
+}: HistoryScreenProps): React.JSX.Element {
+  const path = route.params?.path;
+  const restore = route.params?.restore ?? false;
+  const [commits, setCommits] = useState<CommitInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isShallow, setIsShallow] = useState(false);
+  const [fetchProgress, setFetchProgress] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    navigation.setOptions({
+      title: restore
+        ? 'Restore Version'
+        : path
+          ? path.replace(/^.*\//, '').replace(/\.md$/, '')
+          : 'History',
+    });
+  }, [navigation, path, restore]);
+
+  useEffect(() => {
+    let mounted = true;
+
+    async function loadHistory() {
+      setIsLoading(true);
+      try {
+        const [entries, shallow] = await Promise.all([
+          gitSync.log(path),
+          gitSync.isShallow(),
+        ]);
+        if (mounted) {
+          setCommits(entries);
+          setIsShallow(shallow);
+          setError(null);
+        }
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      } finally {
+        if (mounted) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadHistory();
+
+    return () => {
+      mounted = false;
+    };
+  }, [path, reloadKey]);
+
+  const handleFetchHistory = useCallback(async () => {
+    setFetchProgress('Fetching history…');
+    try {
+      await gitSync.fetchMoreHistory(
+        FETCH_HISTORY_COMMITS,
+        (phase, loaded, total) => {
+          setFetchProgress(`${phase}: ${loaded}${total ? `/${total}` : ''}`);
+        },
+      );
+      setReloadKey(key => key + 1);
+    } catch (err) {
+      Alert.alert(
+        'Could Not Fetch History',
+        err instanceof Error ? err.message : 'Unknown error',
+      );
+    } finally {
+      setFetchProgress(null);
+    }
+  }, []);
+
+  const handleRestore = useCallback(
+    (commit: CommitInfo) => {
+      if (!path) return;
+      const [subject] = commit.message.split('\n');
+      Alert.alert(
+        'Restore Version',
+        `Replace this note with the version from "${subject}" (${formatCommitDate(commit.timestamp)})?`,
+        [
+          {text: 'Cancel', style: 'cancel'},
+          {
+            text: 'Restore',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await restoreNoteVersion(path, commit.oid);
+                navigation.popTo('Editor', {path, restoredAt: Date.now()});
+              } catch (err) {
+                Alert.alert(
+                  'Restore Failed',
+                  err instanceof Error ? err.message : 'Unknown error',
+                );
+              }
+            },
+          },
+        ],
+      );
+    },
+    [navigation, path],
+  );
+
+  const handleCommitPress = useCallback(
+    (commit: CommitInfo) => {
+      if (!path) return;
+      if (restore) {
+        handleRestore(commit);
+        return;
+      }
+      navigation.navigate('Diff', {
+        path,
+        from: commit.parents[0],
+        to: commit.oid,
+      });
+    },
+    [navigation, path, restore, handleRestore],
+  );
+
+  const renderItem = useCallback(
+    ({item}: {item: CommitInfo}) => (
+      <CommitRow
+        commit={item}
+        onPress={path ? handleCommitPress : undefined}
+        hint={
+          restore
+            ? 'Restores the note to this version'
+            : 'Shows the changes in this commit'
+        }
+      />
+    ),
+    [path, restore, handleCommitPress],
+  );
+
+  const keyExtractor = useCallback((item: CommitInfo) => item.oid, []);
+
+  const fetchHistoryButton = isShallow ? (
+    <Pressable
+      style={({pressed}) => [
+        styles.fetchButton,
+        pressed && styles.fetchButtonPressed,
+      ]}
+      onPress={handleFetchHistory}
+      disabled={fetchProgress !== null}
+      accessibilityRole="button"
+      accessibilityHint={`Downloads up to ${FETCH_HISTORY_COMMITS} older commits`}>
+      {fetchProgress !== null ? (
+        <View style={styles.fetchButtonContent}>
+          <ActivityIndicator size="small" color={colors.textSecondary} />
+          <Text style={styles.fetchButtonText}>{fetchProgress}</Text>
+        </View>
+      ) : (
+        <Text style={styles.fetchButtonText}>Fetch More History</Text>
+      )}
+    </Pressable>
+  ) : null;
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.accent} />
+      </View>
+    );
+  }
+
+  if (error || commits.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyText}>
+          {error ? 'Could not load history' : 'No history yet'}
+        </Text>
+        <Text style={styles.emptySubtext}>
+          {error ??
+            (path
+              ? 'Commits that change this note will appear here'
+              : 'Commits in this vault will appear here')}
+        </Text>
+        {!error && fetchHistoryButton}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlashList
+        data={commits}
+        renderItem={renderItem}
+        keyExtractor={keyExtractor}
+        ListFooterComponent={fetchHistoryButton}
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    backgroundColor: colors.background,
+  },
+  row: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+  },
+  rowPressed: {
+    backgroundColor: colors.backgroundElevated,
+  },
+  message: {
+    color: colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  author: {
+    color: colors.textSecondary,
+    fontSize: 13,
+    flexShrink: 1,
+  },
+  meta: {
+    color: colors.textPlaceholder,
+    fontSize: 13,
+  },
+  oid: {
+    color: colors.textPlaceholder,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    backgroundColor: colors.backgroundCard,
+    borderRadius: radius.sm,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  emptyText: {
+    color: colors.textPlaceholder,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    color: colors.textPlaceholder,
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  fetchButton: {
+    alignSelf: 'center',
+    marginVertical: 20,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: radius.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.backgroundElevated,
+  },
+  fetchButtonPressed: {
+    opacity: 0.7,
+  },
+  fetchButtonContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  fetchButtonText: {
+    color: colors.textSecondary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
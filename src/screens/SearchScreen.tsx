@@ -1,18 +1,34 @@
-import React, {useCallback} from 'react';
-import {SafeAreaView, StyleSheet} from 'react-native';
+import React, {useCallback, useEffect, useState} from 'react';
+import {Alert, SafeAreaView, StyleSheet} from 'react-native';
 import type {NativeStackScreenProps} from '@react-navigation/native-stack';
 import fuzzysort from 'fuzzysort';
 import type {RootStackParamList} from '../../App';
-import {SearchPanel} from '../components/Search';
+import {ReplacePanel, SearchPanel} from '../components/Search';
 import {useSearch} from '../hooks/useSearch';
+import type {RegexSearchRequest, ReplaceSearchRequest} from '../hooks/useSearch';
 import {useVaultStore} from '../store';
 import type {FileMeta, SearchResult} from '../types';
 import type {FileNode} from '../types';
 import {colors} from '../theme';
 import {indexDB} from '../services/index-db';
+import {searchVaultRegex} from '../services/regex-search';
+import {applyReplace, planReplace, undoReplace} from '../services/vault-replace';
+import type {
+  ReplaceFile,
+  ReplaceMatch,
+  ReplaceOperation,
+} from '../services/vault-replace';
 
 type SearchScreenProps = NativeStackScreenProps<RootStackParamList, 'Search'>;
 
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function notesList(paths: string[]): string {
+  return paths.map(path => `• ${path}`).join('\n');
+}
+
 function getAllMarkdownFiles(nodes: FileNode[]): FileMeta[] {
   const files: FileMeta[] = [];
   for (const node of nodes) {
@@ -80,12 +96,139 @@ export function SearchScreen({navigation}: SearchScreenProps): React.JSX.Element
     [fileTree],
   );
 
-  const {query, setQuery, results, mode, setMode, isLoading} = useSearch({
+  const handleRegexSearch = useCallback(
+    (pattern: string, request: RegexSearchRequest) =>
+      searchVaultRegex(pattern, request),
+    [],
+  );
+
+  const handleReplaceSearch = useCallback(
+    (pattern: string, request: ReplaceSearchRequest) =>
+      planReplace(pattern, request.replacement, request),
+    [],
+  );
+
+  const {
+    query,
+    setQuery,
+    results,
+    mode,
+    setMode,
+    caseSensitive,
+    setCaseSensitive,
+    regexResults,
+    replacement,
+    setReplacement,
+    isRegex,
+    setIsRegex,
+    replacePlan,
+    error: patternError,
+    isLoading,
+    refresh,
+  } = useSearch({
     debounceMs: 150,
     onFilenameSearch: handleFilenameSearch,
     onFulltextSearch: handleFulltextSearch,
+    onRegexSearch: handleRegexSearch,
+    onReplaceSearch: handleReplaceSearch,
   });
 
+  const [excluded, setExcluded] = useState<ReadonlySet<string>>(new Set());
+  const [lastReplace, setLastReplace] = useState<ReplaceOperation | null>(null);
+  const [isReplacing, setIsReplacing] = useState(false);
+
+  // Exclusions refer to matches of one plan
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [replacePlan]);
+
+  const handleToggleMatch = useCallback((match: ReplaceMatch) => {
+    setExcluded(previous => {
+      const next = new Set(previous);
+      if (!next.delete(match.id)) {
+        next.add(match.id);
+      }
+      return next;
+    });
+  }, []);
+
+  // Leaves out every match in the note, or brings them all back if none
+  // were included
+  const handleToggleFile = useCallback((file: ReplaceFile) => {
+    setExcluded(previous => {
+      const next = new Set(previous);
+      const anyIncluded = file.matches.some(match => !previous.has(match.id));
+      for (const match of file.matches) {
+        if (anyIncluded) {
+          next.add(match.id);
+        } else {
+          next.delete(match.id);
+        }
+      }
+      return next;
+    });
+  }, []);
+
+  const replace = useCallback(async () => {
+    if (!replacePlan) return;
+    setIsReplacing(true);
+    try {
+      const operation = await applyReplace(replacePlan, excluded);
+      setLastReplace(operation.files.length > 0 ? operation : null);
+      if (operation.skipped.length > 0) {
+        Alert.alert(
+          'Some Notes Skipped',
+          `These notes changed since the preview and were left alone:\n${notesList(operation.skipped)}`,
+        );
+      }
+    } catch (error) {
+      Alert.alert('Replace Failed', errorMessage(error));
+    } finally {
+      setIsReplacing(false);
+      refresh();
+    }
+  }, [replacePlan, excluded, refresh]);
+
+  const handleReplace = useCallback(() => {
+    if (!replacePlan) return;
+    const files = replacePlan.files.filter(file =>
+      file.matches.some(match => !excluded.has(match.id)),
+    ).length;
+    const matches = replacePlan.files.reduce(
+      (count, file) =>
+        count + file.matches.filter(match => !excluded.has(match.id)).length,
+      0,
+    );
+    Alert.alert(
+      'Replace',
+      `Replace ${matches} match${matches !== 1 ? 'es' : ''} in ${files} note${files !== 1 ? 's' : ''}?`,
+      [
+        {text: 'Cancel', style: 'cancel'},
+        {text: 'Replace', style: 'destructive', onPress: () => replace()},
+      ],
+    );
+  }, [replacePlan, excluded, replace]);
+
+  const handleUndo = useCallback(async () => {
+    if (!lastReplace) return;
+    setIsReplacing(true);
+    try {
+      const skipped = await undoReplace(lastReplace);
+      setLastReplace(null);
+      if (skipped.length > 0) {
+        Alert.alert(
+          'Some Notes Not Restored',
+          `These notes changed since the replacement and were left alone:\n${notesList(skipped)}`,
+        );
+      }
+    } catch (error) {
+      Alert.alert('Undo Failed', errorMessage(error));
+    } finally {
+      setIsReplacing(false);
+      refresh();
+    }
+  }, [lastReplace, refresh]);
+
   const handleResultPress = useCallback(
     (path: string) => {
       navigation.navigate('Editor', {path});
@@ -101,9 +244,34 @@ export function SearchScreen({navigation}: SearchScreenProps): React.JSX.Element
         results={results}
         mode={mode}
         onModeChange={setMode}
+        caseSensitive={caseSensitive}
+        onCaseSensitiveChange={setCaseSensitive}
+        regexResults={regexResults}
+        isRegex={isRegex}
+        onIsRegexChange={setIsRegex}
+        error={patternError}
         isLoading={isLoading}
-        onResultPress={handleResultPress}
-      />
+        onResultPress={handleResultPress}>
+        <ReplacePanel
+          replacement={replacement}
+          onReplacementChange={setReplacement}
+          plan={replacePlan}
+          error={patternError}
+          excluded={excluded}
+          onToggleMatch={handleToggleMatch}
+          onToggleFile={handleToggleFile}
+          onReplace={handleReplace}
+          isBusy={isLoading || isReplacing}
+          lastReplace={
+            lastReplace && {
+              matches: lastReplace.matches,
+              files: lastReplace.files.length,
+            }
+          }
+          onUndo={handleUndo}
+          onResultPress={handleResultPress}
+        />
+      </SearchPanel>
     </SafeAreaView>
   );
 }
@@ -1,4 +1,4 @@
-import React, {useState, useEffect, useCallback} from 'react';
+import React, {useState, useEffect, useCallback, useRef} from 'react';
 import {
   View,
   Text,
@@ -8,10 +8,30 @@ import {
   ScrollView,
   Alert,
   ActivityIndicator,
+  Linking,
 } from 'react-native';
 import {getToken, storeToken, clearToken} from '../services/auth';
 import {gitSync} from '../services/git-sync';
-import type {GitAuth} from '../types';
+import {syncManager} from '../services/sync-manager';
+import {indexService} from '../services/index-service';
+import {
+  GIT_PROVIDERS,
+  GIT_PROVIDER_IDS,
+  detectProvider,
+} from '../services/git-providers';
+import {
+  GITHUB_CLIENT_ID,
+  pollForToken,
+  requestDeviceCode,
+  toGitAuth,
+} from '../services/github-oauth';
+import type {DeviceCode} from '../services/github-oauth';
+import type {
+  BranchInfo,
+  ChangeDetection,
+  GitAuth,
+  GitProviderId,
+} from '../types';
 import {colors, radius, touchTargets} from '../theme';
 import {useVaultStore} from '../store';
 
@@ -24,23 +44,188 @@ const SYNC_INTERVAL_OPTIONS = [
   {label: '1 hour', value: 60},
 ];
 
+const SYNC_AFTER_EDIT_OPTIONS = [
+  {label: 'Off', value: 0},
+  {label: '10 sec', value: 10},
+  {label: '30 sec', value: 30},
+  {label: '1 min', value: 60},
+  {label: '5 min', value: 300},
+];
+
+const SYNC_ON_APP_STATE_OPTIONS = [
+  {label: 'Off', value: false},
+  {label: 'On', value: true},
+];
+
+const CLONE_HISTORY_OPTIONS = [
+  {label: 'Latest only', value: false},
+  {label: 'Full history', value: true},
+];
+
+const CHANGE_DETECTION_OPTIONS: {label: string; value: ChangeDetection}[] = [
+  {label: 'App edits', value: 'queue'},
+  {label: 'Scan vault', value: 'status'},
+];
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function BranchPicker(): React.JSX.Element {
+  const [branches, setBranches] = useState<BranchInfo[]>([]);
+  const [isLoadingBranches, setIsLoadingBranches] = useState(true);
+  const [busyBranch, setBusyBranch] = useState<string | null>(null);
+  const refreshTree = useVaultStore(state => state.refreshTree);
+
+  const loadBranches = useCallback(async () => {
+    setIsLoadingBranches(true);
+    try {
+      setBranches(await gitSync.listBranches());
+    } catch (error) {
+      console.error('Failed to list branches:', error);
+    } finally {
+      setIsLoadingBranches(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBranches();
+  }, [loadBranches]);
+
+  const runBranchAction = useCallback(
+    async (name: string, action: () => Promise<void>, failure: string) => {
+      if (syncManager.isSyncing()) {
+        Alert.alert('Sync in Progress', 'Wait for the current sync to finish.');
+        return;
+      }
+      setBusyBranch(name);
+      try {
+        await action();
+        await refreshTree();
+        indexService.indexVault();
+        await loadBranches();
+      } catch (error) {
+        Alert.alert(failure, errorMessage(error));
+      } finally {
+        setBusyBranch(null);
+      }
+    },
+    [refreshTree, loadBranches],
+  );
+
+  const handleSwitch = useCallback(
+    (branch: BranchInfo) => {
+      if (branch.current) {
+        return;
+      }
+      runBranchAction(
+        branch.name,
+        () => gitSync.switchBranch(branch.name),
+        'Switch Failed',
+      );
+    },
+    [runBranchAction],
+  );
+
+  const handleCreate = useCallback(() => {
+    Alert.prompt(
+      'New Branch',
+      'Creates a branch from the current commit and pushes it to the remote.',
+      name => {
+        const trimmed = name.trim();
+        if (trimmed) {
+          runBranchAction(
+            trimmed,
+            () => gitSync.createBranch(trimmed),
+            'Create Failed',
+          );
+        }
+      },
+    );
+  }, [runBranchAction]);
+
+  if (isLoadingBranches && branches.length === 0) {
+    return <ActivityIndicator size="small" color={colors.textMuted} />;
+  }
+
+  return (
+    <View style={styles.intervalRow}>
+      {branches.map(branch => (
+        <Pressable
+          key={branch.name}
+          style={({pressed}) => [
+            styles.intervalButton,
+            branch.current && styles.intervalButtonActive,
+            pressed && styles.intervalButtonPressed,
+            busyBranch !== null && styles.buttonDisabled,
+          ]}
+          onPress={() => handleSwitch(branch)}
+          disabled={busyBranch !== null}
+          accessibilityLabel={`Switch to branch ${branch.name}`}>
+          {busyBranch === branch.name ? (
+            <ActivityIndicator size="small" color={colors.textPrimary} />
+          ) : (
+            <Text
+              style={[
+                styles.intervalButtonText,
+                branch.current && styles.intervalButtonTextActive,
+              ]}>
+              {branch.local ? branch.name : `${branch.name} (remote)`}
+            </Text>
+          )}
+        </Pressable>
+      ))}
+      <Pressable
+        style={({pressed}) => [
+          styles.intervalButton,
+          pressed && styles.intervalButtonPressed,
+          busyBranch !== null && styles.buttonDisabled,
+        ]}
+        onPress={handleCreate}
+        disabled={busyBranch !== null}>
+        <Text style={styles.intervalButtonText}>+ New Branch</Text>
+      </Pressable>
+    </View>
+  );
+}
+
 export function SettingsScreen(): React.JSX.Element {
   const [token, setToken] = useState('');
   const [username, setUsername] = useState('');
   const [repoUrl, setRepoUrl] = useState('');
+  const [provider, setProvider] = useState<GitProviderId>('github');
+  // Set while signed in through GitHub rather than with a pasted token
+  const [oauthAuth, setOauthAuth] = useState<GitAuth | null>(null);
+  const [deviceCode, setDeviceCode] = useState<DeviceCode | null>(null);
+  const signInRef = useRef<AbortController | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isCloning, setIsCloning] = useState(false);
   const [cloneProgress, setCloneProgress] = useState('');
+  const [fullHistory, setFullHistory] = useState(false);
   const [hasCredentials, setHasCredentials] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
   const [focusedInput, setFocusedInput] = useState<string | null>(null);
   const syncInterval = useVaultStore(state => state.syncInterval);
   const setSyncInterval = useVaultStore(state => state.setSyncInterval);
+  const syncAfterEdit = useVaultStore(state => state.syncAfterEdit);
+  const setSyncAfterEdit = useVaultStore(state => state.setSyncAfterEdit);
+  const syncOnAppState = useVaultStore(state => state.syncOnAppState);
+  const setSyncOnAppState = useVaultStore(state => state.setSyncOnAppState);
+  const changeDetection = useVaultStore(state => state.changeDetection);
+  const setChangeDetection = useVaultStore(state => state.setChangeDetection);
+  const ignorePatterns = useVaultStore(state => state.ignorePatterns);
+  const setIgnorePatterns = useVaultStore(state => state.setIgnorePatterns);
   const refreshTree = useVaultStore(state => state.refreshTree);
+  const [ignoreText, setIgnoreText] = useState(ignorePatterns.join('\n'));
+
+  useEffect(() => {
+    setIgnoreText(ignorePatterns.join('\n'));
+  }, [ignorePatterns]);
 
   useEffect(() => {
     loadCredentials();
+    return () => signInRef.current?.abort();
   }, []);
 
   const loadCredentials = async () => {
@@ -50,6 +235,8 @@ export function SettingsScreen(): React.JSX.Element {
         setToken(auth.token);
         setUsername(auth.username || '');
         setRepoUrl(auth.repoUrl || '');
+        setProvider(auth.provider ?? detectProvider(auth.repoUrl));
+        setOauthAuth(auth.type === 'oauth' ? auth : null);
         setHasCredentials(true);
         // Check if repo is cloned
         const status = await gitSync.status();
@@ -62,18 +249,81 @@ export function SettingsScreen(): React.JSX.Element {
     }
   };
 
+  const providerInfo = GIT_PROVIDERS[provider];
+
+  const handleProviderChange = useCallback(
+    (id: GitProviderId) => {
+      setProvider(id);
+      // A GitHub sign-in is no use on another host
+      if (oauthAuth && id !== 'github') {
+        setOauthAuth(null);
+        setToken('');
+      }
+    },
+    [oauthAuth],
+  );
+
+  const handleSignIn = useCallback(async () => {
+    const controller = new AbortController();
+    signInRef.current = controller;
+    try {
+      const code = await requestDeviceCode({signal: controller.signal});
+      setDeviceCode(code);
+      const result = await pollForToken(code, {signal: controller.signal});
+      const auth = toGitAuth(result, {
+        username: username.trim() || undefined,
+        repoUrl: repoUrl.trim() || undefined,
+      });
+      await storeToken(auth);
+      gitSync.setAuth(auth);
+      setOauthAuth(auth);
+      setToken(auth.token);
+      setHasCredentials(true);
+      Alert.alert('Success', 'Signed in with GitHub');
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        Alert.alert('Sign-in failed', errorMessage(error));
+      }
+    } finally {
+      signInRef.current = null;
+      setDeviceCode(null);
+    }
+  }, [username, repoUrl]);
+
+  const handleCancelSignIn = useCallback(() => {
+    signInRef.current?.abort();
+    setDeviceCode(null);
+  }, []);
+
+  const handleUseToken = useCallback(() => {
+    setOauthAuth(null);
+    setToken('');
+  }, []);
+
+  const handleRepoUrlChange = useCallback((url: string) => {
+    setRepoUrl(url);
+    const detected = detectProvider(
+      /^[a-z]+:\/\//i.test(url) ? url : `https://${url}`,
+    );
+    if (detected !== 'generic') {
+      setProvider(detected);
+    }
+  }, []);
+
   const handleSave = useCallback(async () => {
     if (!token.trim()) {
-      Alert.alert('Error', 'Personal Access Token is required');
+      Alert.alert('Error', `${GIT_PROVIDERS[provider].tokenName} is required`);
       return;
     }
 
     setIsSaving(true);
     try {
       const auth: GitAuth = {
-        type: 'pat',
+        ...oauthAuth,
+        type: oauthAuth ? 'oauth' : 'pat',
         token: token.trim(),
         username: username.trim() || undefined,
+        provider,
         repoUrl: repoUrl.trim() || undefined,
       };
       await storeToken(auth);
@@ -85,7 +335,7 @@ export function SettingsScreen(): React.JSX.Element {
     } finally {
       setIsSaving(false);
     }
-  }, [token, username, repoUrl]);
+  }, [token, username, repoUrl, provider, oauthAuth]);
 
   const normalizeRepoUrl = (url: string): string => {
     let normalized = url.trim();
@@ -109,8 +359,8 @@ export function SettingsScreen(): React.JSX.Element {
       Alert.alert('Error', 'Please save your credentials first');
       return;
     }
-    if (!username.trim()) {
-      Alert.alert('Error', 'GitHub username is required');
+    if (GIT_PROVIDERS[provider].usernameRequired && !username.trim()) {
+      Alert.alert('Error', `${GIT_PROVIDERS[provider].name} username is required`);
       return;
     }
 
@@ -119,26 +369,34 @@ export function SettingsScreen(): React.JSX.Element {
     setCloneProgress('Starting clone...');
     try {
       const auth: GitAuth = {
-        type: 'pat',
+        ...oauthAuth,
+        type: oauthAuth ? 'oauth' : 'pat',
         token: token.trim(),
-        username: username.trim(),
+        username: username.trim() || undefined,
+        provider,
         repoUrl: normalizedUrl,
       };
       await storeToken(auth);
-      await gitSync.clone(normalizedUrl, auth, (phase, loaded, total) => {
-        const totalStr = total ? `/${total}` : '';
-        if (phase === 'Receiving objects') {
-          const mb = (loaded / 1024 / 1024).toFixed(1);
-          setCloneProgress(`Downloading: ${mb}MB${total ? ` of ${(total / 1024 / 1024).toFixed(1)}MB` : ''}`);
-        } else if (phase === 'Resolving deltas') {
-          setCloneProgress(`Resolving: ${loaded}${totalStr}`);
-        } else {
-          setCloneProgress(`${phase}: ${loaded}${totalStr}`);
-        }
-      });
+      await gitSync.clone(
+        normalizedUrl,
+        auth,
+        (phase, loaded, total) => {
+          const totalStr = total ? `/${total}` : '';
+          if (phase === 'Receiving objects') {
+            const mb = (loaded / 1024 / 1024).toFixed(1);
+            setCloneProgress(`Downloading: ${mb}MB${total ? ` of ${(total / 1024 / 1024).toFixed(1)}MB` : ''}`);
+          } else if (phase === 'Resolving deltas') {
+            setCloneProgress(`Resolving: ${loaded}${totalStr}`);
+          } else {
+            setCloneProgress(`${phase}: ${loaded}${totalStr}`);
+          }
+        },
+        {fullHistory},
+      );
       setIsConnected(true);
       setHasCredentials(true);
       await refreshTree();
+      indexService.indexVault();
       Alert.alert('Success', 'Repository connected and cloned successfully');
     } catch (error: unknown) {
       let message = 'Unknown error occurred';
@@ -155,7 +413,19 @@ export function SettingsScreen(): React.JSX.Element {
       setIsCloning(false);
       setCloneProgress('');
     }
-  }, [token, username, repoUrl, refreshTree]);
+  }, [token, username, repoUrl, provider, oauthAuth, fullHistory, refreshTree]);
+
+  const handleIgnoreBlur = useCallback(() => {
+    setFocusedInput(null);
+    const patterns = ignoreText
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean);
+    if (patterns.join('\n') !== ignorePatterns.join('\n')) {
+      setIgnorePatterns(patterns);
+      refreshTree();
+    }
+  }, [ignoreText, ignorePatterns, setIgnorePatterns, refreshTree]);
 
   const handleClear = useCallback(async () => {
     Alert.alert(
@@ -172,6 +442,8 @@ export function SettingsScreen(): React.JSX.Element {
               setToken('');
               setUsername('');
               setRepoUrl('');
+              setProvider('github');
+              setOauthAuth(null);
               setHasCredentials(false);
               Alert.alert('Success', 'Credentials cleared');
             } catch {
@@ -196,11 +468,39 @@ export function SettingsScreen(): React.JSX.Element {
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Git Authentication</Text>
         <Text style={styles.sectionDescription}>
-          Configure your GitHub Personal Access Token (PAT) for syncing your vault.
+          Configure the token used to sync your vault with its git host.
         </Text>
 
         <View style={styles.inputGroup}>
-          <Text style={styles.label}>GitHub Username</Text>
+          <Text style={styles.label}>Git Host</Text>
+          <View style={styles.intervalRow}>
+            {GIT_PROVIDER_IDS.map(id => (
+              <Pressable
+                key={id}
+                style={({pressed}) => [
+                  styles.intervalButton,
+                  provider === id && styles.intervalButtonActive,
+                  pressed && styles.intervalButtonPressed,
+                ]}
+                onPress={() => handleProviderChange(id)}
+                disabled={isCloning}>
+                <Text
+                  style={[
+                    styles.intervalButtonText,
+                    provider === id && styles.intervalButtonTextActive,
+                  ]}>
+                  {GIT_PROVIDERS[id].name}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>
+            {provider === 'generic' ? 'Username' : `${providerInfo.name} Username`}
+            {providerInfo.usernameRequired ? '' : ' (optional)'}
+          </Text>
           <TextInput
             style={[styles.input, focusedInput === 'username' && styles.inputFocused]}
             value={username}
@@ -214,32 +514,92 @@ export function SettingsScreen(): React.JSX.Element {
           />
         </View>
 
-        <View style={styles.inputGroup}>
-          <Text style={styles.label}>Personal Access Token</Text>
-          <TextInput
-            style={[styles.input, focusedInput === 'token' && styles.inputFocused]}
-            value={token}
-            onChangeText={setToken}
-            placeholder="ghp_xxxxxxxxxxxx"
-            placeholderTextColor="#555"
-            secureTextEntry
-            autoCapitalize="none"
-            autoCorrect={false}
-            onFocus={() => setFocusedInput('token')}
-            onBlur={() => setFocusedInput(null)}
-          />
-          <Text style={styles.hint}>
-            Create a token at GitHub → Settings → Developer settings → Personal access tokens
-          </Text>
-        </View>
+        {provider === 'github' && !oauthAuth && GITHUB_CLIENT_ID !== '' && (
+          <View style={styles.inputGroup}>
+            {deviceCode ? (
+              <View style={styles.deviceCodeBox}>
+                <Text style={styles.hint}>
+                  Enter this code at {deviceCode.verificationUri}
+                </Text>
+                <Text style={styles.deviceCode} selectable>
+                  {deviceCode.userCode}
+                </Text>
+                <View style={styles.buttonRow}>
+                  <Pressable
+                    style={({pressed}) => [
+                      styles.button,
+                      styles.primaryButton,
+                      pressed && styles.primaryButtonPressed,
+                    ]}
+                    onPress={() => Linking.openURL(deviceCode.verificationUri)}>
+                    <Text style={styles.buttonText}>Open GitHub</Text>
+                  </Pressable>
+                  <Pressable
+                    style={({pressed}) => [
+                      styles.button,
+                      styles.dangerButton,
+                      pressed && styles.dangerButtonPressed,
+                    ]}
+                    onPress={handleCancelSignIn}>
+                    <Text style={styles.dangerButtonText}>Cancel</Text>
+                  </Pressable>
+                </View>
+                <Text style={styles.hint}>Waiting for you to approve...</Text>
+              </View>
+            ) : (
+              <Pressable
+                style={({pressed}) => [
+                  styles.intervalButton,
+                  pressed && styles.intervalButtonPressed,
+                  isCloning && styles.buttonDisabled,
+                ]}
+                onPress={handleSignIn}
+                disabled={isCloning}>
+                <Text style={styles.intervalButtonText}>Sign in with GitHub</Text>
+              </Pressable>
+            )}
+            <Text style={styles.hint}>
+              Or paste a {providerInfo.tokenName} below.
+            </Text>
+          </View>
+        )}
+
+        {oauthAuth ? (
+          <View style={styles.inputGroup}>
+            <View style={styles.connectedBadge}>
+              <View style={styles.connectedDot} />
+              <Text style={styles.connectedText}>Signed in with GitHub</Text>
+            </View>
+            <Pressable onPress={handleUseToken} disabled={isCloning}>
+              <Text style={styles.hint}>Use a {providerInfo.tokenName} instead</Text>
+            </Pressable>
+          </View>
+        ) : (
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>{providerInfo.tokenName}</Text>
+            <TextInput
+              style={[styles.input, focusedInput === 'token' && styles.inputFocused]}
+              value={token}
+              onChangeText={setToken}
+              placeholder={providerInfo.tokenPlaceholder}
+              placeholderTextColor="#555"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              onFocus={() => setFocusedInput('token')}
+              onBlur={() => setFocusedInput(null)}
+            />
+            <Text style={styles.hint}>{providerInfo.tokenHelp}</Text>
+          </View>
+        )}
 
         <View style={styles.inputGroup}>
           <Text style={styles.label}>Repository URL</Text>
           <TextInput
             style={[styles.input, focusedInput === 'repoUrl' && styles.inputFocused]}
             value={repoUrl}
-            onChangeText={setRepoUrl}
-            placeholder="https://github.com/user/vault.git"
+            onChangeText={handleRepoUrlChange}
+            placeholder={providerInfo.urlPlaceholder}
             placeholderTextColor="#555"
             autoCapitalize="none"
             autoCorrect={false}
@@ -248,7 +608,7 @@ export function SettingsScreen(): React.JSX.Element {
             onBlur={() => setFocusedInput(null)}
           />
           <Text style={styles.hint}>
-            The HTTPS URL of your GitHub repository
+            The HTTPS URL of your repository
           </Text>
         </View>
 
@@ -289,6 +649,39 @@ export function SettingsScreen(): React.JSX.Element {
           )}
         </View>
 
+        {!isConnected && (
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>History</Text>
+            <View style={styles.intervalRow}>
+              {CLONE_HISTORY_OPTIONS.map(option => (
+                <Pressable
+                  key={option.label}
+                  style={({pressed}) => [
+                    styles.intervalButton,
+                    fullHistory === option.value &&
+                      styles.intervalButtonActive,
+                    pressed && styles.intervalButtonPressed,
+                  ]}
+                  onPress={() => setFullHistory(option.value)}
+                  disabled={isCloning}>
+                  <Text
+                    style={[
+                      styles.intervalButtonText,
+                      fullHistory === option.value &&
+                        styles.intervalButtonTextActive,
+                    ]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <Text style={styles.hint}>
+              Full history takes longer to download. Older commits can also be
+              fetched later from the History screen.
+            </Text>
+          </View>
+        )}
+
         {!isConnected && (
           <Pressable
             style={({pressed}) => [
@@ -312,6 +705,17 @@ export function SettingsScreen(): React.JSX.Element {
         )}
       </View>
 
+      {isConnected && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Branch</Text>
+          <Text style={styles.sectionDescription}>
+            The vault syncs with the checked-out branch. Sync your changes
+            before switching.
+          </Text>
+          <BranchPicker />
+        </View>
+      )}
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Auto Sync</Text>
         <Text style={styles.sectionDescription}>
@@ -339,6 +743,114 @@ export function SettingsScreen(): React.JSX.Element {
             </Pressable>
           ))}
         </View>
+
+        <Text style={styles.optionLabel}>After Edits</Text>
+        <Text style={styles.optionDescription}>
+          Sync once you stop editing for a while.
+        </Text>
+        <View style={styles.intervalRow}>
+          {SYNC_AFTER_EDIT_OPTIONS.map(option => (
+            <Pressable
+              key={option.value}
+              style={({pressed}) => [
+                styles.intervalButton,
+                syncAfterEdit === option.value && styles.intervalButtonActive,
+                pressed && styles.intervalButtonPressed,
+              ]}
+              onPress={() => setSyncAfterEdit(option.value)}>
+              <Text
+                style={[
+                  styles.intervalButtonText,
+                  syncAfterEdit === option.value &&
+                    styles.intervalButtonTextActive,
+                ]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Text style={styles.optionLabel}>Open and Close</Text>
+        <Text style={styles.optionDescription}>
+          Pull when the app opens and push when it goes to the background.
+        </Text>
+        <View style={styles.intervalRow}>
+          {SYNC_ON_APP_STATE_OPTIONS.map(option => (
+            <Pressable
+              key={option.label}
+              style={({pressed}) => [
+                styles.intervalButton,
+                syncOnAppState === option.value && styles.intervalButtonActive,
+                pressed && styles.intervalButtonPressed,
+              ]}
+              onPress={() => setSyncOnAppState(option.value)}>
+              <Text
+                style={[
+                  styles.intervalButtonText,
+                  syncOnAppState === option.value &&
+                    styles.intervalButtonTextActive,
+                ]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Change Detection</Text>
+        <Text style={styles.sectionDescription}>
+          Scanning the vault also syncs files changed outside the app, but
+          takes longer on large vaults.
+        </Text>
+
+        <View style={styles.intervalRow}>
+          {CHANGE_DETECTION_OPTIONS.map(option => (
+            <Pressable
+              key={option.value}
+              style={({pressed}) => [
+                styles.intervalButton,
+                changeDetection === option.value &&
+                  styles.intervalButtonActive,
+                pressed && styles.intervalButtonPressed,
+              ]}
+              onPress={() => setChangeDetection(option.value)}>
+              <Text
+                style={[
+                  styles.intervalButtonText,
+                  changeDetection === option.value &&
+                    styles.intervalButtonTextActive,
+                ]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Ignored Files</Text>
+        <Text style={styles.sectionDescription}>
+          Files matching these patterns are hidden, left out of search and
+          never committed, in addition to the vault's .gitignore. One pattern
+          per line, using .gitignore syntax.
+        </Text>
+        <TextInput
+          style={[
+            styles.input,
+            styles.patternInput,
+            focusedInput === 'ignore' && styles.inputFocused,
+          ]}
+          value={ignoreText}
+          onChangeText={setIgnoreText}
+          placeholder={'private/\n*.pdf'}
+          placeholderTextColor="#555"
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          onFocus={() => setFocusedInput('ignore')}
+          onBlur={handleIgnoreBlur}
+        />
       </View>
 
       <View style={styles.section}>
@@ -393,6 +905,11 @@ const styles = StyleSheet.create({
     borderColor: colors.border,
     minHeight: touchTargets.comfortable,
   },
+  patternInput: {
+    minHeight: 100,
+    textAlignVertical: 'top',
+    fontFamily: 'monospace',
+  },
   inputFocused: {
     borderColor: colors.accent,
   },
@@ -451,6 +968,19 @@ const styles = StyleSheet.create({
     color: colors.textPlaceholder,
     marginBottom: 4,
   },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginTop: 28,
+    marginBottom: 4,
+  },
+  optionDescription: {
+    fontSize: 14,
+    color: colors.textMuted,
+    marginBottom: 12,
+    lineHeight: 20,
+  },
   intervalRow: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -482,6 +1012,22 @@ const styles = StyleSheet.create({
   buttonDisabled: {
     opacity: 0.6,
   },
+  deviceCodeBox: {
+    padding: 16,
+    borderRadius: radius.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.backgroundElevated,
+  },
+  deviceCode: {
+    fontSize: 28,
+    fontWeight: '700',
+    fontFamily: 'monospace',
+    letterSpacing: 4,
+    color: colors.textPrimary,
+    textAlign: 'center',
+    marginVertical: 12,
+  },
   connectedBadge: {
     flexDirection: 'row',
     alignItems: 'center',
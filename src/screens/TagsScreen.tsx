@@ -0,0 +1,328 @@
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {View, Text, StyleSheet, Pressable, ActivityIndicator} from 'react-native';
+import type {NativeStackScreenProps} from '@react-navigation/native-stack';
+import {FlashList} from '@shopify/flash-list';
+import type {RootStackParamList} from '../../App';
+import {indexDB} from '../services/index-db';
+import {useIndexStore} from '../services/index-service';
+import {buildTagTree, type TagNode} from '../utils/tags';
+import type {FileMeta} from '../types';
+import {colors, radius} from '../theme';
+
+type TagsScreenProps = NativeStackScreenProps<RootStackParamList, 'Tags'>;
+
+const INDENT_PER_LEVEL = 20;
+
+interface TagRowData {
+  node: TagNode;
+  depth: number;
+}
+
+// The rows currently visible: every root, plus children of expanded tags
+function visibleRows(nodes: TagNode[], expanded: Set<string>, depth = 0): TagRowData[] {
+  return nodes.flatMap(node => [
+    {node, depth},
+    ...(expanded.has(node.tag)
+      ? visibleRows(node.children, expanded, depth + 1)
+      : []),
+  ]);
+}
+
+interface TagRowProps {
+  row: TagRowData;
+  isExpanded: boolean;
+  onPress: (tag: string) => void;
+  onToggle: (tag: string) => void;
+}
+
+const TagRow = React.memo(function TagRow({
+  row,
+  isExpanded,
+  onPress,
+  onToggle,
+}: TagRowProps): React.JSX.Element {
+  const {node, depth} = row;
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <Pressable
+      style={({pressed}) => [
+        styles.row,
+        {paddingLeft: 12 + depth * INDENT_PER_LEVEL},
+        pressed && styles.rowPressed,
+      ]}
+      onPress={() => onPress(node.tag)}
+      accessibilityRole="button"
+      accessibilityLabel={`#${node.tag}, ${node.count} note${node.count !== 1 ? 's' : ''}`}>
+      <Pressable
+        style={styles.chevron}
+        onPress={hasChildren ? () => onToggle(node.tag) : undefined}
+        disabled={!hasChildren}
+        hitSlop={8}
+        accessibilityRole={hasChildren ? 'button' : undefined}
+        accessibilityLabel={
+          hasChildren ? `${isExpanded ? 'Collapse' : 'Expand'} #${node.tag}` : undefined
+        }>
+        {hasChildren && (
+          <Text style={styles.chevronText}>{isExpanded ? '▾' : '▸'}</Text>
+        )}
+      </Pressable>
+      <Text style={styles.tagName} numberOfLines={1}>
+        #{node.name}
+      </Text>
+      <Text style={styles.count}>{node.count}</Text>
+    </Pressable>
+  );
+});
+
+interface NoteRowProps {
+  note: FileMeta;
+  onPress: (path: string) => void;
+}
+
+const NoteRow = React.memo(function NoteRow({
+  note,
+  onPress,
+}: NoteRowProps): React.JSX.Element {
+  const folder = note.path.replace(/^\/+/, '').replace(/\/?[^/]+$/, '');
+
+  return (
+    <Pressable
+      style={({pressed}) => [styles.noteRow, pressed && styles.rowPressed]}
+      onPress={() => onPress(note.path)}
+      accessibilityRole="button"
+      accessibilityLabel={note.title}>
+      <Text style={styles.noteTitle} numberOfLines={1}>
+        {note.title}
+      </Text>
+      {folder ? (
+        <Text style={styles.notePath} numberOfLines={1}>
+          {folder}
+        </Text>
+      ) : null}
+    </Pressable>
+  );
+});
+
+/**
+ * Without a tag, lists every tag in the vault as a tree with note counts.
+ * With one, lists the notes tagged with it or a tag nested under it.
+ */
+export function TagsScreen({route, navigation}: TagsScreenProps): React.JSX.Element {
+  const tag = route.params?.tag;
+  const indexState = useIndexStore(state => state.progress.state);
+  const [tree, setTree] = useState<TagNode[]>([]);
+  const [notes, setNotes] = useState<FileMeta[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    navigation.setOptions({title: tag ? `#${tag}` : 'Tags'});
+  }, [navigation, tag]);
+
+  // Reloads once indexing finishes, so new tags show up
+  useEffect(() => {
+    if (indexState === 'indexing') {
+      return;
+    }
+    let mounted = true;
+
+    async function loadTags() {
+      try {
+        await indexDB.waitUntilReady();
+        if (tag) {
+          const tagged = await indexDB.getNotesWithTag(tag);
+          if (mounted) setNotes(tagged);
+        } else {
+          const tags = await indexDB.getTags();
+          if (mounted) setTree(buildTagTree(tags));
+        }
+        if (mounted) setError(null);
+      } catch (err) {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      } finally {
+        if (mounted) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadTags();
+
+    return () => {
+      mounted = false;
+    };
+  }, [tag, indexState]);
+
+  const rows = useMemo(() => visibleRows(tree, expanded), [tree, expanded]);
+
+  const handleTagPress = useCallback(
+    (pressed: string) => {
+      navigation.push('Tags', {tag: pressed});
+    },
+    [navigation],
+  );
+
+  const handleToggle = useCallback((toggled: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(toggled)) {
+        next.delete(toggled);
+      } else {
+        next.add(toggled);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleNotePress = useCallback(
+    (path: string) => {
+      navigation.navigate('Editor', {path});
+    },
+    [navigation],
+  );
+
+  const renderTag = useCallback(
+    ({item}: {item: TagRowData}) => (
+      <TagRow
+        row={item}
+        isExpanded={expanded.has(item.node.tag)}
+        onPress={handleTagPress}
+        onToggle={handleToggle}
+      />
+    ),
+    [expanded, handleTagPress, handleToggle],
+  );
+
+  const renderNote = useCallback(
+    ({item}: {item: FileMeta}) => (
+      <NoteRow note={item} onPress={handleNotePress} />
+    ),
+    [handleNotePress],
+  );
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.accent} />
+      </View>
+    );
+  }
+
+  const isEmpty = tag ? notes.length === 0 : rows.length === 0;
+  if (error || isEmpty) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyText}>
+          {error ? 'Could not load tags' : tag ? 'No notes with this tag' : 'No tags yet'}
+        </Text>
+        <Text style={styles.emptySubtext}>
+          {error ??
+            (tag
+              ? 'Notes tagged with it will appear here'
+              : 'Tags from #tags and frontmatter appear here once the vault is indexed')}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {tag ? (
+        <FlashList
+          data={notes}
+          renderItem={renderNote}
+          keyExtractor={item => item.path}
+          showsVerticalScrollIndicator={false}
+        />
+      ) : (
+        <FlashList
+          data={rows}
+          renderItem={renderTag}
+          keyExtractor={item => item.node.tag}
+          extraData={expanded}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    backgroundColor: colors.background,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingRight: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+  },
+  rowPressed: {
+    backgroundColor: colors.backgroundElevated,
+  },
+  chevron: {
+    width: 20,
+    alignItems: 'center',
+    marginRight: 4,
+  },
+  chevronText: {
+    color: colors.textPlaceholder,
+    fontSize: 14,
+  },
+  tagName: {
+    flex: 1,
+    color: colors.accent,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  count: {
+    color: colors.textPlaceholder,
+    fontSize: 13,
+    backgroundColor: colors.backgroundCard,
+    borderRadius: radius.sm,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  noteRow: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: colors.border,
+  },
+  noteTitle: {
+    color: colors.textPrimary,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  notePath: {
+    color: colors.textPlaceholder,
+    fontSize: 13,
+    marginTop: 4,
+  },
+  emptyText: {
+    color: colors.textPlaceholder,
+    fontSize: 16,
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    color: colors.textPlaceholder,
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
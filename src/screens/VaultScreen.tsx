@@ -9,10 +9,25 @@ import type {RootStackParamList} from '../../App';
 import {useVaultStore} from '../store';
 import {useVaultLoader} from '../hooks/useVaultLoader';
 import {FileTree, QuickSwitcher, RecentNotes, BlurHeader} from '../components';
-import {gitSync} from '../services/git-sync';
-import {vaultFS} from '../services/vault-fs';
-import {addToQueue} from '../services/sync-queue';
-import type {FileNode, SyncStatus} from '../types';
+import {syncManager} from '../services/sync-manager';
+import {
+  createFolder,
+  deletePath,
+  renamePath,
+} from '../services/vault-changes';
+import {applyLinkUpdates, planLinkUpdates} from '../services/link-updater';
+import type {LinkUpdatePlan} from '../services/link-updater';
+import {useSyncQueueStore} from '../services/sync-queue';
+import {useConflictStore} from '../services/conflict-store';
+import {useVaultRegistry} from '../services/vault-registry';
+import {indexService, useIndexStore} from '../services/index-service';
+import {
+  createVault,
+  deleteVault,
+  renameVault,
+  switchVault,
+} from '../services/vault-switch';
+import type {FileNode, SyncPhase, SyncStatus} from '../types';
 import {colors, touchTargets, radius} from '../theme';
 import {haptics} from '../utils/haptics';
 
@@ -35,6 +50,20 @@ function SearchIcon({size = 20, color = '#666666'}: IconProps): React.JSX.Elemen
   );
 }
 
+function TagIcon({size = 20, color = '#666666'}: IconProps): React.JSX.Element {
+  return (
+    <Svg width={size} height={size} viewBox="0 0 24 24" fill="none">
+      <Path
+        d="M4 9h16M4 15h16M10 3L8 21M16 3l-2 18"
+        stroke={color}
+        strokeWidth={2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    </Svg>
+  );
+}
+
 function SettingsIcon({size = 20, color = '#666666'}: IconProps): React.JSX.Element {
   return (
     <Svg width={size} height={size} viewBox="0 0 24 24" fill="none">
@@ -79,18 +108,41 @@ const statusConfig: Record<SyncStatus['state'], {color: string; label: string}>
     error: {color: colors.error, label: 'Error'},
   };
 
+const phaseLabels: Partial<Record<SyncPhase, string>> = {
+  pulling: 'Pulling…',
+  committing: 'Committing…',
+  pushing: 'Pushing…',
+};
+
+function statusLabel(syncStatus: SyncStatus): string {
+  return (
+    (syncStatus.phase && phaseLabels[syncStatus.phase]) ??
+    statusConfig[syncStatus.state].label
+  );
+}
+
 interface SyncDetailsModalProps {
   visible: boolean;
   onClose: () => void;
   onSyncNow: () => void;
+  onResolveConflicts: () => void;
+  onViewHistory: () => void;
 }
 
 function SyncDetailsModal({
   visible,
   onClose,
   onSyncNow,
+  onResolveConflicts,
+  onViewHistory,
 }: SyncDetailsModalProps): React.JSX.Element {
   const syncStatus = useVaultStore(state => state.syncStatus);
+  const conflictCount = useConflictStore(state => state.conflicts.length);
+  const queuedChanges = useSyncQueueStore(state => state.queue.length);
+  const changeDetection = useVaultStore(state => state.changeDetection);
+  // Scanned changes are only known as of the last status check
+  const pendingChanges =
+    changeDetection === 'queue' ? queuedChanges : syncStatus.pendingChanges;
   const config = statusConfig[syncStatus.state];
 
   const formatLastSync = (timestamp: number | null): string => {
@@ -131,7 +183,7 @@ function SyncDetailsModal({
                 style={[styles.syncModalDot, {backgroundColor: config.color}]}
               />
               <Text style={[styles.syncStatusText, {color: config.color}]}>
-                {config.label}
+                {statusLabel(syncStatus)}
               </Text>
             </View>
           </View>
@@ -143,15 +195,43 @@ function SyncDetailsModal({
             </Text>
           </View>
 
-          {syncStatus.pendingChanges > 0 && (
+          {pendingChanges > 0 && (
             <View style={styles.syncStatusRow}>
               <Text style={styles.syncStatusLabel}>Pending changes</Text>
               <Text style={styles.syncStatusValueText}>
-                {syncStatus.pendingChanges}
+                {pendingChanges}
               </Text>
             </View>
           )}
 
+          {conflictCount > 0 && (
+            <Pressable
+              style={({pressed}) => [
+                styles.syncStatusRow,
+                pressed && styles.breadcrumbPressed,
+              ]}
+              onPress={onResolveConflicts}
+              accessibilityRole="button"
+              accessibilityLabel={`${conflictCount} conflicts. Tap to resolve.`}>
+              <Text style={styles.syncStatusLabel}>Conflicts</Text>
+              <Text style={[styles.syncStatusText, {color: colors.warning}]}>
+                {conflictCount} to resolve
+              </Text>
+            </Pressable>
+          )}
+
+          <Pressable
+            style={({pressed}) => [
+              styles.syncStatusRow,
+              pressed && styles.breadcrumbPressed,
+            ]}
+            onPress={onViewHistory}
+            accessibilityRole="button"
+            accessibilityLabel="View vault history">
+            <Text style={styles.syncStatusLabel}>History</Text>
+            <Text style={styles.syncStatusValueText}>View commits</Text>
+          </Pressable>
+
           {syncStatus.error && (
             <View style={styles.syncErrorRow}>
               <Text style={styles.syncErrorText}>{syncStatus.error}</Text>
@@ -175,6 +255,205 @@ function SyncDetailsModal({
   );
 }
 
+interface VaultSwitcherModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function VaultSwitcherModal({
+  visible,
+  onClose,
+  onCreated,
+}: VaultSwitcherModalProps): React.JSX.Element {
+  const vaults = useVaultRegistry(state => state.vaults);
+  const activeVaultId = useVaultRegistry(state => state.activeVaultId);
+
+  const handleSwitch = useCallback(
+    async (id: string) => {
+      haptics.selection();
+      try {
+        await switchVault(id);
+        onClose();
+      } catch (error) {
+        Alert.alert('Could not switch vaults', errorMessage(error));
+      }
+    },
+    [onClose],
+  );
+
+  const handleCreate = useCallback(() => {
+    Alert.prompt('New Vault', 'Name the vault', async name => {
+      const trimmed = name?.trim();
+      if (!trimmed) {
+        return;
+      }
+      try {
+        await createVault(trimmed);
+        onClose();
+        onCreated();
+      } catch (error) {
+        Alert.alert('Could not create vault', errorMessage(error));
+      }
+    });
+  }, [onClose, onCreated]);
+
+  const handleOptions = useCallback(
+    (id: string, name: string) => {
+      haptics.impactMedium();
+      const rename = {
+        text: 'Rename',
+        onPress: () =>
+          Alert.prompt(
+            'Rename Vault',
+            undefined,
+            newName => {
+              if (newName?.trim()) {
+                renameVault(id, newName.trim());
+              }
+            },
+            'plain-text',
+            name,
+          ),
+      };
+      const remove = {
+        text: 'Remove',
+        style: 'destructive' as const,
+        onPress: () =>
+          Alert.alert(
+            'Remove Vault',
+            `Remove "${name}" and delete its local files? Unsynced changes will be lost.`,
+            [
+              {text: 'Cancel', style: 'cancel'},
+              {
+                text: 'Remove',
+                style: 'destructive',
+                onPress: () =>
+                  deleteVault(id).catch(error =>
+                    Alert.alert('Could not remove vault', errorMessage(error)),
+                  ),
+              },
+            ],
+          ),
+      };
+      Alert.alert(name, undefined, [
+        rename,
+        // The open vault has to be switched away from first
+        ...(id === activeVaultId ? [] : [remove]),
+        {text: 'Cancel', style: 'cancel'},
+      ]);
+    },
+    [activeVaultId],
+  );
+
+  return (
+    <Modal
+      isVisible={visible}
+      onBackdropPress={onClose}
+      onBackButtonPress={onClose}
+      backdropOpacity={0.4}
+      style={styles.syncModal}
+      animationIn="slideInUp"
+      animationOut="slideOutDown"
+      animationInTiming={200}
+      animationOutTiming={150}
+      useNativeDriverForBackdrop>
+      <View style={styles.syncModalContent}>
+        <View style={styles.syncModalHeader}>
+          <Text style={styles.syncModalTitle}>Vaults</Text>
+        </View>
+
+        <View style={styles.syncModalBody}>
+          {vaults.map(vault => {
+            const active = vault.id === activeVaultId;
+            return (
+              <Pressable
+                key={vault.id}
+                style={({pressed}) => [
+                  styles.syncStatusRow,
+                  pressed && styles.breadcrumbPressed,
+                ]}
+                onPress={() => handleSwitch(vault.id)}
+                onLongPress={() => handleOptions(vault.id, vault.name)}
+                accessibilityRole="button"
+                accessibilityState={{selected: active}}
+                accessibilityLabel={`${vault.name}${active ? ', open' : ''}`}
+                accessibilityHint="Long press to rename or remove">
+                <Text
+                  style={[
+                    styles.syncStatusValueText,
+                    active && styles.vaultNameActive,
+                  ]}>
+                  {vault.name}
+                </Text>
+                {active && (
+                  <View
+                    style={[styles.syncModalDot, {backgroundColor: colors.accent}]}
+                  />
+                )}
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <Pressable
+          style={({pressed}) => [
+            styles.syncNowButton,
+            pressed && styles.syncNowButtonPressed,
+          ]}
+          onPress={handleCreate}>
+          <Text style={styles.syncNowButtonText}>New Vault</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+function IndexingBanner(): React.JSX.Element | null {
+  const progress = useIndexStore(state => state.progress);
+  if (progress.state === 'idle') {
+    return null;
+  }
+
+  if (progress.state === 'error') {
+    return (
+      <Pressable
+        style={({pressed}) => [
+          styles.indexBanner,
+          pressed && styles.breadcrumbPressed,
+        ]}
+        onPress={() => indexService.indexVault()}
+        accessibilityRole="button"
+        accessibilityLabel={`Indexing failed: ${progress.error}. Tap to retry.`}>
+        <Text style={styles.indexBannerError} numberOfLines={2}>
+          Indexing failed: {progress.error}. Tap to retry.
+        </Text>
+      </Pressable>
+    );
+  }
+
+  const fraction = progress.total > 0 ? progress.done / progress.total : 0;
+  return (
+    <View
+      style={styles.indexBanner}
+      accessibilityRole="progressbar"
+      accessibilityValue={{min: 0, max: progress.total, now: progress.done}}>
+      <Text style={styles.indexBannerText}>
+        {progress.total > 0
+          ? `Indexing notes ${progress.done}/${progress.total}`
+          : 'Indexing notes...'}
+      </Text>
+      <View style={styles.indexBar}>
+        <View style={[styles.indexBarFill, {width: `${fraction * 100}%`}]} />
+      </View>
+    </View>
+  );
+}
+
 interface SyncButtonProps {
   onPress: () => void;
 }
@@ -193,7 +472,7 @@ function SyncButton({onPress}: SyncButtonProps): React.JSX.Element {
         styles.syncButton,
         pressed && styles.syncButtonPressed,
       ]}
-      accessibilityLabel={`Sync status: ${config.label}. Tap to sync.`}
+      accessibilityLabel={`Sync status: ${statusLabel(syncStatus)}. Tap to sync.`}
       accessibilityRole="button">
       <View style={[styles.syncButtonDot, {backgroundColor: config.color}]} />
       <SyncIcon size={18} color={colors.textSecondary} />
@@ -289,6 +568,7 @@ export function VaultScreen(): React.JSX.Element {
   const currentPath = useVaultStore(state => state.currentPath);
   const setCurrentPath = useVaultStore(state => state.setCurrentPath);
   const [syncModalVisible, setSyncModalVisible] = useState(false);
+  const [vaultSwitcherVisible, setVaultSwitcherVisible] = useState(false);
 
   useVaultLoader();
 
@@ -300,47 +580,36 @@ export function VaultScreen(): React.JSX.Element {
     setSyncModalVisible(false);
   }, []);
 
-  const setSyncStatus = useVaultStore(state => state.setSyncStatus);
-
   const handleSyncNow = useCallback(async () => {
     setSyncModalVisible(false);
 
-    setSyncStatus({
-      state: 'pending',
-      pendingChanges: 0,
-      lastSyncAt: null,
-    });
-
     try {
-      const pullResult = await gitSync.pull();
-
-      const syncQueue = useVaultStore.getState().syncQueue;
-      if (syncQueue.length > 0) {
-        await gitSync.commitAndPush('Sync from Obsidian Git Mobile');
-        useVaultStore.getState().clearSyncQueue();
-      }
-
-      const status = await gitSync.status();
-      setSyncStatus(status);
+      const pullResult = await syncManager.sync('Sync from Obsidian Git Mobile');
 
       if (pullResult.conflicts.length > 0) {
         Alert.alert(
-          'Sync Complete',
-          `Updated ${pullResult.updated.length} files. ${pullResult.conflicts.length} conflicts resolved (local kept).`,
+          'Conflicts Found',
+          `Updated ${pullResult.updated.length} files. ${pullResult.conflicts.length} files were changed both here and on the remote.`,
+          [
+            {text: 'Later', style: 'cancel'},
+            {text: 'Resolve', onPress: () => navigation.navigate('Conflict')},
+          ],
         );
       }
     } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'Unknown error';
-      setSyncStatus({
-        state: 'error',
-        pendingChanges: 0,
-        lastSyncAt: null,
-        error: errorMessage,
-      });
-      Alert.alert('Sync Failed', errorMessage);
+      Alert.alert('Sync Failed', errorMessage(error));
     }
-  }, [setSyncStatus]);
+  }, [navigation]);
+
+  const handleResolveConflicts = useCallback(() => {
+    setSyncModalVisible(false);
+    navigation.navigate('Conflict');
+  }, [navigation]);
+
+  const handleViewHistory = useCallback(() => {
+    setSyncModalVisible(false);
+    navigation.navigate('History');
+  }, [navigation]);
 
   const handleFileSelect = useCallback(
     (path: string) => {
@@ -359,6 +628,47 @@ export function VaultScreen(): React.JSX.Element {
 
   const refreshTree = useVaultStore(state => state.refreshTree);
 
+  // Moves `node` and, if the user agrees, rewrites the links that point
+  // at it. The number of links is shown before anything changes.
+  const moveNode = useCallback(
+    async (node: FileNode, newPath: string, failureTitle: string) => {
+      const move = async (plan: LinkUpdatePlan | null) => {
+        try {
+          await renamePath(node.path, newPath);
+          if (plan) {
+            await applyLinkUpdates(plan);
+          }
+          refreshTree();
+        } catch (error) {
+          Alert.alert(failureTitle, errorMessage(error));
+        }
+      };
+
+      let plan: LinkUpdatePlan | null = null;
+      try {
+        plan = await planLinkUpdates(node.path, newPath);
+      } catch (error) {
+        console.warn('Failed to find links to update:', error);
+      }
+      if (!plan || plan.links === 0) {
+        await move(null);
+        return;
+      }
+
+      const notes = plan.rewrites.length;
+      Alert.alert(
+        'Update Links',
+        `Update ${plan.links} link${plan.links !== 1 ? 's' : ''} in ${notes} note${notes !== 1 ? 's' : ''} to point to the new location?`,
+        [
+          {text: 'Cancel', style: 'cancel'},
+          {text: "Don't Update", onPress: () => move(null)},
+          {text: 'Update', onPress: () => move(plan)},
+        ],
+      );
+    },
+    [refreshTree],
+  );
+
   const handleRename = useCallback(
     (node: FileNode) => {
       Alert.prompt(
@@ -366,24 +676,15 @@ export function VaultScreen(): React.JSX.Element {
         `Enter new name for ${node.name}`,
         async newName => {
           if (!newName || newName === node.name) return;
-          try {
-            const dir = node.path.substring(0, node.path.lastIndexOf('/'));
-            const newPath = dir ? `${dir}/${newName}` : newName;
-            await vaultFS.renameFile(node.path, newPath);
-            addToQueue(node.path, 'delete');
-            addToQueue(newPath, 'add');
-            refreshTree();
-          } catch (error) {
-            const message =
-              error instanceof Error ? error.message : 'Unknown error';
-            Alert.alert('Rename Failed', message);
-          }
+          const dir = node.path.substring(0, node.path.lastIndexOf('/'));
+          const newPath = dir ? `${dir}/${newName}` : newName;
+          await moveNode(node, newPath, 'Rename Failed');
         },
         'plain-text',
         node.name,
       );
     },
-    [refreshTree],
+    [moveNode],
   );
 
   const handleDelete = useCallback(
@@ -395,8 +696,7 @@ export function VaultScreen(): React.JSX.Element {
           style: 'destructive',
           onPress: async () => {
             try {
-              await vaultFS.deleteFile(node.path);
-              addToQueue(node.path, 'delete');
+              await deletePath(node.path);
               refreshTree();
             } catch (error) {
               const message =
@@ -417,22 +717,13 @@ export function VaultScreen(): React.JSX.Element {
         `Enter new path for ${node.name}`,
         async newPath => {
           if (!newPath || newPath === node.path) return;
-          try {
-            await vaultFS.renameFile(node.path, newPath);
-            addToQueue(node.path, 'delete');
-            addToQueue(newPath, 'add');
-            refreshTree();
-          } catch (error) {
-            const message =
-              error instanceof Error ? error.message : 'Unknown error';
-            Alert.alert('Move Failed', message);
-          }
+          await moveNode(node, newPath, 'Move Failed');
         },
         'plain-text',
         node.path,
       );
     },
-    [refreshTree],
+    [moveNode],
   );
 
   const handleNewFolder = useCallback(() => {
@@ -444,7 +735,7 @@ export function VaultScreen(): React.JSX.Element {
         try {
           const basePath = currentPath.join('/');
           const folderPath = basePath ? `${basePath}/${folderName}` : folderName;
-          await vaultFS.createFolder(folderPath);
+          await createFolder(folderPath);
           refreshTree();
         } catch (error) {
           const message =
@@ -460,6 +751,10 @@ export function VaultScreen(): React.JSX.Element {
     navigation.navigate('Search');
   }, [navigation]);
 
+  const handleTags = useCallback(() => {
+    navigation.navigate('Tags');
+  }, [navigation]);
+
   const handleBreadcrumbNavigate = useCallback(
     (index: number) => {
       if (index === 0) {
@@ -477,12 +772,23 @@ export function VaultScreen(): React.JSX.Element {
     <View style={styles.container}>
       <BlurHeader paddingBottom={24}>
         <View style={styles.headerContent}>
-          <View style={styles.headerLeft}>
-            <Text style={styles.headerTitle}>{vaultName}</Text>
-          </View>
+          <Pressable
+            style={({pressed}) => [
+              styles.headerLeft,
+              pressed && styles.breadcrumbPressed,
+            ]}
+            onPress={() => setVaultSwitcherVisible(true)}
+            accessibilityRole="button"
+            accessibilityLabel={`Vault: ${vaultName}. Tap to switch vaults.`}>
+            <Text style={styles.headerTitle} numberOfLines={1}>
+              {vaultName}
+            </Text>
+            <Text style={styles.vaultSwitcherChevron}>▾</Text>
+          </Pressable>
           <View style={styles.headerActions}>
             <SyncButton onPress={handleSyncPress} />
             <HeaderAction icon={<SearchIcon size={20} color={colors.textPlaceholder} />} onPress={handleSearch} accessibilityLabel="Search notes" />
+            <HeaderAction icon={<TagIcon size={20} color={colors.textPlaceholder} />} onPress={handleTags} accessibilityLabel="Tags" />
             <HeaderAction icon={<SettingsIcon size={20} color={colors.textPlaceholder} />} onPress={handleSettings} accessibilityLabel="Settings" />
           </View>
         </View>
@@ -512,6 +818,8 @@ export function VaultScreen(): React.JSX.Element {
         </View>
       )}
 
+      <IndexingBanner />
+
       <RecentNotes onNoteSelect={handleFileSelect} />
 
       <View style={styles.treeContainer}>
@@ -531,6 +839,14 @@ export function VaultScreen(): React.JSX.Element {
         visible={syncModalVisible}
         onClose={handleSyncModalClose}
         onSyncNow={handleSyncNow}
+        onResolveConflicts={handleResolveConflicts}
+        onViewHistory={handleViewHistory}
+      />
+
+      <VaultSwitcherModal
+        visible={vaultSwitcherVisible}
+        onClose={() => setVaultSwitcherVisible(false)}
+        onCreated={handleSettings}
       />
     </View>
   );
@@ -558,6 +874,14 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     letterSpacing: -0.5,
   },
+  vaultSwitcherChevron: {
+    color: colors.textPlaceholder,
+    fontSize: 20,
+  },
+  vaultNameActive: {
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
   headerActions: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -619,6 +943,33 @@ const styles = StyleSheet.create({
     color: colors.textDisabled,
     fontSize: 13,
   },
+  indexBanner: {
+    marginHorizontal: 24,
+    marginBottom: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: radius.sm,
+    backgroundColor: colors.backgroundElevated,
+    gap: 6,
+  },
+  indexBannerText: {
+    color: colors.textSecondary,
+    fontSize: 13,
+  },
+  indexBannerError: {
+    color: colors.danger,
+    fontSize: 13,
+  },
+  indexBar: {
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: colors.border,
+    overflow: 'hidden',
+  },
+  indexBarFill: {
+    height: 3,
+    backgroundColor: colors.accent,
+  },
   treeContainer: {
     flex: 1,
   },
@@ -2,3 +2,7 @@ export {VaultScreen} from './VaultScreen';
 export {EditorScreen} from './EditorScreen';
 export {SettingsScreen} from './SettingsScreen';
 export {SearchScreen} from './SearchScreen';
+export {ConflictScreen} from './ConflictScreen';
+export {HistoryScreen} from './HistoryScreen';
+export {DiffScreen} from './DiffScreen';
+export {TagsScreen} from './TagsScreen';
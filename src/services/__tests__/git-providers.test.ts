@@ -0,0 +1,156 @@
+/// <reference types="node" />
+import http from 'http';
+import type {AddressInfo} from 'net';
+import git from 'isomorphic-git';
+import {
+  GIT_PROVIDERS,
+  authUsername,
+  detectProvider,
+  errorHint,
+} from '../git-providers';
+import {createGitHttp} from '../git-http';
+import type {GitAuth, GitProviderId} from '../../types';
+
+const HEAD_OID = 'a'.repeat(40);
+
+function pktLine(line: string): string {
+  return (line.length + 4).toString(16).padStart(4, '0') + line;
+}
+
+// The smart HTTP ref advertisement for a repository with a single branch
+function advertisement(): string {
+  return (
+    pktLine('# service=git-upload-pack\n') +
+    '0000' +
+    pktLine(`${HEAD_OID} HEAD\0symref=HEAD:refs/heads/main agent=git/2.0\n`) +
+    pktLine(`${HEAD_OID} refs/heads/main\n`) +
+    '0000'
+  );
+}
+
+describe('git-providers', () => {
+  describe('detectProvider', () => {
+    it('should detect well-known hosts', () => {
+      expect(detectProvider('https://github.com/user/vault.git')).toBe('github');
+      expect(detectProvider('https://gitlab.com/user/vault.git')).toBe('gitlab');
+      expect(detectProvider('https://codeberg.org/user/vault.git')).toBe('gitea');
+      expect(detectProvider('https://user@bitbucket.org/ws/vault.git')).toBe(
+        'bitbucket',
+      );
+    });
+
+    it('should recognize self-hosted instances by host name', () => {
+      expect(detectProvider('https://gitlab.example.com/a/b.git')).toBe('gitlab');
+      expect(detectProvider('https://forgejo.example.com/a/b.git')).toBe('gitea');
+      expect(detectProvider('https://git.example.com/a/b.git')).toBe('generic');
+    });
+
+    it('should fall back to generic without a URL', () => {
+      expect(detectProvider()).toBe('generic');
+      expect(detectProvider('not a url')).toBe('generic');
+    });
+  });
+
+  describe('authUsername', () => {
+    it('should prefer the username the user entered', () => {
+      const auth: GitAuth = {type: 'pat', token: 't', username: 'me', provider: 'gitlab'};
+      expect(authUsername(auth)).toBe('me');
+    });
+
+    it('should use the host default when the username is empty', () => {
+      expect(authUsername({type: 'pat', token: 't', provider: 'gitlab'})).toBe(
+        'oauth2',
+      );
+      expect(
+        authUsername({
+          type: 'pat',
+          token: 't',
+          repoUrl: 'https://github.com/user/vault.git',
+        }),
+      ).toBe('x-access-token');
+    });
+  });
+
+  describe('errorHint', () => {
+    it('should name the scopes a rejected push needs', () => {
+      expect(errorHint(GIT_PROVIDERS.gitlab, 403)).toContain('write_repository');
+    });
+
+    it('should ask for the username where the host needs one', () => {
+      expect(errorHint(GIT_PROVIDERS.gitea, 401)).toContain('username');
+      expect(errorHint(GIT_PROVIDERS.github, 401)).not.toContain('username');
+    });
+
+    it('should not hint on success', () => {
+      expect(errorHint(GIT_PROVIDERS.github, 200)).toBeUndefined();
+    });
+  });
+
+  describe('against a git server', () => {
+    const TOKEN = 'secret-token';
+    let server: http.Server;
+    let expectedUser = '';
+    let baseUrl = '';
+
+    beforeAll(done => {
+      server = http.createServer((req, res) => {
+        const expected = `Basic ${Buffer.from(`${expectedUser}:${TOKEN}`).toString('base64')}`;
+        if (req.headers.authorization !== expected) {
+          res.writeHead(401, {'WWW-Authenticate': 'Basic realm="git"'});
+          res.end();
+          return;
+        }
+        res.writeHead(200, {
+          'Content-Type': 'application/x-git-upload-pack-advertisement',
+        });
+        res.end(advertisement());
+      });
+      server.listen(0, '127.0.0.1', () => {
+        const {port} = server.address() as AddressInfo;
+        baseUrl = `http://127.0.0.1:${port}/user/vault.git`;
+        done();
+      });
+    });
+
+    afterAll(done => {
+      server.close(() => done());
+    });
+
+    const cases: [GitProviderId, string | undefined, string][] = [
+      ['github', undefined, 'x-access-token'],
+      ['gitlab', undefined, 'oauth2'],
+      ['gitea', 'alice', 'alice'],
+      ['bitbucket', 'bob', 'bob'],
+      ['generic', 'carol', 'carol'],
+    ];
+
+    it.each(cases)(
+      'should authenticate with %s',
+      async (provider, username, sentUser) => {
+        expectedUser = sentUser;
+        const auth: GitAuth = {type: 'pat', token: TOKEN, username, provider};
+
+        const refs = await git.listServerRefs({
+          http: createGitHttp(GIT_PROVIDERS[provider]),
+          url: baseUrl,
+          prefix: 'refs/heads/',
+          onAuth: () => ({username: authUsername(auth), password: TOKEN}),
+        });
+
+        expect(refs).toEqual([{ref: 'refs/heads/main', oid: HEAD_OID}]);
+      },
+    );
+
+    it('should explain a rejected token', async () => {
+      expectedUser = 'oauth2';
+
+      await expect(
+        git.listServerRefs({
+          http: createGitHttp(GIT_PROVIDERS.gitlab),
+          url: baseUrl,
+          onAuth: () => ({username: 'oauth2', password: 'wrong'}),
+        }),
+      ).rejects.toThrow('Check your GitLab Personal Access Token');
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import {Buffer} from 'buffer';
 import type {GitAuth} from '../../types';
 import {useSyncQueueStore} from '../sync-queue';
 
@@ -22,6 +23,7 @@ jest.mock('isomorphic-git', () => ({
   commit: jest.fn().mockResolvedValue('abc123'),
   push: jest.fn().mockResolvedValue(undefined),
   resolveRef: jest.fn().mockResolvedValue('abc123'),
+  writeRef: jest.fn().mockResolvedValue(undefined),
   currentBranch: jest.fn().mockResolvedValue('main'),
   statusMatrix: jest.fn().mockResolvedValue([]),
   log: jest.fn().mockResolvedValue([
@@ -34,11 +36,27 @@ jest.mock('isomorphic-git', () => ({
     },
   ]),
   walk: jest.fn().mockResolvedValue([]),
+  readBlob: jest.fn().mockRejectedValue(new Error('Not found')),
+  findMergeBase: jest.fn(),
+  readCommit: jest.fn(),
+  readTree: jest.fn(),
+  writeTree: jest.fn(),
+  writeBlob: jest.fn(),
+  listBranches: jest.fn(),
+  listServerRefs: jest.fn(),
+  getConfig: jest.fn(),
+  setConfig: jest.fn(),
+  branch: jest.fn(),
+  deleteBranch: jest.fn(),
   TREE: jest.fn(() => ({})),
 }));
 
 jest.mock('isomorphic-git/http/web', () => ({}));
 
+jest.mock('../index-service', () => ({
+  indexService: {reindexPaths: jest.fn()},
+}));
+
 jest.mock('../rnfs-adapter', () => ({
   rnfsAdapter: {
     promises: {
@@ -55,7 +73,15 @@ jest.mock('../rnfs-adapter', () => ({
 
 import * as auth from '../auth';
 import {GitSyncService} from '../git-sync';
-import {addToQueue, getQueue, clearQueue} from '../sync-queue';
+import {
+  addToQueue,
+  getQueue,
+  clearQueue,
+  queueRename,
+  hasPendingChanges,
+} from '../sync-queue';
+import {useConflictStore, getConflicts} from '../conflict-store';
+import {useVaultStore} from '../../store';
 
 const git = require('isomorphic-git');
 
@@ -146,6 +172,29 @@ describe('Sync Queue', () => {
     expect(queue).toHaveLength(0);
   });
 
+  it('should drop queued changes inside a deleted folder', () => {
+    addToQueue('notes/a.md', 'modify');
+    addToQueue('notes/sub/b.md', 'add');
+    addToQueue('notes-archive/c.md', 'modify');
+
+    addToQueue('notes', 'delete');
+
+    expect(getQueue().map(item => [item.path, item.action])).toEqual([
+      ['notes-archive/c.md', 'modify'],
+      ['notes', 'delete'],
+    ]);
+  });
+
+  it('should record a rename as a delete and an add', () => {
+    queueRename('old.md', 'new.md');
+
+    expect(getQueue().map(item => [item.path, item.action])).toEqual([
+      ['old.md', 'delete'],
+      ['new.md', 'add'],
+    ]);
+    expect(hasPendingChanges()).toBe(true);
+  });
+
   it('should clear queue', () => {
     addToQueue('test1.md', 'add');
     addToQueue('test2.md', 'modify');
@@ -153,6 +202,7 @@ describe('Sync Queue', () => {
     clearQueue();
 
     expect(getQueue()).toHaveLength(0);
+    expect(hasPendingChanges()).toBe(false);
   });
 });
 
@@ -168,6 +218,12 @@ describe('GitSyncService', () => {
     jest.clearAllMocks();
     gitSync = new GitSyncService();
     useSyncQueueStore.setState({queue: []});
+    useConflictStore.setState({conflicts: []});
+    git.currentBranch.mockResolvedValue('main');
+    // No local commits unless a test says otherwise: pulls fast-forward
+    git.findMergeBase.mockImplementation(
+      async ({oids}: {oids: string[]}) => [oids[0]],
+    );
   });
 
   describe('clone', () => {
@@ -182,6 +238,51 @@ describe('GitSyncService', () => {
         }),
       );
     });
+
+    it('should clone full history when asked', async () => {
+      await gitSync.clone(
+        'https://github.com/test/repo.git',
+        testAuth,
+        undefined,
+        {fullHistory: true},
+      );
+
+      expect(git.clone.mock.calls[0][0]).not.toHaveProperty('depth');
+    });
+  });
+
+  describe('fetchMoreHistory', () => {
+    it('should deepen the current branch and report progress', async () => {
+      gitSync.setAuth(testAuth);
+      const onProgress = jest.fn();
+      git.fetch.mockImplementationOnce(
+        async ({onProgress: report}: {onProgress: Function}) => {
+          report({phase: 'Receiving objects', loaded: 3, total: 10});
+        },
+      );
+
+      await gitSync.fetchMoreHistory(50, onProgress);
+
+      expect(git.fetch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ref: 'main',
+          depth: 50,
+          relative: true,
+          singleBranch: true,
+        }),
+      );
+      expect(onProgress).toHaveBeenCalledWith('Receiving objects', 3, 10);
+    });
+
+    it('should report a shallow clone', async () => {
+      const RNFS = require('react-native-fs');
+      RNFS.exists.mockResolvedValueOnce(true);
+
+      await expect(gitSync.isShallow()).resolves.toBe(true);
+      expect(RNFS.exists).toHaveBeenCalledWith(
+        '/mock/documents/vault/.git/shallow',
+      );
+    });
   });
 
   describe('pull', () => {
@@ -208,6 +309,528 @@ describe('GitSyncService', () => {
       expect(result.updated).toHaveLength(0);
       expect(result.conflicts).toHaveLength(0);
     });
+
+    describe('with local changes', () => {
+      const {rnfsAdapter} = require('../rnfs-adapter');
+      const blobs: Record<string, string> = {
+        'before-abc': 'title\n\nline 1\nline 2\n',
+      };
+
+      beforeEach(() => {
+        git.resolveRef
+          .mockResolvedValueOnce('before-abc')
+          .mockResolvedValueOnce('after-xyz');
+        git.walk.mockImplementation(
+          async ({map}: {map: Function}) => {
+            await map('note.md', [
+              {oid: async () => 'old'},
+              {oid: async () => 'new'},
+            ]);
+          },
+        );
+        git.readBlob.mockImplementation(async ({oid}: {oid: string}) => ({
+          blob: Buffer.from(blobs[oid]!, 'utf8'),
+        }));
+        addToQueue('note.md', 'modify');
+      });
+
+      it('should merge non-overlapping edits', async () => {
+        blobs['after-xyz'] = 'title\n\nline 1\nremote 2\n';
+        rnfsAdapter.promises.readFile.mockResolvedValueOnce(
+          'local title\n\nline 1\nline 2\n',
+        );
+
+        const result = await gitSync.pull();
+
+        expect(result.updated).toEqual(['note.md']);
+        expect(result.conflicts).toHaveLength(0);
+        expect(rnfsAdapter.promises.writeFile).toHaveBeenCalledWith(
+          '/mock/documents/vault/note.md',
+          'local title\n\nline 1\nremote 2\n',
+        );
+      });
+
+      it('should report conflict hunks and keep the local version', async () => {
+        blobs['after-xyz'] = 'title\n\nline 1\nremote 2\n';
+        rnfsAdapter.promises.readFile.mockResolvedValueOnce(
+          'title\n\nline 1\nlocal 2\n',
+        );
+
+        const result = await gitSync.pull();
+
+        expect(result.conflicts).toHaveLength(1);
+        expect(result.conflicts[0]!.path).toBe('note.md');
+        expect(result.conflicts[0]!.hunks[0]).toMatchObject({
+          local: ['local 2'],
+          remote: ['remote 2'],
+        });
+        expect(rnfsAdapter.promises.writeFile).toHaveBeenCalledWith(
+          '/mock/documents/vault/note.md',
+          'title\n\nline 1\nlocal 2\n',
+        );
+        // Logged outside the working tree, so it is never committed
+        expect(rnfsAdapter.promises.writeFile).toHaveBeenCalledWith(
+          '/mock/documents/vault/.git/conflicts.log',
+          expect.stringContaining('merge conflict in note.md'),
+        );
+      });
+
+      it('should persist conflicts until resolved', async () => {
+        blobs['after-xyz'] = 'title\n\nline 1\nremote 2\n';
+        rnfsAdapter.promises.readFile.mockResolvedValueOnce(
+          'title\n\nline 1\nlocal 2\n',
+        );
+
+        await gitSync.pull();
+
+        expect(getConflicts().map(conflict => conflict.path)).toEqual([
+          'note.md',
+        ]);
+      });
+    });
+  });
+
+  describe('rebasing local commits', () => {
+    const {rnfsAdapter} = require('../rnfs-adapter');
+    const texts: Record<string, string> = {
+      'blob-base': 'title\n\nline 1\nline 2\n',
+      'blob-local': 'local title\n\nline 1\nline 2\n',
+      'blob-remote': 'title\n\nline 1\nremote 2\n',
+      'blob-conflict': 'remote title\n\nline 1\nline 2\n',
+      'blob-other': 'other\n',
+    };
+    let blobs: Record<string, string>;
+
+    beforeEach(() => {
+      gitSync.setAuth(testAuth);
+      blobs = {
+        'base:note.md': 'blob-base',
+        'local1:note.md': 'blob-local',
+        'remote1:note.md': 'blob-base',
+        'remote1:other.md': 'blob-other',
+      };
+      git.resolveRef.mockImplementation(async ({ref}: {ref: string}) =>
+        ref === 'HEAD' ? 'local1' : 'remote1',
+      );
+      git.currentBranch.mockResolvedValue('main');
+      git.findMergeBase.mockResolvedValue(['base']);
+      git.readCommit.mockImplementation(async ({oid}: {oid: string}) => ({
+        oid,
+        commit: {
+          message: 'Edit note\n',
+          author: {name: 'Alice', email: 'a@example.com', timestamp: 1, timezoneOffset: 0},
+          parent: ['base'],
+          tree: `tree-${oid}`,
+        },
+      }));
+      git.walk.mockImplementation(async ({map}: {map: Function}) => {
+        await map('note.md', [{oid: async () => 'a'}, {oid: async () => 'b'}]);
+      });
+      git.readBlob.mockImplementation(
+        async ({oid, filepath}: {oid: string; filepath: string}) => {
+          const blobOid = blobs[`${oid}:${filepath}`];
+          if (!blobOid) {
+            throw new Error('Not found');
+          }
+          return {oid: blobOid, blob: Buffer.from(texts[blobOid]!, 'utf8')};
+        },
+      );
+      git.readTree.mockResolvedValue({
+        tree: [
+          {mode: '100644', path: 'note.md', oid: 'blob-base', type: 'blob'},
+          {mode: '100644', path: 'other.md', oid: 'blob-other', type: 'blob'},
+        ],
+      });
+      git.writeTree.mockResolvedValue('tree-rebased');
+      git.writeBlob.mockResolvedValue('blob-merged');
+      git.commit.mockResolvedValue('rebased1');
+    });
+
+    it('should replay local commits on top of the remote head', async () => {
+      const result = await gitSync.pull();
+
+      expect(git.readTree).toHaveBeenCalledWith(
+        expect.objectContaining({oid: 'tree-remote1'}),
+      );
+      expect(git.writeTree).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tree: [
+            {mode: '100644', path: 'note.md', oid: 'blob-local', type: 'blob'},
+            {mode: '100644', path: 'other.md', oid: 'blob-other', type: 'blob'},
+          ],
+        }),
+      );
+      expect(git.commit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Edit note\n',
+          author: expect.objectContaining({name: 'Alice'}),
+          tree: 'tree-rebased',
+          parent: ['remote1'],
+          noUpdateBranch: true,
+        }),
+      );
+      expect(git.writeRef).toHaveBeenCalledWith(
+        expect.objectContaining({ref: 'refs/heads/main', value: 'rebased1'}),
+      );
+      expect(result.conflicts).toHaveLength(0);
+    });
+
+    it('should merge a file changed on both sides', async () => {
+      blobs['remote1:note.md'] = 'blob-remote';
+
+      await gitSync.pull();
+
+      expect(git.writeBlob).toHaveBeenCalledWith(
+        expect.objectContaining({
+          blob: Buffer.from('local title\n\nline 1\nremote 2\n', 'utf8'),
+        }),
+      );
+      expect(git.writeTree).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tree: expect.arrayContaining([
+            expect.objectContaining({path: 'note.md', oid: 'blob-merged'}),
+          ]),
+        }),
+      );
+    });
+
+    it('should report files that cannot be replayed as conflicts', async () => {
+      blobs['remote1:note.md'] = 'blob-conflict';
+
+      const result = await gitSync.pull();
+
+      expect(git.commit).not.toHaveBeenCalled();
+      expect(git.writeRef).toHaveBeenCalledWith(
+        expect.objectContaining({value: 'remote1'}),
+      );
+      expect(result.conflicts.map(conflict => conflict.path)).toEqual([
+        'note.md',
+      ]);
+      expect(rnfsAdapter.promises.writeFile).toHaveBeenCalledWith(
+        '/mock/documents/vault/note.md',
+        texts['blob-local'],
+      );
+      expect(getQueue().map(item => item.path)).toEqual(['note.md']);
+    });
+
+    it('should keep a committed edit that conflicts when a rejected push is retried', async () => {
+      const rejection = new Error('Push rejected because it was not a simple fast-forward.');
+      rejection.name = 'PushRejectedError';
+      blobs['remote1:note.md'] = 'blob-conflict';
+      addToQueue('note.md', 'modify');
+      // The working copy matches the local commit: nothing beyond it is dirty
+      rnfsAdapter.promises.readFile.mockResolvedValue(texts['blob-local']);
+      git.statusMatrix.mockResolvedValue([['note.md', 1, 2, 2]]);
+      git.push.mockRejectedValueOnce(rejection).mockResolvedValueOnce({ok: true});
+
+      await gitSync.commitAndPush('Sync');
+
+      expect(getConflicts().map(conflict => conflict.path)).toEqual(['note.md']);
+      expect(rnfsAdapter.promises.writeFile).not.toHaveBeenCalledWith(
+        '/mock/documents/vault/note.md',
+        texts['blob-conflict'],
+      );
+      expect(rnfsAdapter.promises.writeFile).toHaveBeenCalledWith(
+        '/mock/documents/vault/note.md',
+        texts['blob-local'],
+      );
+      expect(getQueue().map(item => item.path)).toEqual(['note.md']);
+    });
+  });
+
+  describe('branches', () => {
+    beforeEach(() => {
+      gitSync.setAuth(testAuth);
+      git.listBranches.mockResolvedValue(['main']);
+      git.getConfig.mockResolvedValue('https://github.com/user/vault.git');
+      git.listServerRefs.mockResolvedValue([
+        {ref: 'refs/heads/main', oid: 'a'},
+        {ref: 'refs/heads/drafts', oid: 'b'},
+      ]);
+    });
+
+    it('should list local and remote branches', async () => {
+      const branches = await gitSync.listBranches();
+
+      expect(git.listServerRefs).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://github.com/user/vault.git',
+          prefix: 'refs/heads/',
+        }),
+      );
+      expect(branches).toEqual([
+        {name: 'drafts', current: false, local: false, remote: true},
+        {name: 'main', current: true, local: true, remote: true},
+      ]);
+    });
+
+    it('should fetch a remote-only branch before checking it out', async () => {
+      await gitSync.switchBranch('drafts');
+
+      expect(git.fetch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ref: 'drafts',
+          remoteRef: 'refs/heads/drafts',
+          singleBranch: true,
+        }),
+      );
+      expect(git.fetch.mock.calls[0][0]).not.toHaveProperty('depth');
+      expect(git.checkout).toHaveBeenCalledWith(
+        expect.objectContaining({ref: 'drafts'}),
+      );
+    });
+
+    it('should keep a shallow clone shallow when fetching a branch', async () => {
+      const RNFS = require('react-native-fs');
+      RNFS.exists.mockResolvedValueOnce(true);
+
+      await gitSync.switchBranch('drafts');
+
+      expect(RNFS.exists).toHaveBeenCalledWith('/mock/documents/vault/.git/shallow');
+      expect(git.fetch).toHaveBeenCalledWith(
+        expect.objectContaining({ref: 'drafts', depth: 1}),
+      );
+    });
+
+    it('should check out a local branch without fetching', async () => {
+      git.listBranches.mockResolvedValue(['main', 'drafts']);
+
+      await gitSync.switchBranch('drafts');
+
+      expect(git.fetch).not.toHaveBeenCalled();
+      expect(git.checkout).toHaveBeenCalledWith(
+        expect.objectContaining({ref: 'drafts'}),
+      );
+    });
+
+    it('should refuse to switch with unsynced changes', async () => {
+      addToQueue('note.md', 'modify');
+
+      await expect(gitSync.switchBranch('drafts')).rejects.toThrow(
+        'Sync your changes before switching branches',
+      );
+      expect(git.checkout).not.toHaveBeenCalled();
+    });
+
+    it('should create, push and track a new branch', async () => {
+      await gitSync.createBranch('drafts');
+
+      expect(git.branch).toHaveBeenCalledWith(
+        expect.objectContaining({ref: 'drafts', checkout: true}),
+      );
+      expect(git.push).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ref: 'drafts',
+          remoteRef: 'refs/heads/drafts',
+        }),
+      );
+      expect(git.setConfig).toHaveBeenCalledWith(
+        expect.objectContaining({
+          path: 'branch.drafts.merge',
+          value: 'refs/heads/drafts',
+        }),
+      );
+    });
+
+    it('should go back and drop the new branch if the push fails', async () => {
+      git.currentBranch.mockResolvedValue('main');
+      git.push.mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(gitSync.createBranch('drafts')).rejects.toThrow('Network error');
+
+      expect(git.checkout).toHaveBeenCalledWith(
+        expect.objectContaining({ref: 'main'}),
+      );
+      expect(git.deleteBranch).toHaveBeenCalledWith(
+        expect.objectContaining({ref: 'drafts'}),
+      );
+      expect(git.setConfig).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to pull on a detached HEAD', async () => {
+      git.currentBranch.mockResolvedValue(undefined);
+
+      await expect(gitSync.pull()).rejects.toThrow('HEAD is not on a branch');
+      expect(git.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('push rejection', () => {
+    const rejection = () => {
+      const error = new Error('Push rejected because it was not a simple fast-forward.');
+      error.name = 'PushRejectedError';
+      return error;
+    };
+
+    beforeEach(() => {
+      gitSync.setAuth(testAuth);
+      addToQueue('note.md', 'modify');
+      git.statusMatrix.mockResolvedValue([['note.md', 1, 2, 2]]);
+      git.resolveRef.mockResolvedValue('head');
+    });
+
+    it('should pull and retry when the remote moved', async () => {
+      git.push.mockRejectedValueOnce(rejection()).mockResolvedValueOnce({ok: true});
+
+      await gitSync.commitAndPush('Sync');
+
+      expect(git.fetch).toHaveBeenCalledTimes(1);
+      expect(git.push).toHaveBeenCalledTimes(2);
+      expect(getQueue()).toHaveLength(0);
+    });
+
+    it('should give up after a bounded number of attempts', async () => {
+      const {rnfsAdapter} = require('../rnfs-adapter');
+      git.push.mockRejectedValue(rejection());
+
+      await expect(gitSync.commitAndPush('Sync')).rejects.toThrow(
+        'Push rejected 3 times',
+      );
+      expect(git.push).toHaveBeenCalledTimes(3);
+      expect(getQueue()).toHaveLength(1);
+
+      rnfsAdapter.promises.stat.mockResolvedValueOnce({});
+      git.log.mockResolvedValueOnce([]);
+      const status = await gitSync.status();
+      expect(status.state).toBe('error');
+      expect(status.error).toContain('Push rejected');
+    });
+
+    it('should not retry other push failures', async () => {
+      git.push.mockRejectedValueOnce(new Error('Network request failed'));
+
+      await expect(gitSync.commitAndPush('Sync')).rejects.toThrow(
+        'Network request failed',
+      );
+      expect(git.push).toHaveBeenCalledTimes(1);
+      expect(git.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('change detection', () => {
+    beforeEach(() => {
+      gitSync.setAuth(testAuth);
+    });
+
+    it('should report the sync queue in queue mode', async () => {
+      addToQueue('queued.md', 'modify');
+
+      expect(await gitSync.getPendingChanges()).toEqual([
+        {path: 'queued.md', action: 'modify'},
+      ]);
+      expect(git.statusMatrix).not.toHaveBeenCalled();
+    });
+
+    it('should derive changes from the status matrix in status mode', async () => {
+      gitSync.setChangeDetection('status');
+      git.statusMatrix.mockResolvedValueOnce([
+        ['new.md', 0, 2, 0],
+        ['edited.md', 1, 2, 1],
+        ['gone.md', 1, 0, 1],
+        ['same.md', 1, 1, 1],
+        ['staged-then-removed.md', 0, 0, 3],
+      ]);
+
+      expect(await gitSync.getPendingChanges()).toEqual([
+        {path: 'new.md', action: 'add'},
+        {path: 'edited.md', action: 'modify'},
+        {path: 'gone.md', action: 'delete'},
+        {path: 'staged-then-removed.md', action: 'delete'},
+      ]);
+    });
+
+    it('should leave ignored files out of the pending changes', async () => {
+      gitSync.setChangeDetection('status');
+      useVaultStore.setState({ignorePatterns: ['private/']});
+      git.statusMatrix.mockResolvedValueOnce([
+        ['private/diary.md', 0, 2, 0],
+        ['.obsidian/workspace.json', 0, 2, 0],
+      ]);
+
+      expect(await gitSync.getPendingChanges()).toEqual([]);
+      useVaultStore.setState({ignorePatterns: []});
+    });
+
+    it('should count working tree changes in the status', async () => {
+      const {rnfsAdapter} = require('../rnfs-adapter');
+      gitSync.setChangeDetection('status');
+      rnfsAdapter.promises.stat.mockResolvedValueOnce({});
+      git.statusMatrix.mockResolvedValueOnce([
+        ['a.md', 1, 2, 1],
+        ['b.md', 0, 2, 0],
+      ]);
+      git.log.mockResolvedValueOnce([]);
+
+      const status = await gitSync.status();
+
+      expect(status.state).toBe('pending');
+      expect(status.pendingChanges).toBe(2);
+    });
+
+    it('should push files that were never queued', async () => {
+      gitSync.setChangeDetection('status');
+      git.statusMatrix
+        .mockResolvedValueOnce([['external.md', 0, 2, 0]])
+        .mockResolvedValueOnce([['external.md', 0, 2, 2]]);
+
+      await gitSync.commitAndPush('Sync');
+
+      expect(git.add).toHaveBeenCalledWith(
+        expect.objectContaining({filepath: 'external.md'}),
+      );
+      expect(git.commit).toHaveBeenCalled();
+      expect(git.push).toHaveBeenCalled();
+    });
+
+    it('should keep local deletions after a pull', async () => {
+      const RNFS = require('react-native-fs');
+      gitSync.setChangeDetection('status');
+      git.statusMatrix.mockResolvedValueOnce([['gone.md', 1, 0, 1]]);
+      git.resolveRef
+        .mockResolvedValueOnce('before-abc')
+        .mockResolvedValueOnce('after-xyz');
+
+      await gitSync.pull();
+
+      expect(RNFS.unlink).toHaveBeenCalledWith('/mock/documents/vault/gone.md');
+    });
+  });
+
+  describe('resolveConflict', () => {
+    beforeEach(() => {
+      gitSync.setAuth(testAuth);
+    });
+
+    it('should write, stage and commit the resolution', async () => {
+      const {rnfsAdapter} = require('../rnfs-adapter');
+      useConflictStore.setState({
+        conflicts: [{path: 'note.md', hunks: [], regions: []}],
+      });
+      addToQueue('note.md', 'modify');
+
+      await gitSync.resolveConflict('note.md', 'resolved');
+
+      expect(rnfsAdapter.promises.writeFile).toHaveBeenCalledWith(
+        '/mock/documents/vault/note.md',
+        'resolved',
+      );
+      expect(git.add).toHaveBeenCalledWith(
+        expect.objectContaining({filepath: 'note.md'}),
+      );
+      expect(git.commit).toHaveBeenCalledWith(
+        expect.objectContaining({message: 'Resolve conflict in note.md'}),
+      );
+      expect(getConflicts()).toHaveLength(0);
+      expect(getQueue()).toHaveLength(0);
+    });
+
+    it('should reindex the resolved note', async () => {
+      const {indexService} = require('../index-service');
+
+      await gitSync.resolveConflict('note.md', 'resolved');
+
+      expect(indexService.reindexPaths).toHaveBeenCalledWith(['note.md']);
+    });
   });
 
   describe('commitAndPush', () => {
@@ -230,6 +853,37 @@ describe('GitSyncService', () => {
       expect(git.push).toHaveBeenCalled();
     });
 
+    it('should stage a removal when a queued file no longer exists', async () => {
+      addToQueue('gone.md', 'modify');
+      const notFound = new Error('Could not find gone.md.');
+      notFound.name = 'NotFoundError';
+      git.add.mockRejectedValueOnce(notFound);
+      git.statusMatrix.mockResolvedValueOnce([['gone.md', 1, 0, 0]]);
+
+      await gitSync.commitAndPush('Remove file');
+
+      expect(git.remove).toHaveBeenCalledWith(
+        expect.objectContaining({filepath: 'gone.md'}),
+      );
+      expect(git.push).toHaveBeenCalled();
+    });
+
+    it('should not stage ignored files', async () => {
+      useVaultStore.setState({ignorePatterns: ['private/']});
+      addToQueue('private/diary.md', 'modify');
+      addToQueue('note.md', 'modify');
+      git.statusMatrix.mockResolvedValueOnce([['note.md', 1, 2, 2]]);
+
+      await gitSync.commitAndPush('Sync');
+
+      expect(git.add).toHaveBeenCalledTimes(1);
+      expect(git.add).toHaveBeenCalledWith(
+        expect.objectContaining({filepath: 'note.md'}),
+      );
+      expect(getQueue()).toHaveLength(0);
+      useVaultStore.setState({ignorePatterns: []});
+    });
+
     it('should handle delete actions', async () => {
       addToQueue('deleted.md', 'delete');
       git.statusMatrix.mockResolvedValueOnce([['deleted.md', 1, 0, 0]]);
@@ -252,6 +906,36 @@ describe('GitSyncService', () => {
       expect(getQueue()).toHaveLength(0);
     });
 
+    it('should leave files with unresolved conflicts queued', async () => {
+      useConflictStore.setState({
+        conflicts: [{path: 'conflicted.md', hunks: [], regions: []}],
+      });
+      addToQueue('conflicted.md', 'modify');
+      addToQueue('clean.md', 'modify');
+      git.statusMatrix.mockResolvedValueOnce([['clean.md', 1, 2, 2]]);
+
+      await gitSync.commitAndPush('Partial sync');
+
+      expect(git.add).toHaveBeenCalledTimes(1);
+      expect(git.add).toHaveBeenCalledWith(
+        expect.objectContaining({filepath: 'clean.md'}),
+      );
+      expect(getQueue().map(item => item.path)).toEqual(['conflicted.md']);
+    });
+
+    it('should push commits left over from an earlier sync', async () => {
+      git.statusMatrix.mockResolvedValueOnce([]);
+      git.currentBranch.mockResolvedValueOnce('main');
+      git.resolveRef
+        .mockResolvedValueOnce('local-head')
+        .mockResolvedValueOnce('remote-head');
+
+      await gitSync.commitAndPush('Nothing new');
+
+      expect(git.commit).not.toHaveBeenCalled();
+      expect(git.push).toHaveBeenCalled();
+    });
+
     it('should skip commit when no changes', async () => {
       git.statusMatrix.mockResolvedValueOnce([]);
 
@@ -262,6 +946,77 @@ describe('GitSyncService', () => {
     });
   });
 
+  describe('log', () => {
+    it('should filter history by file path', async () => {
+      git.log.mockResolvedValueOnce([
+        {
+          oid: 'abc1234567',
+          commit: {
+            message: 'Update note\n',
+            author: {
+              name: 'Alice',
+              email: 'alice@example.com',
+              timestamp: 1700000000,
+            },
+            parent: ['parent123'],
+          },
+        },
+      ]);
+
+      const commits = await gitSync.log('notes/a.md');
+
+      expect(git.log).toHaveBeenCalledWith(
+        expect.objectContaining({filepath: 'notes/a.md', depth: 100}),
+      );
+      expect(commits).toEqual([
+        {
+          oid: 'abc1234567',
+          message: 'Update note',
+          authorName: 'Alice',
+          authorEmail: 'alice@example.com',
+          timestamp: 1700000000000,
+          parents: ['parent123'],
+        },
+      ]);
+    });
+
+    it('should list vault history when no path is given', async () => {
+      git.log.mockResolvedValueOnce([]);
+
+      await gitSync.log(undefined, 20);
+
+      expect(git.log).toHaveBeenCalledWith(
+        expect.objectContaining({filepath: undefined, depth: 20}),
+      );
+    });
+  });
+
+  describe('readFileAt', () => {
+    it('should read file content at a revision', async () => {
+      git.resolveRef.mockResolvedValueOnce('commit123');
+      git.readBlob.mockResolvedValueOnce({
+        blob: Buffer.from('# Old note\n', 'utf8'),
+      });
+
+      const content = await gitSync.readFileAt('notes/a.md', 'HEAD');
+
+      expect(git.resolveRef).toHaveBeenCalledWith(
+        expect.objectContaining({ref: 'HEAD'}),
+      );
+      expect(git.readBlob).toHaveBeenCalledWith(
+        expect.objectContaining({oid: 'commit123', filepath: 'notes/a.md'}),
+      );
+      expect(content).toBe('# Old note\n');
+    });
+
+    it('should return null when the file does not exist at a revision', async () => {
+      git.resolveRef.mockResolvedValueOnce('commit123');
+      git.readBlob.mockRejectedValueOnce(new Error('Not found'));
+
+      expect(await gitSync.readFileAt('missing.md', 'HEAD')).toBeNull();
+    });
+  });
+
   describe('status', () => {
     it('should return offline when no auth', async () => {
       const status = await gitSync.status();
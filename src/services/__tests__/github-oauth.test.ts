@@ -0,0 +1,216 @@
+/// <reference types="node" />
+import http from 'http';
+import type {AddressInfo} from 'net';
+
+jest.mock('../auth', () => ({
+  storeToken: jest.fn(),
+}));
+
+jest.mock('../../../app.json', () => ({githubClientId: 'client-from-build'}));
+
+import {
+  pollForToken,
+  refreshIfExpired,
+  requestDeviceCode,
+  toGitAuth,
+} from '../github-oauth';
+import type {DeviceCode} from '../github-oauth';
+import {storeToken} from '../auth';
+import type {GitAuth} from '../../types';
+
+const NOW = 1_700_000_000_000;
+
+type Reply = Record<string, unknown>;
+
+describe('github-oauth', () => {
+  let server: http.Server;
+  let baseUrl = '';
+  // Responses for the token endpoint, served in order
+  let tokenReplies: Reply[] = [];
+  let requests: {path: string; params: URLSearchParams}[] = [];
+
+  const options = (extra = {}) => ({
+    baseUrl,
+    clientId: 'client-123',
+    now: () => NOW,
+    sleep: jest.fn().mockResolvedValue(undefined),
+    ...extra,
+  });
+
+  beforeAll(done => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        requests.push({path: req.url ?? '', params: new URLSearchParams(body)});
+        const reply =
+          req.url === '/login/device/code'
+            ? {
+                device_code: 'device-abc',
+                user_code: 'WDJB-MJHT',
+                verification_uri: 'https://github.com/login/device',
+                expires_in: 900,
+                interval: 5,
+              }
+            : tokenReplies.shift() ?? {error: 'authorization_pending'};
+        res.writeHead(200, {'Content-Type': 'application/json'});
+        res.end(JSON.stringify(reply));
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      const {port} = server.address() as AddressInfo;
+      baseUrl = `http://127.0.0.1:${port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(() => done());
+  });
+
+  beforeEach(() => {
+    tokenReplies = [];
+    requests = [];
+    (storeToken as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  const code = (): DeviceCode => ({
+    deviceCode: 'device-abc',
+    userCode: 'WDJB-MJHT',
+    verificationUri: 'https://github.com/login/device',
+    expiresAt: NOW + 900_000,
+    interval: 5,
+  });
+
+  describe('requestDeviceCode', () => {
+    it('should request a code for the repo scope', async () => {
+      const result = await requestDeviceCode(options());
+
+      expect(result).toEqual(code());
+      expect(requests[0]!.params.get('client_id')).toBe('client-123');
+      expect(requests[0]!.params.get('scope')).toBe('repo');
+    });
+
+    it('should use the client ID from the build config by default', async () => {
+      await requestDeviceCode(options({clientId: undefined}));
+
+      expect(requests[0]!.params.get('client_id')).toBe('client-from-build');
+    });
+
+    it('should fail without a client ID', async () => {
+      await expect(
+        requestDeviceCode({...options(), clientId: ''}),
+      ).rejects.toThrow('not configured');
+    });
+  });
+
+  describe('pollForToken', () => {
+    it('should poll until the code is approved', async () => {
+      tokenReplies = [
+        {error: 'authorization_pending'},
+        {error: 'slow_down', interval: 10},
+        {
+          access_token: 'ghu_token',
+          refresh_token: 'ghr_refresh',
+          expires_in: 28800,
+          refresh_token_expires_in: 15897600,
+        },
+      ];
+      const opts = options();
+
+      const token = await pollForToken(code(), opts);
+
+      expect(token).toEqual({
+        accessToken: 'ghu_token',
+        refreshToken: 'ghr_refresh',
+        expiresAt: NOW + 28800 * 1000,
+        refreshTokenExpiresAt: NOW + 15897600 * 1000,
+      });
+      expect(opts.sleep.mock.calls.map(call => call[0])).toEqual([
+        5000, 5000, 10000,
+      ]);
+      expect(requests[0]!.params.get('grant_type')).toBe(
+        'urn:ietf:params:oauth:grant-type:device_code',
+      );
+    });
+
+    it('should stop when the user denies access', async () => {
+      tokenReplies = [{error: 'access_denied'}];
+
+      await expect(pollForToken(code(), options())).rejects.toThrow('denied');
+    });
+
+    it('should stop when the code expires', async () => {
+      await expect(
+        pollForToken({...code(), expiresAt: NOW}, options()),
+      ).rejects.toThrow('expired');
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should stop polling when cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        pollForToken(code(), options({signal: controller.signal})),
+      ).rejects.toThrow('Sign-in cancelled');
+    });
+  });
+
+  describe('refreshIfExpired', () => {
+    const oauth = (extra: Partial<GitAuth> = {}): GitAuth => ({
+      ...toGitAuth({
+        accessToken: 'old',
+        refreshToken: 'ghr_refresh',
+        expiresAt: NOW + 60_000,
+      }),
+      repoUrl: 'https://github.com/user/vault.git',
+      ...extra,
+    });
+
+    it('should leave tokens that do not expire alone', async () => {
+      const pat: GitAuth = {type: 'pat', token: 'ghp_x'};
+      const fresh = oauth({expiresAt: NOW + 60 * 60_000});
+
+      await expect(refreshIfExpired(pat, options())).resolves.toBe(pat);
+      await expect(refreshIfExpired(fresh, options())).resolves.toBe(fresh);
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should refresh and store a token about to expire', async () => {
+      tokenReplies = [
+        {access_token: 'new', refresh_token: 'ghr_next', expires_in: 28800},
+      ];
+
+      const auth = await refreshIfExpired(oauth(), options());
+
+      expect(requests[0]!.params.get('grant_type')).toBe('refresh_token');
+      expect(requests[0]!.params.get('refresh_token')).toBe('ghr_refresh');
+      expect(auth).toMatchObject({
+        type: 'oauth',
+        token: 'new',
+        refreshToken: 'ghr_next',
+        expiresAt: NOW + 28800 * 1000,
+        repoUrl: 'https://github.com/user/vault.git',
+      });
+      expect(storeToken).toHaveBeenCalledWith(auth);
+    });
+
+    it('should ask to sign in again when the refresh token has expired', async () => {
+      await expect(
+        refreshIfExpired(oauth({refreshTokenExpiresAt: NOW}), options()),
+      ).rejects.toThrow('Sign in again');
+      expect(storeToken).not.toHaveBeenCalled();
+    });
+
+    it('should ask to sign in again when GitHub rejects the refresh', async () => {
+      tokenReplies = [{error: 'bad_refresh_token'}];
+
+      await expect(refreshIfExpired(oauth(), options())).rejects.toThrow(
+        'Sign in again',
+      );
+    });
+  });
+});
@@ -1,106 +1,15 @@
-import type {IndexDB, FileMeta, SearchResult} from '../../types';
-
-class MockSQLiteIndexDB implements IndexDB {
-  private files: Map<string, FileMeta> = new Map();
-  private links: Map<string, Set<string>> = new Map();
-  private ftsIndex: Map<string, {title: string; content: string}> = new Map();
-  private _isReady = false;
-
-  async init(): Promise<void> {
-    this._isReady = true;
-  }
-
-  isReady(): boolean {
-    return this._isReady;
-  }
-
-  async waitUntilReady(): Promise<void> {
-    return;
-  }
-
-  async upsertFileMeta(file: FileMeta): Promise<void> {
-    this.files.set(file.path, file);
-  }
-
-  async getFileMeta(path: string): Promise<FileMeta | null> {
-    return this.files.get(path) ?? null;
-  }
-
-  async getAllFiles(): Promise<FileMeta[]> {
-    return Array.from(this.files.values());
-  }
-
-  async updateLinksForFile(sourcePath: string, links: string[]): Promise<void> {
-    this.links.set(sourcePath, new Set(links));
-  }
-
-  async getBacklinks(targetPath: string): Promise<string[]> {
-    const backlinks: string[] = [];
-    for (const [source, targets] of this.links) {
-      if (targets.has(targetPath)) {
-        backlinks.push(source);
-      }
-    }
-    return backlinks;
-  }
-
-  async ftsUpsert(path: string, title: string, content: string): Promise<void> {
-    this.ftsIndex.set(path, {title, content});
-  }
-
-  async ftsSearch(query: string): Promise<SearchResult[]> {
-    const results: SearchResult[] = [];
-    const lowerQuery = query.toLowerCase();
-
-    for (const [path, {title, content}] of this.ftsIndex) {
-      const lowerContent = content.toLowerCase();
-      const idx = lowerContent.indexOf(lowerQuery);
-      if (idx !== -1 || title.toLowerCase().includes(lowerQuery)) {
-        const snippetStart = Math.max(0, idx - 20);
-        const snippetEnd = Math.min(content.length, idx + query.length + 20);
-        const snippet =
-          idx !== -1
-            ? `...${content.substring(snippetStart, idx)}**${content.substring(idx, idx + query.length)}**${content.substring(idx + query.length, snippetEnd)}...`
-            : `...${content.substring(0, 50)}...`;
-
-        results.push({
-          path,
-          title,
-          snippet,
-          score: idx !== -1 ? 100 - idx : 50,
-        });
-      }
-    }
-
-    return results.sort((a, b) => b.score - a.score);
-  }
-
-  async deleteFileMeta(path: string): Promise<void> {
-    this.files.delete(path);
-    this.links.delete(path);
-    this.ftsIndex.delete(path);
-  }
-
-  async close(): Promise<void> {
-    this._isReady = false;
-  }
-
-  clear(): void {
-    this.files.clear();
-    this.links.clear();
-    this.ftsIndex.clear();
-  }
+import type {FileMeta, IndexDB} from '../../types';
+import {createMockIndexDB} from '../../test-utils';
+
+function meta(path: string, title = 'Note'): FileMeta {
+  return {path, title, modifiedAt: 1, contentHash: 'x'};
 }
 
 describe('SQLiteIndexDB', () => {
-  let db: MockSQLiteIndexDB;
+  let db: IndexDB;
 
   beforeEach(() => {
-    db = new MockSQLiteIndexDB();
-  });
-
-  afterEach(() => {
-    db.clear();
+    db = createMockIndexDB();
   });
 
   describe('FileMeta CRUD', () => {
@@ -178,6 +87,62 @@ describe('SQLiteIndexDB', () => {
       const retrieved = await db.getFileMeta('notes/test.md');
       expect(retrieved).toBeNull();
     });
+
+    it('deletes everything under a folder', async () => {
+      await db.indexFile(meta('notes/a.md'), ['b.md'], 'alpha', [], []);
+      await db.indexFile(meta('notes/sub/b.md'), [], 'beta', [], []);
+      await db.indexFile(meta('notes-old.md'), [], 'gamma', [], []);
+
+      await db.deleteFileMeta('notes');
+
+      expect((await db.getAllFiles()).map(f => f.path)).toEqual(['notes-old.md']);
+      expect(await db.getBacklinks('b.md')).toEqual([]);
+      expect(await db.ftsSearch('alpha')).toEqual([]);
+    });
+  });
+
+  describe('indexFile and movePath', () => {
+    it('writes metadata, links and FTS together', async () => {
+      await db.indexFile(meta('a.md', 'Alpha'), ['b.md'], 'about vim', [], []);
+
+      expect(await db.getFileMeta('a.md')).toEqual(meta('a.md', 'Alpha'));
+      expect(await db.getBacklinks('b.md')).toEqual(['a.md']);
+      expect((await db.ftsSearch('vim')).map(r => r.title)).toEqual(['Alpha']);
+    });
+
+    it('moves a note', async () => {
+      await db.indexFile(meta('a.md'), ['b.md'], 'about vim', [], []);
+
+      await db.movePath('a.md', 'archive/a.md');
+
+      expect(await db.getFileMeta('a.md')).toBeNull();
+      expect(await db.getFileMeta('archive/a.md')).toEqual(meta('archive/a.md'));
+      expect(await db.getBacklinks('b.md')).toEqual(['archive/a.md']);
+      expect((await db.ftsSearch('vim')).map(r => r.path)).toEqual(['archive/a.md']);
+    });
+
+    it('leaves links to a moved note at their old target', async () => {
+      await db.indexFile(meta('a.md'), ['notes/b.md'], 'see b', [], []);
+
+      await db.movePath('notes/b.md', 'archive/b.md');
+
+      expect(await db.getBacklinks('notes/b.md')).toEqual(['a.md']);
+      expect(await db.getBacklinks('archive/b.md')).toEqual([]);
+    });
+
+    it('moves every note under a folder', async () => {
+      await db.indexFile(meta('notes/a.md'), [], 'a', [], []);
+      await db.indexFile(meta('notes/sub/b.md'), [], 'b', [], []);
+      await db.indexFile(meta('notes.md'), [], 'c', [], []);
+
+      await db.movePath('notes', 'archive/notes');
+
+      expect((await db.getAllFiles()).map(f => f.path).sort()).toEqual([
+        'archive/notes/a.md',
+        'archive/notes/sub/b.md',
+        'notes.md',
+      ]);
+    });
   });
 
   describe('Links and Backlinks', () => {
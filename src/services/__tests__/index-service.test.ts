@@ -0,0 +1,113 @@
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn().mockResolvedValue(null),
+  setItem: jest.fn().mockResolvedValue(undefined),
+  removeItem: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../vault-fs', () => ({vaultFS: {}}));
+
+import {createMockIndexDB, createMockVaultFS} from '../../test-utils';
+import {IndexService, useIndexStore} from '../index-service';
+import type {IndexProgress} from '../index-service';
+
+function recordProgress(): IndexProgress[] {
+  const states: IndexProgress[] = [];
+  useIndexStore.subscribe(state => states.push(state.progress));
+  return states;
+}
+
+describe('IndexService', () => {
+  beforeEach(() => {
+    useIndexStore.setState({progress: {state: 'idle', done: 0, total: 0}});
+  });
+
+  it('should index every note in the vault', async () => {
+    const vault = createMockVaultFS({
+      '/a.md': '# A\nSee [[b]]',
+      '/b.md': 'B',
+      '/image.png': 'binary',
+    });
+    const db = createMockIndexDB();
+    const progress = recordProgress();
+
+    await new IndexService(vault, db).indexVault();
+
+    expect([...db._tables.fts.keys()].sort()).toEqual(['/a.md', '/b.md']);
+    expect(progress).toContainEqual({state: 'indexing', done: 2, total: 2});
+    expect(useIndexStore.getState().progress.state).toBe('idle');
+  });
+
+  it('should index frontmatter properties, a row per list item', async () => {
+    const vault = createMockVaultFS({
+      '/a.md': '---\nstatus: draft\nauthors: [Ann, Bo]\ndue:\n---\nA',
+    });
+    const db = createMockIndexDB();
+
+    await new IndexService(vault, db).indexVault();
+
+    expect(await db.getProperties()).toEqual([
+      {path: '/a.md', key: 'status', value: 'draft', type: 'text'},
+      {path: '/a.md', key: 'authors', value: 'Ann', type: 'list'},
+      {path: '/a.md', key: 'authors', value: 'Bo', type: 'list'},
+      {path: '/a.md', key: 'due', value: null, type: 'text'},
+    ]);
+    expect((await db.getNotesWithProperty('authors', 'bo')).map(f => f.path)).toEqual([
+      '/a.md',
+    ]);
+  });
+
+  it('should reindex only the pulled paths', async () => {
+    const vault = createMockVaultFS({'a.md': 'old a', 'b.md': 'old b'});
+    const db = createMockIndexDB();
+    const service = new IndexService(vault, db);
+    await service.indexVault();
+
+    await vault.writeFile('a.md', 'new a');
+    await vault.writeFile('b.md', 'new b');
+    await vault.deleteFile('b.md');
+    await vault.writeFile('c.md', 'new c');
+    await service.reindexPaths(['a.md', 'b.md', 'c.md', 'notes.txt']);
+
+    expect(Object.fromEntries(db._tables.fts)).toEqual({'a.md': 'new a', 'c.md': 'new c'});
+  });
+
+  it('should run one job at a time', async () => {
+    const vault = createMockVaultFS({'/a.md': 'a'});
+    const db = createMockIndexDB();
+    const service = new IndexService(vault, db);
+
+    const first = service.indexVault();
+    await vault.writeFile('/a.md', 'changed');
+    const second = service.reindexPaths(['/a.md']);
+    await Promise.all([first, second]);
+
+    expect(db._tables.fts.get('/a.md')).toBe('changed');
+  });
+
+  it('should stop and go idle when cancelled', async () => {
+    const vault = createMockVaultFS({'/a.md': 'a', '/b.md': 'b'});
+    const db = createMockIndexDB();
+    const service = new IndexService(vault, db);
+
+    const run = service.indexVault();
+    service.cancel();
+    await run;
+
+    expect(db._tables.fts.size).toBe(0);
+    expect(useIndexStore.getState().progress.state).toBe('idle');
+  });
+
+  it('should publish failures', async () => {
+    const vault = createMockVaultFS({'a.md': 'a'});
+    const db = createMockIndexDB();
+    db.waitUntilReady = () => Promise.reject(new Error('Database not initialized'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await new IndexService(vault, db).indexVault();
+
+    expect(useIndexStore.getState().progress).toMatchObject({
+      state: 'error',
+      error: 'Database not initialized',
+    });
+  });
+});
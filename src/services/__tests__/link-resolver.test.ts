@@ -0,0 +1,206 @@
+jest.mock('../vault-fs', () => ({vaultFS: {}}));
+
+import {createMockIndexDB, createMockVaultFS} from '../../test-utils';
+import {VaultIndexer} from '../indexer';
+import {LinkResolver, linkTarget, resolveWikilink} from '../link-resolver';
+
+const VAULT = [
+  'Home.md',
+  'projects/Plan.md',
+  'projects/alpha/Notes.md',
+  'projects/beta/Notes.md',
+  'archive/Notes.md',
+  'daily/2024-01-01.md',
+  'assets/diagram.png',
+  'Version 1.2.md',
+];
+
+describe('linkTarget', () => {
+  it('drops headings, block references and aliases', () => {
+    expect(linkTarget('Note')).toBe('Note');
+    expect(linkTarget('Note#Heading')).toBe('Note');
+    expect(linkTarget('Note#^block|Alias')).toBe('Note');
+    expect(linkTarget(' folder/Note | Alias ')).toBe('folder/Note');
+    expect(linkTarget('#Heading')).toBe('');
+  });
+});
+
+describe('LinkResolver', () => {
+  const resolver = new LinkResolver(VAULT);
+
+  it('resolves a unique file name anywhere in the vault', () => {
+    expect(resolver.resolve('Plan', 'Home.md')).toBe('projects/Plan.md');
+    expect(resolver.resolve('Plan#Goals|the plan', 'Home.md')).toBe(
+      'projects/Plan.md',
+    );
+  });
+
+  it('ignores case', () => {
+    expect(resolver.resolve('plan', 'Home.md')).toBe('projects/Plan.md');
+    expect(resolver.resolve('HOME', 'projects/Plan.md')).toBe('Home.md');
+  });
+
+  it('resolves paths from the vault root', () => {
+    expect(resolver.resolve('archive/Notes', 'Home.md')).toBe('archive/Notes.md');
+    expect(resolver.resolve('/projects/Plan.md', 'Home.md')).toBe(
+      'projects/Plan.md',
+    );
+  });
+
+  it('resolves partial paths by their ending', () => {
+    expect(resolver.resolve('beta/Notes', 'Home.md')).toBe(
+      'projects/beta/Notes.md',
+    );
+  });
+
+  it('resolves paths relative to the linking note', () => {
+    expect(resolver.resolve('./Notes', 'projects/alpha/Todo.md')).toBe(
+      'projects/alpha/Notes.md',
+    );
+    expect(resolver.resolve('../beta/Notes', 'projects/alpha/Todo.md')).toBe(
+      'projects/beta/Notes.md',
+    );
+    expect(resolver.resolve('./Plan', 'Home.md')).toBeNull();
+  });
+
+  it('picks the closest of several notes with the same name', () => {
+    expect(resolver.resolve('Notes', 'projects/beta/Todo.md')).toBe(
+      'projects/beta/Notes.md',
+    );
+    expect(resolver.resolve('Notes', 'archive/2023/Old.md')).toBe(
+      'archive/Notes.md',
+    );
+  });
+
+  it('prefers the shallowest path when none is closer', () => {
+    expect(resolver.resolve('Notes', 'Home.md')).toBe('archive/Notes.md');
+    expect(resolver.resolve('Notes', 'projects/Plan.md')).toBe(
+      'projects/alpha/Notes.md',
+    );
+  });
+
+  it('resolves attachments and names containing dots', () => {
+    expect(resolver.resolve('diagram.png', 'Home.md')).toBe('assets/diagram.png');
+    expect(resolver.resolve('Version 1.2', 'Home.md')).toBe('Version 1.2.md');
+  });
+
+  it('handles vault paths with a leading slash', () => {
+    const slashed = new LinkResolver(['/Home.md', '/projects/Plan.md']);
+
+    expect(slashed.resolve('Plan', '/Home.md')).toBe('/projects/Plan.md');
+    expect(slashed.resolve('../Home', '/projects/Plan.md')).toBe('/Home.md');
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(resolver.resolve('Missing', 'Home.md')).toBeNull();
+    expect(resolver.resolve('#Heading', 'Home.md')).toBeNull();
+  });
+
+  describe('resolveMarkdownLink', () => {
+    it('resolves paths relative to the linking note', () => {
+      expect(
+        resolver.resolveMarkdownLink('../Plan.md#Goals', 'projects/alpha/Todo.md'),
+      ).toBe('projects/Plan.md');
+      expect(resolver.resolveMarkdownLink('Version%201.2.md', 'Home.md')).toBe(
+        'Version 1.2.md',
+      );
+    });
+
+    it('falls back to wikilink rules', () => {
+      expect(resolver.resolveMarkdownLink('Plan.md', 'Home.md')).toBe(
+        'projects/Plan.md',
+      );
+    });
+
+    it('ignores external links and attachments', () => {
+      expect(resolver.resolveMarkdownLink('https://example.com/a.md', 'Home.md')).toBeNull();
+      expect(resolver.resolveMarkdownLink('assets/diagram.png', 'Home.md')).toBeNull();
+    });
+  });
+
+  describe('destination', () => {
+    it('is the resolved file when there is one', () => {
+      expect(resolver.destination('Plan', 'Home.md')).toBe('projects/Plan.md');
+    });
+
+    it('is where a new note would be created otherwise', () => {
+      expect(resolver.destination('Missing', 'projects/Plan.md')).toBe(
+        'Missing.md',
+      );
+      expect(resolver.destination('ideas/Missing', 'Home.md')).toBe(
+        'ideas/Missing.md',
+      );
+      expect(resolver.destination('./Missing', 'projects/Plan.md')).toBe(
+        'projects/Missing.md',
+      );
+    });
+
+    it('is null for headings in the same note', () => {
+      expect(resolver.destination('#Heading', 'Home.md')).toBeNull();
+    });
+  });
+});
+
+describe('resolveWikilink', () => {
+  it('resolves against the notes in the index', async () => {
+    const db = createMockIndexDB();
+    await db.upsertFileMeta({
+      path: 'projects/Plan.md',
+      title: 'Plan',
+      modifiedAt: 1,
+      contentHash: '',
+    });
+
+    expect(await resolveWikilink('Plan', 'Home.md', db)).toBe('projects/Plan.md');
+    expect(await resolveWikilink('New', 'Home.md', db)).toBe('New.md');
+  });
+});
+
+describe('VaultIndexer links', () => {
+  it('indexes links by the path they resolve to', async () => {
+    const vault = createMockVaultFS({});
+    const db = createMockIndexDB();
+    const indexer = new VaultIndexer(vault, db);
+
+    await indexer.indexFile('folder/Note.md', '# Note', 1);
+    await indexer.indexFile('Home.md', 'See [[Note]] and [[Note#Tasks|tasks]]', 1);
+
+    expect(await db.getBacklinks('folder/Note.md')).toEqual(['Home.md']);
+  });
+
+  it('relinks notes written before their target existed', async () => {
+    const vault = createMockVaultFS({'Home.md': 'See [[Note]]'});
+    const db = createMockIndexDB();
+    const indexer = new VaultIndexer(vault, db);
+
+    await indexer.indexFile('Home.md', 'See [[Note]]', 1);
+    expect(await db.getBacklinks('Note.md')).toEqual(['Home.md']);
+
+    await indexer.indexFile('folder/Note.md', '# Note', 2);
+    await indexer.relinkTo('folder/Note.md');
+
+    expect(await db.getBacklinks('folder/Note.md')).toEqual(['Home.md']);
+    expect(await db.getBacklinks('Note.md')).toEqual([]);
+  });
+
+  it('resolves links again after the notes they reach move', async () => {
+    const vault = createMockVaultFS({'Home.md': 'See [[Old Name]] and [[Note]]'});
+    const db = createMockIndexDB();
+    const indexer = new VaultIndexer(vault, db);
+    await indexer.indexFile('Old Name.md', '# Old', 1);
+    await indexer.indexFile('folder/Note.md', '# Note', 1);
+    await indexer.indexFile('Home.md', 'See [[Old Name]] and [[Note]]', 1);
+
+    const renamed = await indexer.linkSources('Old Name.md');
+    await db.movePath('Old Name.md', 'New Name.md');
+    await indexer.relink(renamed);
+    const moved = await indexer.linkSources('folder');
+    await db.movePath('folder', 'archive');
+    await indexer.relink(moved);
+
+    expect(renamed).toEqual(['Home.md']);
+    expect(await db.getBacklinks('New Name.md')).toEqual([]);
+    expect(await db.getBacklinks('Old Name.md')).toEqual(['Home.md']);
+    expect(await db.getBacklinks('archive/Note.md')).toEqual(['Home.md']);
+  });
+});
@@ -0,0 +1,118 @@
+jest.mock('../vault-fs', () => ({vaultFS: {}}));
+jest.mock('../index-db', () => ({indexDB: {}}));
+jest.mock('../vault-changes', () => ({saveNote: jest.fn()}));
+
+import {createMockIndexDB, createMockVaultFS} from '../../test-utils';
+import type {IndexDB, VaultFS} from '../../types';
+import {VaultIndexer} from '../indexer';
+import {applyLinkUpdates, planLinkUpdates} from '../link-updater';
+import {saveNote} from '../vault-changes';
+
+async function indexVault(
+  notes: Record<string, string>,
+): Promise<{vault: VaultFS; db: IndexDB}> {
+  const vault = createMockVaultFS(notes);
+  const db = createMockIndexDB();
+  const indexer = new VaultIndexer(vault, db);
+  // Register every note first so links resolve as in a full index
+  for (const path of Object.keys(notes)) {
+    await db.upsertFileMeta({path, title: path, modifiedAt: 1, contentHash: ''});
+  }
+  for (const [path, content] of Object.entries(notes)) {
+    await indexer.indexFile(path, content, 1);
+  }
+  return {vault, db};
+}
+
+const NOTES = {
+  'Home.md': [
+    'See [[Old Name]], [[Old Name#Plan|the plan]] and ![[Old Name]].',
+    '[As markdown](projects/Old%20Name.md#Plan) and [[Other]].',
+  ].join('\n'),
+  'projects/Old Name.md': 'Back to [[Home]] and [sibling](./Sibling.md)',
+  'projects/Sibling.md': 'Up: [[./Old Name]]',
+  'daily/Plan.md': 'Today',
+  'Other.md': 'Nothing here',
+};
+
+function rewritten(plan: {rewrites: Array<{path: string; content: string}>}) {
+  return Object.fromEntries(plan.rewrites.map(r => [r.path, r.content]));
+}
+
+describe('planLinkUpdates', () => {
+  it('rewrites links to a renamed note, keeping headings and aliases', async () => {
+    const {vault, db} = await indexVault(NOTES);
+
+    const plan = await planLinkUpdates(
+      'projects/Old Name.md',
+      'projects/New Name.md',
+      db,
+      vault,
+    );
+
+    expect(plan.links).toBe(5);
+    expect(rewritten(plan)).toEqual({
+      'Home.md': [
+        'See [[New Name]], [[New Name#Plan|the plan]] and ![[New Name]].',
+        '[As markdown](projects/New%20Name.md#Plan) and [[Other]].',
+      ].join('\n'),
+      'projects/Sibling.md': 'Up: [[./New Name]]',
+    });
+  });
+
+  it('uses the full path when the new name is ambiguous', async () => {
+    const {vault, db} = await indexVault(NOTES);
+
+    const plan = await planLinkUpdates(
+      'projects/Old Name.md',
+      'projects/Plan.md',
+      db,
+      vault,
+    );
+
+    expect(rewritten(plan)['Home.md']).toContain('[[projects/Plan#Plan|the plan]]');
+  });
+
+  it('fixes relative links in the moved note itself', async () => {
+    const {vault, db} = await indexVault(NOTES);
+
+    const plan = await planLinkUpdates(
+      'projects/Old Name.md',
+      'Old Name.md',
+      db,
+      vault,
+    );
+
+    expect(rewritten(plan)).toEqual({
+      'Home.md': [
+        'See [[Old Name]], [[Old Name#Plan|the plan]] and ![[Old Name]].',
+        '[As markdown](Old%20Name.md#Plan) and [[Other]].',
+      ].join('\n'),
+      'Old Name.md': 'Back to [[Home]] and [sibling](projects/Sibling.md)',
+      'projects/Sibling.md': 'Up: [[../Old Name]]',
+    });
+  });
+
+  it('leaves links alone when they still resolve', async () => {
+    const {vault, db} = await indexVault(NOTES);
+
+    const plan = await planLinkUpdates('daily', 'journal', db, vault);
+
+    expect(plan).toEqual({rewrites: [], links: 0});
+  });
+});
+
+describe('applyLinkUpdates', () => {
+  it('saves every rewritten note', async () => {
+    await applyLinkUpdates({
+      rewrites: [
+        {path: 'a.md', content: '[[B]]', links: 1},
+        {path: 'c.md', content: '[[B]] [[B]]', links: 2},
+      ],
+      links: 3,
+    });
+
+    expect(saveNote).toHaveBeenCalledWith('a.md', '[[B]]');
+    expect(saveNote).toHaveBeenCalledWith('c.md', '[[B]] [[B]]');
+  });
+});
@@ -0,0 +1,61 @@
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn().mockResolvedValue(null),
+  setItem: jest.fn().mockResolvedValue(undefined),
+  removeItem: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../git-sync', () => ({
+  gitSync: {readFileAt: jest.fn()},
+}));
+
+jest.mock('../vault-fs', () => ({
+  vaultFS: {writeFile: jest.fn(), isIgnored: jest.fn()},
+}));
+
+jest.mock('../index-db', () => ({
+  indexDB: {indexFile: jest.fn(), getAllFiles: async () => []},
+}));
+
+import {gitSync} from '../git-sync';
+import {vaultFS} from '../vault-fs';
+import {indexDB} from '../index-db';
+import {getQueue, useSyncQueueStore} from '../sync-queue';
+import {restoreNoteVersion} from '../note-restore';
+
+const readFileAt = gitSync.readFileAt as jest.Mock;
+
+describe('restoreNoteVersion', () => {
+  beforeEach(() => {
+    useSyncQueueStore.setState({queue: []});
+  });
+
+  it('writes, queues and reindexes the old content', async () => {
+    readFileAt.mockResolvedValueOnce('# Old\n\nSee [[Other]]\n');
+
+    const content = await restoreNoteVersion('notes/a.md', 'abc1234');
+
+    expect(readFileAt).toHaveBeenCalledWith('notes/a.md', 'abc1234');
+    expect(content).toBe('# Old\n\nSee [[Other]]\n');
+    expect(vaultFS.writeFile).toHaveBeenCalledWith('notes/a.md', content);
+    expect(getQueue()).toEqual([
+      expect.objectContaining({path: 'notes/a.md', action: 'modify'}),
+    ]);
+    expect(indexDB.indexFile).toHaveBeenCalledWith(
+      expect.objectContaining({path: 'notes/a.md', title: 'Old'}),
+      ['Other.md'],
+      content,
+      [],
+      [],
+    );
+  });
+
+  it('fails without touching the note when it is missing at the revision', async () => {
+    readFileAt.mockResolvedValueOnce(null);
+
+    await expect(
+      restoreNoteVersion('notes/a.md', 'abc1234567'),
+    ).rejects.toThrow('notes/a.md does not exist at abc1234');
+    expect(vaultFS.writeFile).not.toHaveBeenCalled();
+    expect(getQueue()).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+jest.mock('../vault-fs', () => ({vaultFS: {}}));
+jest.mock('../index-db', () => ({indexDB: {}}));
+
+import {createMockIndexDB, createMockVaultFS} from '../../test-utils';
+import type {IndexDB, VaultFS} from '../../types';
+import {compileSearchRegex, findMatches, searchVaultRegex} from '../regex-search';
+import type {RegexFileMatches} from '../regex-search';
+
+async function createVault(
+  notes: Record<string, string>,
+): Promise<{vault: VaultFS; db: IndexDB}> {
+  const vault = createMockVaultFS(notes);
+  const db = createMockIndexDB();
+  for (const path of Object.keys(notes)) {
+    await db.upsertFileMeta({
+      path,
+      title: path.replace(/\.md$/, ''),
+      modifiedAt: 1,
+      contentHash: '',
+    });
+  }
+  return {vault, db};
+}
+
+describe('compileSearchRegex', () => {
+  it('ignores case unless asked not to', () => {
+    expect(compileSearchRegex('todo').test('TODO')).toBe(true);
+    expect(compileSearchRegex('todo', true).test('TODO')).toBe(false);
+  });
+
+  it('throws a SyntaxError for an invalid pattern', () => {
+    expect(() => compileSearchRegex('(unclosed')).toThrow(SyntaxError);
+  });
+});
+
+describe('findMatches', () => {
+  const content = ['# Plan', 'TODO: write', 'done', 'todo again', 'end'].join('\n');
+
+  it('reports the line, column and context of each match', () => {
+    expect(findMatches(content, compileSearchRegex('todo'))).toEqual([
+      {
+        line: 2,
+        index: 7,
+        text: 'TODO',
+        column: 0,
+        lineText: 'TODO: write',
+        before: ['# Plan'],
+        after: ['done'],
+      },
+      {
+        line: 4,
+        index: 24,
+        text: 'todo',
+        column: 0,
+        lineText: 'todo again',
+        before: ['done'],
+        after: ['end'],
+      },
+    ]);
+  });
+
+  it('finds several matches on a line and anchors at line breaks', () => {
+    const matches = findMatches('a-b-c\nb-b', compileSearchRegex('^b|b$'), 0);
+
+    expect(matches.map(m => [m.line, m.column])).toEqual([
+      [2, 0],
+      [2, 2],
+    ]);
+    expect(matches[0]?.before).toEqual([]);
+    expect(findMatches('a-b-c\nb-b', compileSearchRegex('b')).map(m => m.index)).toEqual(
+      [2, 6, 8],
+    );
+  });
+
+  it('skips empty matches without looping forever', () => {
+    expect(findMatches('abc\n\nx', compileSearchRegex('^'))).toEqual([]);
+    expect(findMatches('aa b', compileSearchRegex('a*')).map(m => m.text)).toEqual(['aa']);
+  });
+
+  it('places matches spanning lines on the line they start', () => {
+    const [match] = findMatches('one\ntwo\nthree', compileSearchRegex('two\\nth'));
+
+    expect(match).toMatchObject({line: 2, column: 0, lineText: 'two', text: 'two\nth'});
+  });
+
+  it('drops carriage returns from lines', () => {
+    const [match] = findMatches('a\r\nbc\r\nd', compileSearchRegex('c'));
+
+    expect(match).toMatchObject({lineText: 'bc', before: ['a'], after: ['d']});
+  });
+
+  it('stops at the limit', () => {
+    expect(findMatches('x x x x', compileSearchRegex('x'), 1, 2)).toHaveLength(2);
+  });
+});
+
+describe('searchVaultRegex', () => {
+  const NOTES = {
+    'b.md': 'nothing here',
+    'a.md': 'TODO one\nTODO two',
+    'sub/c.md': 'a todo',
+  };
+
+  it('streams matching notes in path order', async () => {
+    const {vault, db} = await createVault(NOTES);
+    const results: RegexFileMatches[] = [];
+
+    const summary = await searchVaultRegex(
+      'todo',
+      {onResult: result => results.push(result)},
+      db,
+      vault,
+    );
+
+    expect(results.map(r => [r.path, r.title, r.matches.length])).toEqual([
+      ['a.md', 'a', 2],
+      ['sub/c.md', 'sub/c', 1],
+    ]);
+    expect(summary).toEqual({files: 2, matches: 3, truncated: false});
+  });
+
+  it('matches case when asked to', async () => {
+    const {vault, db} = await createVault(NOTES);
+
+    const summary = await searchVaultRegex('todo', {caseSensitive: true}, db, vault);
+
+    expect(summary).toEqual({files: 1, matches: 1, truncated: false});
+  });
+
+  it('stops once the limit is reached', async () => {
+    const {vault, db} = await createVault(NOTES);
+    const results: RegexFileMatches[] = [];
+
+    const summary = await searchVaultRegex(
+      'todo',
+      {limit: 1, onResult: result => results.push(result)},
+      db,
+      vault,
+    );
+
+    expect(results.map(r => r.matches.length)).toEqual([1]);
+    expect(summary).toEqual({files: 1, matches: 1, truncated: true});
+  });
+
+  it('stops when cancelled', async () => {
+    const {vault, db} = await createVault(NOTES);
+    const controller = new AbortController();
+    const onResult = () => controller.abort();
+
+    await expect(
+      searchVaultRegex('todo', {signal: controller.signal, onResult}, db, vault),
+    ).rejects.toThrow('Search cancelled');
+  });
+
+  it('rejects invalid patterns before reading notes', async () => {
+    const {vault, db} = await createVault(NOTES);
+    const readFile = jest.spyOn(vault, 'readFile');
+
+    await expect(searchVaultRegex('[', {}, db, vault)).rejects.toThrow(SyntaxError);
+    expect(readFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,332 @@
+import {compileSearchQuery, parseSearchQuery} from '../search-query';
+
+const RANKED =
+  "SELECT path, title, snippet(fts, 2, '**', '**', '...', 32) AS snippet, rank FROM fts WHERE ";
+const UNRANKED =
+  'SELECT path, title, substr(content, 1, 160) AS snippet, 0 AS rank FROM fts WHERE ';
+const FILE_NAME = "replace(path, rtrim(path, replace(path, '/', '')), '')";
+const TAG = 'path IN (SELECT path FROM tags WHERE tag = ? OR substr(tag, 1, ?) = ?)';
+const MATCHES = 'rowid IN (SELECT rowid FROM fts WHERE fts MATCH ?)';
+const LIKE = "LIKE ? ESCAPE '\\'";
+
+// The WHERE clause and parameters of a compiled query
+function where(query: string): {where: string; params: Array<string | number>} {
+  const compiled = compileSearchQuery(query);
+  if (!compiled) {
+    throw new Error(`Nothing to search in ${JSON.stringify(query)}`);
+  }
+  const match = / WHERE (.*) ORDER BY /.exec(compiled.sql);
+  return {where: match?.[1] ?? '', params: compiled.params};
+}
+
+function partCte(name: string, separator: string, filtered: boolean): string {
+  return (
+    `${name}(path, part, rest) AS (SELECT path, NULL, content || ${separator} FROM fts` +
+    (filtered ? ' WHERE fts MATCH ?' : '') +
+    ' UNION ALL ' +
+    `SELECT path, substr(rest, 1, instr(rest, ${separator}) - 1), ` +
+    `substr(rest, instr(rest, ${separator}) + 1) FROM ${name} ` +
+    `WHERE instr(rest, ${separator}) > 0)`
+  );
+}
+
+describe('parseSearchQuery', () => {
+  it('reads words, phrases and exclusions', () => {
+    expect(parseSearchQuery('fox -"lazy dog"')).toEqual({
+      type: 'and',
+      children: [
+        {type: 'term', text: 'fox', phrase: false},
+        {type: 'not', child: {type: 'term', text: 'lazy dog', phrase: true}},
+      ],
+    });
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(parseSearchQuery('a b OR c')).toEqual({
+      type: 'or',
+      children: [
+        {
+          type: 'and',
+          children: [
+            {type: 'term', text: 'a', phrase: false},
+            {type: 'term', text: 'b', phrase: false},
+          ],
+        },
+        {type: 'term', text: 'c', phrase: false},
+      ],
+    });
+  });
+
+  it('applies a field to the word, phrase or group after it', () => {
+    expect(parseSearchQuery('path:daily')).toEqual({
+      type: 'field',
+      field: 'path',
+      child: {type: 'term', text: 'daily', phrase: false},
+    });
+    expect(parseSearchQuery('FILE:"my note"')).toEqual({
+      type: 'field',
+      field: 'file',
+      child: {type: 'term', text: 'my note', phrase: true},
+    });
+    expect(parseSearchQuery('line:(a OR b)')).toEqual({
+      type: 'field',
+      field: 'line',
+      child: {
+        type: 'or',
+        children: [
+          {type: 'term', text: 'a', phrase: false},
+          {type: 'term', text: 'b', phrase: false},
+        ],
+      },
+    });
+  });
+
+  it('reads a hyphen after a field as excluding it', () => {
+    expect(parseSearchQuery('file:-draft')).toEqual(parseSearchQuery('-file:draft'));
+    expect(parseSearchQuery('line:-"to do"')).toEqual({
+      type: 'not',
+      child: {
+        type: 'field',
+        field: 'line',
+        child: {type: 'term', text: 'to do', phrase: true},
+      },
+    });
+    expect(parseSearchQuery('path:-(a b)')).toEqual(parseSearchQuery('-path:(a b)'));
+    expect(parseSearchQuery('path:--x')).toEqual({
+      type: 'field',
+      field: 'path',
+      child: {type: 'term', text: '--x', phrase: false},
+    });
+  });
+
+  it('treats lowercase or, hyphens and unknown fields as words', () => {
+    expect(parseSearchQuery('this or that')).toEqual({
+      type: 'and',
+      children: ['this', 'or', 'that'].map(text => ({type: 'term', text, phrase: false})),
+    });
+    expect(parseSearchQuery('well-known')).toEqual({
+      type: 'term',
+      text: 'well-known',
+      phrase: false,
+    });
+    expect(parseSearchQuery('author:ann')).toEqual({
+      type: 'term',
+      text: 'author:ann',
+      phrase: false,
+    });
+  });
+
+  it('tolerates unbalanced quotes and parentheses', () => {
+    expect(parseSearchQuery('"open phrase')).toEqual({
+      type: 'term',
+      text: 'open phrase',
+      phrase: true,
+    });
+    expect(parseSearchQuery('(a b')).toEqual(parseSearchQuery('a b'));
+    expect(parseSearchQuery('a) b')).toEqual(parseSearchQuery('a b'));
+  });
+
+  it('is null when nothing is searchable', () => {
+    expect(parseSearchQuery('')).toBeNull();
+    expect(parseSearchQuery('   ')).toBeNull();
+    expect(parseSearchQuery('- "" () OR path:')).toBeNull();
+  });
+});
+
+describe('compileSearchQuery', () => {
+  it('returns null for an empty query', () => {
+    expect(compileSearchQuery('  ')).toBeNull();
+  });
+
+  describe('full text', () => {
+    it('matches every word by prefix, ranked', () => {
+      expect(compileSearchQuery('quick fox')).toEqual({
+        sql: `${RANKED}fts MATCH ? ORDER BY rank LIMIT 50`,
+        params: ['"quick"* AND "fox"*'],
+      });
+    });
+
+    it('matches phrases exactly', () => {
+      expect(where('"quick brown" fox')).toEqual({
+        where: 'fts MATCH ?',
+        params: ['"quick brown" AND "fox"*'],
+      });
+    });
+
+    it('escapes quotes and FTS syntax inside terms', () => {
+      expect(where('NEAR(a) col:b')).toEqual({
+        where: 'fts MATCH ?',
+        params: ['"NEAR"* AND "a"* AND "col:b"*'],
+      });
+      expect(where('"say ""hi"""').params).toEqual(['"say" AND "hi"']);
+    });
+
+    it('excludes with NOT', () => {
+      expect(where('fox -dog -"lazy cat"')).toEqual({
+        where: 'fts MATCH ?',
+        params: ['"fox"* NOT "dog"* NOT "lazy cat"'],
+      });
+    });
+
+    it('combines OR groups', () => {
+      expect(where('fox OR dog')).toEqual({
+        where: 'fts MATCH ?',
+        params: ['"fox"* OR "dog"*'],
+      });
+      expect(where('a b OR c')).toEqual({
+        where: 'fts MATCH ?',
+        params: ['("a"* AND "b"*) OR "c"*'],
+      });
+      expect(where('(a OR b) c')).toEqual({
+        where: 'fts MATCH ?',
+        params: ['("a"* OR "b"*) AND "c"*'],
+      });
+    });
+
+    it('excludes groups', () => {
+      expect(where('fox -(dog OR cat)')).toEqual({
+        where: 'fts MATCH ?',
+        params: ['"fox"* NOT ("dog"* OR "cat"*)'],
+      });
+    });
+
+    it('uses a subquery for exclusions with nothing to match', () => {
+      expect(compileSearchQuery('-draft')).toEqual({
+        sql: `${UNRANKED}NOT (${MATCHES}) ORDER BY title COLLATE NOCASE LIMIT 50`,
+        params: ['"draft"*'],
+      });
+    });
+
+    it('uses subqueries for OR branches FTS5 cannot express', () => {
+      expect(where('(a OR -b) c')).toEqual({
+        where: `fts MATCH ? AND (${MATCHES} OR NOT (${MATCHES}))`,
+        params: ['"c"*', '"a"*', '"b"*'],
+      });
+    });
+
+    it('honours the limit', () => {
+      expect(compileSearchQuery('fox', 10)?.sql).toMatch(/ LIMIT 10$/);
+    });
+  });
+
+  describe('path: and file:', () => {
+    it('filters by a substring of the path', () => {
+      expect(compileSearchQuery('path:daily')).toEqual({
+        sql: `${UNRANKED}path ${LIKE} ORDER BY title COLLATE NOCASE LIMIT 50`,
+        params: ['%daily%'],
+      });
+    });
+
+    it('keeps the ranked text match alongside filters', () => {
+      expect(where('fox path:"zoo notes"')).toEqual({
+        where: `fts MATCH ? AND path ${LIKE}`,
+        params: ['"fox"*', '%zoo notes%'],
+      });
+    });
+
+    it('filters by file name only', () => {
+      expect(where('file:report')).toEqual({
+        where: `${FILE_NAME} ${LIKE}`,
+        params: ['%report%'],
+      });
+    });
+
+    it('escapes LIKE wildcards', () => {
+      expect(where('path:100%_done').params).toEqual(['%100\\%\\_done%']);
+    });
+
+    it('applies to every term of a group', () => {
+      expect(where('path:(daily OR weekly)')).toEqual({
+        where: `(path ${LIKE} OR path ${LIKE})`,
+        params: ['%daily%', '%weekly%'],
+      });
+      expect(where('file:(report -draft)')).toEqual({
+        where: `(${FILE_NAME} ${LIKE} AND NOT (${FILE_NAME} ${LIKE}))`,
+        params: ['%report%', '%draft%'],
+      });
+    });
+
+    it('excludes paths', () => {
+      expect(where('fox -path:archive')).toEqual({
+        where: `fts MATCH ? AND NOT (path ${LIKE})`,
+        params: ['"fox"*', '%archive%'],
+      });
+      expect(where('fox file:-draft')).toEqual({
+        where: `fts MATCH ? AND NOT (${FILE_NAME} ${LIKE})`,
+        params: ['"fox"*', '%draft%'],
+      });
+    });
+  });
+
+  describe('tag:', () => {
+    it('matches the tag and tags nested under it, without # and case', () => {
+      expect(where('tag:#Work')).toEqual({
+        where: TAG,
+        params: ['work', 5, 'work/'],
+      });
+      expect(where('tag:area/sub/').params).toEqual(['area/sub', 9, 'area/sub/']);
+    });
+
+    it('combines with text and other tags', () => {
+      expect(where('meeting tag:work OR tag:home')).toEqual({
+        where: `((${MATCHES} AND ${TAG}) OR ${TAG})`,
+        params: ['"meeting"*', 'work', 5, 'work/', 'home', 5, 'home/'],
+      });
+      expect(where('meeting -tag:done')).toEqual({
+        where: `fts MATCH ? AND NOT (${TAG})`,
+        params: ['"meeting"*', 'done', 5, 'done/'],
+      });
+    });
+  });
+
+  describe('line: and section:', () => {
+    it('matches notes where one line has every term', () => {
+      expect(compileSearchQuery('line:(todo urgent)')).toEqual({
+        sql:
+          `WITH RECURSIVE ${partCte('part0', 'char(10)', true)} ` +
+          `${UNRANKED}path IN (SELECT path FROM part0 WHERE (part ${LIKE} AND part ${LIKE})) ` +
+          'ORDER BY title COLLATE NOCASE LIMIT 50',
+        params: ['"todo"* AND "urgent"*', '%todo%', '%urgent%'],
+      });
+    });
+
+    it('splits sections at headings', () => {
+      expect(compileSearchQuery('section:(plan -done)')).toEqual({
+        sql:
+          `WITH RECURSIVE ${partCte('part0', "char(10) || '#'", true)} ` +
+          `${UNRANKED}path IN (SELECT path FROM part0 WHERE (part ${LIKE} AND NOT (part ${LIKE}))) ` +
+          'ORDER BY title COLLATE NOCASE LIMIT 50',
+        // Only required words narrow the notes to split
+        params: ['"plan"*', '%plan%', '%done%'],
+      });
+    });
+
+    it('splits every note when no word is required', () => {
+      expect(compileSearchQuery('line:(todo OR -done)')?.sql).toContain(
+        partCte('part0', 'char(10)', false),
+      );
+      expect(compileSearchQuery('line:(todo OR -done)')?.params).toEqual([
+        '%todo%',
+        '%done%',
+      ]);
+    });
+
+    it('puts CTE parameters first and numbers each part table', () => {
+      const compiled = compileSearchQuery('fox line:a section:b');
+
+      expect(compiled?.sql).toMatch(/^WITH RECURSIVE part0\(.*\), part1\(/);
+      expect(compiled?.sql).toContain(
+        'WHERE fts MATCH ? AND path IN (SELECT path FROM part0 WHERE part ' +
+          `${LIKE}) AND path IN (SELECT path FROM part1 WHERE part ${LIKE})`,
+      );
+      expect(compiled?.params).toEqual(['"a"*', '"b"*', '"fox"*', '%a%', '%b%']);
+    });
+  });
+
+  it('mixes text and filters under OR with subqueries', () => {
+    expect(where('fox OR path:zoo')).toEqual({
+      where: `(${MATCHES} OR path ${LIKE})`,
+      params: ['"fox"*', '%zoo%'],
+    });
+  });
+});
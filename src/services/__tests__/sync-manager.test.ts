@@ -0,0 +1,243 @@
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn().mockResolvedValue(null),
+  setItem: jest.fn().mockResolvedValue(undefined),
+  removeItem: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../vault-fs', () => ({vaultFS: {}}));
+
+jest.mock('../git-sync', () => ({gitSync: {}}));
+
+import {useVaultStore} from '../../store';
+import {createMockGitSync} from '../../test-utils';
+import type {GitSync, PullResult, SyncPhase} from '../../types';
+import {SyncManager, isNetworkError, retryDelay} from '../sync-manager';
+
+function recordPhases(): SyncPhase[] {
+  const phases: SyncPhase[] = [];
+  useVaultStore.subscribe(state => {
+    if (state.syncStatus.phase) {
+      phases.push(state.syncStatus.phase);
+    }
+  });
+  return phases;
+}
+
+describe('SyncManager', () => {
+  let manager: SyncManager | null = null;
+
+  beforeEach(() => {
+    useVaultStore.setState({
+      syncStatus: {state: 'offline', pendingChanges: 0, lastSyncAt: null},
+    });
+  });
+
+  afterEach(() => {
+    manager?.cancelRetry();
+    manager = null;
+    jest.useRealTimers();
+  });
+
+  it('publishes each phase of a sync', async () => {
+    const git = createMockGitSync({
+      pendingChanges: [{path: 'note.md', action: 'modify'}],
+    });
+    manager = new SyncManager(git);
+    const phases = recordPhases();
+
+    await manager.sync('Sync');
+
+    expect(phases).toEqual(['pulling', 'committing', 'pushing', 'done']);
+    expect(useVaultStore.getState().syncStatus.state).toBe('synced');
+    expect(git._calls.map(call => call.method)).toEqual([
+      'pull',
+      'getPendingChanges',
+      'commitAndPush',
+      'status',
+    ]);
+  });
+
+  it('skips committing when nothing changed', async () => {
+    const git = createMockGitSync();
+    manager = new SyncManager(git);
+    const phases = recordPhases();
+
+    await manager.sync('Sync');
+
+    expect(phases).toEqual(['pulling', 'done']);
+  });
+
+  it('pushes commits left unpushed by an earlier sync', async () => {
+    const git = createMockGitSync({unpushedCommits: true});
+    manager = new SyncManager(git);
+    const phases = recordPhases();
+
+    await manager.sync('Sync');
+
+    expect(phases).toEqual(['pulling', 'pushing', 'done']);
+    expect(git._calls.map(call => call.method)).toContain('commitAndPush');
+  });
+
+  it('pushes a resolved conflict', async () => {
+    const git = createMockGitSync({unpushedCommits: true});
+    manager = new SyncManager(git);
+
+    await manager.resolveConflict('note.md', 'merged');
+    await manager.sync('Sync', 'push');
+
+    expect(git._calls.map(call => call.method)).toEqual([
+      'resolveConflict',
+      'getPendingChanges',
+      'commitAndPush',
+      'status',
+      'getPendingChanges',
+      'commitAndPush',
+      'status',
+    ]);
+    expect(git._calls[2]?.args).toEqual(['Resolve conflict in note.md']);
+  });
+
+  it('reindexes the files a pull changed', async () => {
+    const git = createMockGitSync({
+      pullResult: {updated: ['a.md', 'b.md'], conflicts: []},
+    });
+    const index = {reindexPaths: jest.fn().mockResolvedValue(undefined)};
+    manager = new SyncManager(git, index);
+
+    await manager.sync('Sync');
+    await manager.sync('Sync', 'push');
+
+    expect(index.reindexPaths).toHaveBeenCalledTimes(1);
+    expect(index.reindexPaths).toHaveBeenCalledWith(['a.md', 'b.md']);
+  });
+
+  it('runs only the requested half of a sync', async () => {
+    const git = createMockGitSync({
+      pendingChanges: [{path: 'note.md', action: 'modify'}],
+    });
+    manager = new SyncManager(git);
+
+    await manager.sync('Sync', 'pull');
+    await manager.sync('Sync', 'push');
+
+    expect(git._calls.map(call => call.method)).toEqual([
+      'pull',
+      'status',
+      'getPendingChanges',
+      'commitAndPush',
+      'status',
+    ]);
+  });
+
+  it('runs one sync at a time and coalesces waiting requests', async () => {
+    let finishPull: (result: PullResult) => void = () => {};
+    const git = createMockGitSync();
+    const pull = jest
+      .fn<Promise<PullResult>, []>()
+      .mockImplementationOnce(
+        () => new Promise(resolve => (finishPull = resolve)),
+      )
+      .mockResolvedValue({updated: ['b.md'], conflicts: []});
+    manager = new SyncManager({...git, pull} as GitSync);
+
+    const first = manager.sync('First');
+    const second = manager.sync('Second');
+    const third = manager.sync('Third');
+
+    expect(manager.isSyncing()).toBe(true);
+    expect(pull).toHaveBeenCalledTimes(1);
+
+    finishPull({updated: ['a.md'], conflicts: []});
+
+    await expect(first).resolves.toEqual({updated: ['a.md'], conflicts: []});
+    await expect(second).resolves.toEqual({updated: ['b.md'], conflicts: []});
+    await expect(third).resolves.toEqual({updated: ['b.md'], conflicts: []});
+    expect(pull).toHaveBeenCalledTimes(2);
+    expect(manager.isSyncing()).toBe(false);
+  });
+
+  it('publishes failures without retrying them', async () => {
+    jest.useFakeTimers();
+    manager = new SyncManager(createMockGitSync({shouldFailPull: true}));
+
+    await expect(manager.sync('Sync')).rejects.toThrow('Pull failed');
+
+    expect(useVaultStore.getState().syncStatus).toEqual(
+      expect.objectContaining({
+        state: 'error',
+        phase: 'error',
+        error: 'Pull failed',
+      }),
+    );
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('retries network failures with backoff', async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const git = createMockGitSync();
+    const pull = jest
+      .fn<Promise<PullResult>, []>()
+      .mockRejectedValueOnce(new Error('Network error: Network request failed.'))
+      .mockRejectedValueOnce(new Error('Network error: Network request failed.'))
+      .mockResolvedValue({updated: [], conflicts: []});
+    manager = new SyncManager({...git, pull} as GitSync);
+
+    await expect(manager.sync('Sync')).rejects.toThrow('Network error');
+    expect(useVaultStore.getState().syncStatus.error).toContain(
+      'Retrying in 5s.',
+    );
+
+    await jest.advanceTimersByTimeAsync(5_000);
+    expect(pull).toHaveBeenCalledTimes(2);
+    expect(useVaultStore.getState().syncStatus.error).toContain(
+      'Retrying in 10s.',
+    );
+
+    await jest.advanceTimersByTimeAsync(10_000);
+    expect(pull).toHaveBeenCalledTimes(3);
+    expect(useVaultStore.getState().syncStatus.phase).toBe('done');
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('replaces a scheduled retry with a new request', async () => {
+    jest.useFakeTimers();
+    const git = createMockGitSync();
+    const pull = jest
+      .fn<Promise<PullResult>, []>()
+      .mockRejectedValueOnce(new Error('Network error: Network request failed.'))
+      .mockResolvedValue({updated: [], conflicts: []});
+    manager = new SyncManager({...git, pull} as GitSync);
+
+    await expect(manager.sync('Sync')).rejects.toThrow('Network error');
+    await manager.sync('Sync');
+
+    expect(jest.getTimerCount()).toBe(0);
+    expect(pull).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('isNetworkError', () => {
+  it('retries connection failures and server errors only', () => {
+    const serverError = Object.assign(new Error('HTTP Error: 503'), {
+      name: 'HttpError',
+      data: {statusCode: 503},
+    });
+    const authError = Object.assign(new Error('HTTP Error: 401'), {
+      name: 'HttpError',
+      data: {statusCode: 401},
+    });
+
+    expect(isNetworkError(new Error('Network error: offline'))).toBe(true);
+    expect(isNetworkError(serverError)).toBe(true);
+    expect(isNetworkError(authError)).toBe(false);
+    expect(isNetworkError(new Error('Push rejected 3 times'))).toBe(false);
+  });
+});
+
+describe('retryDelay', () => {
+  it('doubles up to a cap', () => {
+    expect([1, 2, 3].map(retryDelay)).toEqual([5_000, 10_000, 20_000]);
+    expect(retryDelay(20)).toBe(5 * 60_000);
+  });
+});
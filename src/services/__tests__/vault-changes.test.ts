@@ -0,0 +1,216 @@
+jest.mock('react-native-keychain', () => ({
+  setGenericPassword: jest.fn().mockResolvedValue(true),
+  getGenericPassword: jest.fn().mockResolvedValue(null),
+  resetGenericPassword: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn().mockResolvedValue(null),
+  setItem: jest.fn().mockResolvedValue(undefined),
+  removeItem: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('isomorphic-git', () => ({
+  add: jest.fn(),
+  remove: jest.fn(),
+  commit: jest.fn(),
+  push: jest.fn(),
+  resolveRef: jest.fn(),
+  currentBranch: jest.fn(),
+  statusMatrix: jest.fn(),
+}));
+
+jest.mock('isomorphic-git/http/web', () => ({}));
+
+jest.mock('../rnfs-adapter', () => ({
+  rnfsAdapter: {promises: {}},
+}));
+
+jest.mock('../vault-fs', () => ({
+  vaultFS: {
+    writeFile: jest.fn(),
+    renameFile: jest.fn(),
+    deleteFile: jest.fn(),
+    createFolder: jest.fn(),
+    readFile: jest.fn(),
+    isIgnored: jest.fn(),
+    stat: async () => ({modifiedAt: 1}),
+  },
+}));
+
+jest.mock('../index-db', () => ({
+  indexDB: {
+    indexFile: jest.fn(),
+    movePath: jest.fn(),
+    deleteFileMeta: jest.fn(),
+    getAllFiles: async () => [{path: 'notes/a.md'}],
+    getFileMeta: async () => null,
+    getBacklinks: async () => [],
+  },
+}));
+
+import {GitSyncService} from '../git-sync';
+import {vaultFS} from '../vault-fs';
+import {indexDB} from '../index-db';
+import {getQueue, useSyncQueueStore} from '../sync-queue';
+import {
+  createFolder,
+  createNote,
+  deletePath,
+  renamePath,
+  saveNote,
+} from '../vault-changes';
+
+const git = require('isomorphic-git');
+
+function queuedChanges(): Array<[string, string]> {
+  return getQueue().map(item => [item.path, item.action]);
+}
+
+describe('vault changes', () => {
+  beforeEach(() => {
+    useSyncQueueStore.setState({queue: []});
+  });
+
+  it('queues a saved note as modified', async () => {
+    await saveNote('notes/a.md', '# A\n');
+
+    expect(vaultFS.writeFile).toHaveBeenCalledWith('notes/a.md', '# A\n');
+    expect(queuedChanges()).toEqual([['notes/a.md', 'modify']]);
+  });
+
+  it('queues a new note as added', async () => {
+    await createNote('notes/new.md', '# New\n');
+
+    expect(queuedChanges()).toEqual([['notes/new.md', 'add']]);
+  });
+
+  it('queues both sides of a rename or move', async () => {
+    await renamePath('notes', 'archive/notes');
+
+    expect(vaultFS.renameFile).toHaveBeenCalledWith('notes', 'archive/notes');
+    expect(queuedChanges()).toEqual([
+      ['notes', 'delete'],
+      ['archive/notes', 'add'],
+    ]);
+  });
+
+  it('queues deletes and new folders', async () => {
+    await createFolder('projects');
+    await deletePath('old.md');
+
+    expect(queuedChanges()).toEqual([
+      ['projects', 'add'],
+      ['old.md', 'delete'],
+    ]);
+  });
+
+  it('does not queue a change when the write fails', async () => {
+    (vaultFS.writeFile as jest.Mock).mockRejectedValueOnce(
+      new Error('Disk full'),
+    );
+
+    await expect(saveNote('notes/a.md', '# A\n')).rejects.toThrow('Disk full');
+    expect(getQueue()).toEqual([]);
+  });
+
+  describe('index', () => {
+    it('indexes a saved note', async () => {
+      await saveNote('notes/a.md', '# A\n\nSee [[B]]\n');
+
+      expect(indexDB.indexFile).toHaveBeenCalledWith(
+        expect.objectContaining({path: 'notes/a.md', title: 'A'}),
+        ['B.md'],
+        '# A\n\nSee [[B]]\n',
+        [],
+        [],
+      );
+    });
+
+    it('moves the index entry of a renamed note and updates its title', async () => {
+      (vaultFS.readFile as jest.Mock).mockResolvedValue('No heading');
+
+      await renamePath('notes/a.md', 'archive/b.md');
+
+      expect(indexDB.movePath).toHaveBeenCalledWith('notes/a.md', 'archive/b.md');
+      expect(indexDB.indexFile).toHaveBeenCalledWith(
+        expect.objectContaining({path: 'archive/b.md', title: 'b'}),
+        [],
+        'No heading',
+        [],
+        [],
+      );
+    });
+
+    it('resolves links to a renamed note again', async () => {
+      const getBacklinks = jest
+        .spyOn(indexDB, 'getBacklinks')
+        .mockResolvedValueOnce(['Home.md']);
+      (vaultFS.readFile as jest.Mock).mockResolvedValue('See [[Old Name]]');
+
+      await renamePath('Old Name.md', 'New Name.md');
+
+      expect(indexDB.indexFile).toHaveBeenCalledWith(
+        expect.objectContaining({path: 'Home.md'}),
+        ['Old Name.md'],
+        'See [[Old Name]]',
+        [],
+        [],
+      );
+      getBacklinks.mockRestore();
+    });
+
+    it('moves a folder without reading its notes', async () => {
+      await renamePath('notes', 'archive/notes');
+
+      expect(indexDB.movePath).toHaveBeenCalledWith('notes', 'archive/notes');
+      expect(vaultFS.readFile).not.toHaveBeenCalled();
+    });
+
+    it('drops notes moved into an ignored folder', async () => {
+      (vaultFS.isIgnored as jest.Mock).mockResolvedValue(true);
+
+      await renamePath('notes', '.trash/notes');
+
+      expect(indexDB.deleteFileMeta).toHaveBeenCalledWith('notes');
+      expect(indexDB.movePath).not.toHaveBeenCalled();
+    });
+
+    it('drops a deleted path', async () => {
+      await deletePath('notes');
+
+      expect(indexDB.deleteFileMeta).toHaveBeenCalledWith('notes');
+    });
+
+    it('keeps the save when the index update fails', async () => {
+      (indexDB.indexFile as jest.Mock).mockRejectedValueOnce(
+        new Error('Database not initialized'),
+      );
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await saveNote('notes/a.md', '# A\n');
+
+      expect(queuedChanges()).toEqual([['notes/a.md', 'modify']]);
+      expect(warn).toHaveBeenCalled();
+    });
+  });
+
+  it('pushes a saved note on the next sync', async () => {
+    const gitSync = new GitSyncService();
+    gitSync.setAuth({type: 'pat', token: 'token', username: 'user'});
+    git.statusMatrix.mockResolvedValueOnce([['notes/a.md', 1, 2, 2]]);
+    git.currentBranch.mockResolvedValueOnce('main');
+
+    await saveNote('notes/a.md', '# A\n\nEdited on the phone\n');
+    await gitSync.commitAndPush('Sync from Obsidian Git Mobile');
+
+    expect(git.add).toHaveBeenCalledWith(
+      expect.objectContaining({filepath: 'notes/a.md'}),
+    );
+    expect(git.commit).toHaveBeenCalledWith(
+      expect.objectContaining({message: 'Sync from Obsidian Git Mobile'}),
+    );
+    expect(git.push).toHaveBeenCalled();
+    expect(getQueue()).toEqual([]);
+  });
+});
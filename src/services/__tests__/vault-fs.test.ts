@@ -1,3 +1,10 @@
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn().mockResolvedValue(null),
+  setItem: jest.fn().mockResolvedValue(undefined),
+  removeItem: jest.fn().mockResolvedValue(undefined),
+}));
+
+import * as RNFS from 'react-native-fs';
 import {
   normalizePath,
   getFileName,
@@ -5,6 +12,9 @@ import {
   joinPath,
   isMarkdown,
 } from '../../utils/path';
+import {createVaultFS} from '../vault-fs';
+import type {FileNode} from '../../types';
+import {useVaultStore} from '../../store';
 
 describe('path utilities', () => {
   describe('normalizePath', () => {
@@ -142,4 +152,54 @@ describe('VaultFS', () => {
       expect(shouldIgnore('notes')).toBe(false);
     });
   });
+
+  describe('ignore rules', () => {
+    const VAULT = '/mock/documents/vault';
+    const dirs: Record<string, string[]> = {
+      [VAULT]: ['.git', '.gitignore', 'build', 'notes', 'private'],
+      [`${VAULT}/notes`]: ['a.md', 'debug.log'],
+      [`${VAULT}/build`]: ['out.md'],
+      [`${VAULT}/private`]: ['diary.md'],
+    };
+
+    beforeEach(() => {
+      useVaultStore.setState({vaultPath: VAULT, ignorePatterns: []});
+      (RNFS.exists as jest.Mock).mockResolvedValue(true);
+      (RNFS.readFile as jest.Mock).mockResolvedValue('build/\n*.log\n');
+      (RNFS.readDir as jest.Mock).mockImplementation(async (dir: string) =>
+        (dirs[dir] ?? []).map(name => ({
+          path: `${dir}/${name}`,
+          isDirectory: () => `${dir}/${name}` in dirs || name === '.git',
+        })),
+      );
+    });
+
+    function paths(nodes: FileNode[]): string[] {
+      return nodes.flatMap(node => [node.path, ...paths(node.children ?? [])]);
+    }
+
+    it('should hide files matched by .gitignore', async () => {
+      const tree = await createVaultFS().listTree();
+
+      expect(RNFS.readFile).toHaveBeenCalledWith(`${VAULT}/.gitignore`, 'utf8');
+      expect(paths(tree)).toEqual([
+        'notes',
+        'notes/a.md',
+        'private',
+        'private/diary.md',
+        '.gitignore',
+      ]);
+    });
+
+    it('should apply patterns from Settings', async () => {
+      const fs = createVaultFS();
+      await fs.listTree();
+
+      useVaultStore.setState({ignorePatterns: ['private/']});
+
+      expect(paths(await fs.listTree())).not.toContain('private/diary.md');
+      await expect(fs.isIgnored('private/diary.md')).resolves.toBe(true);
+      await expect(fs.isIgnored('notes/a.md')).resolves.toBe(false);
+    });
+  });
 });
@@ -0,0 +1,183 @@
+jest.mock('../vault-fs', () => ({vaultFS: {}}));
+jest.mock('../index-db', () => ({indexDB: {}}));
+
+import {createMockIndexDB, createMockVaultFS} from '../../test-utils';
+import type {IndexDB} from '../../types';
+import {applyReplace, planReplace, replaceInContent, undoReplace} from '../vault-replace';
+
+let mockVault: ReturnType<typeof createMockVaultFS>;
+let db: IndexDB;
+
+// Saves go straight to the mock vault; queueing and reindexing are
+// covered by the vault-changes tests
+function save(path: string, content: string): Promise<void> {
+  return mockVault.writeFile(path, content);
+}
+
+async function createVault(notes: Record<string, string>): Promise<void> {
+  mockVault = createMockVaultFS(notes);
+  db = createMockIndexDB();
+  for (const path of Object.keys(notes)) {
+    await db.upsertFileMeta({path, title: path, modifiedAt: 1, contentHash: ''});
+  }
+}
+
+function contents(): Record<string, string> {
+  return Object.fromEntries(
+    [...mockVault._files].map(([path, file]) => [path, file.content]),
+  );
+}
+
+const NOTES = {
+  'a.md': 'Meet Bob.\nBob (bob) said hi to BOB.',
+  'b.md': 'Nobody here',
+  'c.md': 'Call bob',
+};
+
+describe('planReplace', () => {
+  it('finds literal text, ignoring case, with a preview of each line', async () => {
+    await createVault(NOTES);
+
+    const plan = await planReplace('bob', 'Rob', {}, db, mockVault);
+
+    expect(plan.matches).toBe(5);
+    expect(plan.files.map(file => [file.path, file.matches.length])).toEqual([
+      ['a.md', 4],
+      ['c.md', 1],
+    ]);
+    expect(plan.files[0]?.matches.map(match => [match.line, match.preview])).toEqual([
+      [1, 'Meet Rob.'],
+      [2, 'Rob (bob) said hi to BOB.'],
+      [2, 'Bob (Rob) said hi to BOB.'],
+      [2, 'Bob (bob) said hi to Rob.'],
+    ]);
+  });
+
+  it('treats regex characters literally unless asked not to', async () => {
+    await createVault({'a.md': 'a.b axb (a.b)'});
+
+    const literal = await planReplace('(a.b)', 'x', {}, db, mockVault);
+    const regex = await planReplace('(a.b)', 'x', {regex: true}, db, mockVault);
+
+    expect(literal.matches).toBe(1);
+    expect(regex.matches).toBe(3);
+  });
+
+  it('matches case when asked to', async () => {
+    await createVault(NOTES);
+
+    const plan = await planReplace('Bob', 'Rob', {caseSensitive: true}, db, mockVault);
+
+    expect(plan.matches).toBe(2);
+  });
+
+  it('expands group references against the whole note', async () => {
+    await createVault({'a.md': 'due: 2024-03-01\nsee 2023-12-25'});
+
+    const plan = await planReplace(
+      '(?<=due: )(\\d+)-(?<month>\\d+)-(\\d+)',
+      '$3/$<month>/$1 ($&, $$)',
+      {regex: true},
+      db,
+      mockVault,
+    );
+
+    expect(plan.files[0]?.matches.map(match => match.replacement)).toEqual([
+      '01/03/2024 (2024-03-01, $)',
+    ]);
+  });
+
+  it('leaves $ alone in literal replacements', async () => {
+    await createVault({'a.md': 'price'});
+
+    const plan = await planReplace('price', '$& $1', {}, db, mockVault);
+
+    expect(plan.files[0]?.matches[0]?.replacement).toBe('$& $1');
+  });
+
+  it('throws a SyntaxError for an invalid regex', async () => {
+    await createVault(NOTES);
+
+    await expect(planReplace('(', '', {regex: true}, db, mockVault)).rejects.toThrow(
+      SyntaxError,
+    );
+  });
+});
+
+describe('replaceInContent', () => {
+  it('skips excluded matches', async () => {
+    await createVault(NOTES);
+    const plan = await planReplace('bob', 'Rob', {}, db, mockVault);
+    const file = plan.files[0]!;
+
+    expect(replaceInContent(file, new Set([file.matches[1]!.id]))).toEqual({
+      content: 'Meet Rob.\nBob (Rob) said hi to Rob.',
+      matches: 3,
+    });
+  });
+});
+
+describe('applyReplace', () => {
+  it('saves the changed notes and can be undone as one operation', async () => {
+    await createVault(NOTES);
+    const plan = await planReplace('bob', 'Rob', {}, db, mockVault);
+    // Leave out c.md's only match
+    const excluded = new Set(plan.files[1]!.matches.map(match => match.id));
+
+    const operation = await applyReplace(plan, excluded, mockVault, save);
+
+    expect(operation.matches).toBe(4);
+    expect(operation.skipped).toEqual([]);
+    expect(contents()).toEqual({
+      ...NOTES,
+      'a.md': 'Meet Rob.\nRob (Rob) said hi to Rob.',
+    });
+
+    await expect(undoReplace(operation, mockVault, save)).resolves.toEqual([]);
+    expect(contents()).toEqual(NOTES);
+  });
+
+  it('skips notes edited after the preview', async () => {
+    await createVault(NOTES);
+    const plan = await planReplace('bob', 'Rob', {}, db, mockVault);
+    await mockVault.writeFile('c.md', 'Call bob later');
+
+    const operation = await applyReplace(plan, new Set(), mockVault, save);
+
+    expect(operation.skipped).toEqual(['c.md']);
+    expect(operation.files.map(file => file.path)).toEqual(['a.md']);
+    expect(contents()['c.md']).toBe('Call bob later');
+  });
+
+  it('puts back saved notes if a save fails', async () => {
+    await createVault(NOTES);
+    const plan = await planReplace('bob', 'Rob', {}, db, mockVault);
+    const failOnC = async (path: string, content: string) => {
+      if (path === 'c.md') {
+        throw new Error('Disk full');
+      }
+      await save(path, content);
+    };
+
+    await expect(applyReplace(plan, new Set(), mockVault, failOnC)).rejects.toThrow(
+      'Disk full',
+    );
+    expect(contents()).toEqual(NOTES);
+  });
+});
+
+describe('undoReplace', () => {
+  it('leaves notes edited since the replacement alone', async () => {
+    await createVault(NOTES);
+    const operation = await applyReplace(
+      await planReplace('bob', 'Rob', {}, db, mockVault),
+      new Set(),
+      mockVault,
+      save,
+    );
+    await mockVault.writeFile('c.md', 'Call Rob now');
+
+    await expect(undoReplace(operation, mockVault, save)).resolves.toEqual(['c.md']);
+    expect(contents()).toEqual({...NOTES, 'c.md': 'Call Rob now'});
+  });
+});
@@ -0,0 +1,208 @@
+jest.mock('@react-native-async-storage/async-storage', () => {
+  const data = new Map<string, string>();
+  return {
+    __data: data,
+    getItem: async (key: string) => data.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      data.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      data.delete(key);
+    },
+    multiRemove: async (keys: string[]) => {
+      keys.forEach(key => data.delete(key));
+    },
+  };
+});
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/docs',
+  mkdir: jest.fn(),
+  exists: jest.fn(),
+  unlink: jest.fn(),
+}));
+
+jest.mock('../auth', () => ({clearToken: jest.fn()}));
+jest.mock('../vault-fs', () => ({vaultFS: {}}));
+jest.mock('../git-sync', () => ({
+  gitSync: {reset: jest.fn(), status: jest.fn()},
+}));
+jest.mock('../index-db', () => ({
+  indexDB: {init: jest.fn(), close: jest.fn()},
+  deleteIndexDB: jest.fn(),
+}));
+jest.mock('../index-service', () => ({
+  indexService: {cancel: jest.fn(), indexVault: jest.fn()},
+}));
+jest.mock('../sync-manager', () => ({
+  syncManager: {isSyncing: jest.fn(), cancelRetry: jest.fn()},
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as RNFS from 'react-native-fs';
+import {useVaultStore} from '../../store';
+import {clearToken} from '../auth';
+import {gitSync} from '../git-sync';
+import {deleteIndexDB, indexDB} from '../index-db';
+import {addToQueue, getQueue} from '../sync-queue';
+import {syncManager} from '../sync-manager';
+import {
+  DEFAULT_VAULT_ID,
+  useVaultRegistry,
+  vaultDbName,
+  vaultDir,
+  vaultKey,
+} from '../vault-registry';
+import {
+  activateVault,
+  createVault,
+  deleteVault,
+  renameVault,
+  switchVault,
+} from '../vault-switch';
+
+const storage = (AsyncStorage as unknown as {__data: Map<string, string>})
+  .__data;
+
+const note = (path: string) => ({
+  path,
+  title: path,
+  modifiedAt: 0,
+  contentHash: '',
+});
+
+describe('vaults', () => {
+  beforeEach(async () => {
+    storage.clear();
+    useVaultRegistry.setState({
+      vaults: [{id: DEFAULT_VAULT_ID, name: 'Vault', createdAt: 0}],
+      activeVaultId: DEFAULT_VAULT_ID,
+    });
+    (gitSync.status as jest.Mock).mockResolvedValue({
+      state: 'idle',
+      pendingChanges: 0,
+      lastSyncAt: null,
+    });
+    (syncManager.isSyncing as jest.Mock).mockReturnValue(false);
+    (indexDB.close as jest.Mock).mockResolvedValue(undefined);
+    (indexDB.init as jest.Mock).mockResolvedValue(undefined);
+    (RNFS.exists as jest.Mock).mockResolvedValue(true);
+    await activateVault();
+  });
+
+  describe('locations', () => {
+    it('should keep the original locations for the first vault', () => {
+      expect(vaultDir(DEFAULT_VAULT_ID)).toBe('/docs/vault');
+      expect(vaultKey('key', DEFAULT_VAULT_ID)).toBe('key');
+      expect(vaultDbName(DEFAULT_VAULT_ID)).toBe('vault_index.db');
+    });
+
+    it('should give other vaults their own locations', () => {
+      expect(vaultDir('abc')).toBe('/docs/vaults/abc');
+      expect(vaultKey('key', 'abc')).toBe('key:abc');
+      expect(vaultDbName('abc')).toBe('vault_index_abc.db');
+    });
+  });
+
+  describe('switchVault', () => {
+    it('should point the app at the new vault', async () => {
+      const vault = await createVault('Work');
+
+      expect(useVaultRegistry.getState().activeVaultId).toBe(vault.id);
+      expect(useVaultStore.getState()).toMatchObject({
+        vaultPath: `/docs/vaults/${vault.id}`,
+        vaultName: 'Work',
+      });
+      expect(RNFS.mkdir).toHaveBeenCalledWith(`/docs/vaults/${vault.id}`);
+      expect(gitSync.reset).toHaveBeenCalled();
+      expect(indexDB.close).toHaveBeenCalled();
+      expect(indexDB.init).toHaveBeenCalled();
+    });
+
+    it('should keep a sync queue per vault', async () => {
+      addToQueue('personal.md', 'modify');
+      const work = await createVault('Work');
+      expect(getQueue()).toEqual([]);
+
+      addToQueue('work.md', 'add');
+      await switchVault(DEFAULT_VAULT_ID);
+      expect(getQueue().map(item => item.path)).toEqual(['personal.md']);
+
+      await switchVault(work.id);
+      expect(getQueue().map(item => item.path)).toEqual(['work.md']);
+    });
+
+    it('should keep recent notes per vault', async () => {
+      useVaultStore.getState().addRecentNote(note('a.md'));
+      await createVault('Work');
+      expect(useVaultStore.getState().recentNotes).toEqual([]);
+
+      await switchVault(DEFAULT_VAULT_ID);
+      expect(useVaultStore.getState().recentNotes).toEqual([note('a.md')]);
+    });
+
+    it('should keep ignore patterns and sync settings per vault', async () => {
+      useVaultStore.getState().setIgnorePatterns(['private/']);
+      useVaultStore.getState().setChangeDetection('status');
+      useVaultStore.getState().setSyncInterval(5);
+      const work = await createVault('Work');
+      expect(useVaultStore.getState()).toMatchObject({
+        ignorePatterns: [],
+        changeDetection: 'queue',
+        syncInterval: 0,
+      });
+
+      useVaultStore.getState().setIgnorePatterns(['drafts/']);
+      await switchVault(DEFAULT_VAULT_ID);
+      expect(useVaultStore.getState()).toMatchObject({
+        ignorePatterns: ['private/'],
+        changeDetection: 'status',
+        syncInterval: 5,
+      });
+
+      await switchVault(work.id);
+      expect(useVaultStore.getState().ignorePatterns).toEqual(['drafts/']);
+    });
+
+    it('should refuse to switch during a sync', async () => {
+      const vault = useVaultRegistry.getState().addVault('Work');
+      (syncManager.isSyncing as jest.Mock).mockReturnValue(true);
+
+      await expect(switchVault(vault.id)).rejects.toThrow('sync');
+      expect(useVaultRegistry.getState().activeVaultId).toBe(DEFAULT_VAULT_ID);
+    });
+  });
+
+  describe('renameVault', () => {
+    it('should update the header for the open vault', () => {
+      renameVault(DEFAULT_VAULT_ID, 'Notes');
+
+      expect(useVaultRegistry.getState().vaults[0]!.name).toBe('Notes');
+      expect(useVaultStore.getState().vaultName).toBe('Notes');
+    });
+  });
+
+  describe('deleteVault', () => {
+    it('should not remove the open vault', async () => {
+      await expect(deleteVault(DEFAULT_VAULT_ID)).rejects.toThrow(
+        'Switch to another vault',
+      );
+    });
+
+    it('should remove the files, credentials and index of a vault', async () => {
+      const work = await createVault('Work');
+      addToQueue('work.md', 'add');
+      await switchVault(DEFAULT_VAULT_ID);
+
+      await deleteVault(work.id);
+
+      expect(useVaultRegistry.getState().vaults.map(v => v.id)).toEqual([
+        DEFAULT_VAULT_ID,
+      ]);
+      expect(RNFS.unlink).toHaveBeenCalledWith(`/docs/vaults/${work.id}`);
+      expect(clearToken).toHaveBeenCalledWith(work.id);
+      expect(deleteIndexDB).toHaveBeenCalledWith(work.id);
+      expect(storage.has(vaultKey('sync-queue-storage', work.id))).toBe(false);
+    });
+  });
+});
@@ -1,23 +1,38 @@
 import * as Keychain from 'react-native-keychain';
 import type {GitAuth} from '../types';
+import {getActiveVaultId, vaultKey} from './vault-registry';
 
 const SERVICE_NAME = 'obsidian-git-mobile';
 
-export async function storeToken(auth: GitAuth): Promise<void> {
+// Each vault keeps its credentials in its own keychain entry
+function serviceFor(vaultId: string): string {
+  return vaultKey(SERVICE_NAME, vaultId);
+}
+
+export async function storeToken(
+  auth: GitAuth,
+  vaultId: string = getActiveVaultId(),
+): Promise<void> {
   const credentials = JSON.stringify(auth);
   await Keychain.setGenericPassword('git-auth', credentials, {
-    service: SERVICE_NAME,
+    service: serviceFor(vaultId),
   });
 }
 
-export async function getToken(): Promise<GitAuth | null> {
-  const result = await Keychain.getGenericPassword({service: SERVICE_NAME});
+export async function getToken(
+  vaultId: string = getActiveVaultId(),
+): Promise<GitAuth | null> {
+  const result = await Keychain.getGenericPassword({
+    service: serviceFor(vaultId),
+  });
   if (!result) {
     return null;
   }
   return JSON.parse(result.password) as GitAuth;
 }
 
-export async function clearToken(): Promise<void> {
-  await Keychain.resetGenericPassword({service: SERVICE_NAME});
+export async function clearToken(
+  vaultId: string = getActiveVaultId(),
+): Promise<void> {
+  await Keychain.resetGenericPassword({service: serviceFor(vaultId)});
 }
@@ -0,0 +1,63 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import type {FileConflict} from '../types';
+import {vaultScopedStorage} from './vault-registry';
+
+interface ConflictState {
+  conflicts: FileConflict[];
+  addConflicts: (conflicts: FileConflict[]) => void;
+  removeConflict: (path: string) => void;
+  clearConflicts: () => void;
+}
+
+export const useConflictStore = create<ConflictState>()(
+  persist(
+    set => ({
+      conflicts: [],
+
+      addConflicts: conflicts => {
+        set(state => {
+          const incoming = new Set(conflicts.map(conflict => conflict.path));
+          return {
+            conflicts: [
+              ...state.conflicts.filter(
+                conflict => !incoming.has(conflict.path),
+              ),
+              ...conflicts,
+            ],
+          };
+        });
+      },
+
+      removeConflict: path => {
+        set(state => ({
+          conflicts: state.conflicts.filter(conflict => conflict.path !== path),
+        }));
+      },
+
+      clearConflicts: () => set({conflicts: []}),
+    }),
+    {
+      name: 'conflict-storage',
+      storage: createJSONStorage(() => vaultScopedStorage),
+      skipHydration: true,
+      merge: (persisted, current) => ({
+        ...current,
+        conflicts:
+          (persisted as Partial<ConflictState> | undefined)?.conflicts ?? [],
+      }),
+    },
+  ),
+);
+
+export function addConflicts(conflicts: FileConflict[]): void {
+  useConflictStore.getState().addConflicts(conflicts);
+}
+
+export function getConflicts(): FileConflict[] {
+  return useConflictStore.getState().conflicts;
+}
+
+export function removeConflict(path: string): void {
+  useConflictStore.getState().removeConflict(path);
+}
@@ -6,6 +6,8 @@
  */
 
 import type {HttpClient} from 'isomorphic-git';
+import {errorHint} from './git-providers';
+import type {GitProvider} from './git-providers';
 
 async function collectBody(
   body: AsyncIterableIterator<Uint8Array> | undefined,
@@ -36,44 +38,56 @@ async function* streamFromArrayBuffer(
   yield new Uint8Array(buffer);
 }
 
-export const gitHttp: HttpClient = {
-  async request({url, method = 'GET', headers = {}, body}) {
-    const bodyData = await collectBody(body);
+/**
+ * Builds the client for one git host. With a provider, failed responses
+ * carry a hint about that host's token and scopes in `statusMessage`, which
+ * isomorphic-git includes in the HttpError it throws.
+ */
+export function createGitHttp(provider?: GitProvider): HttpClient {
+  return {
+    async request({url, method = 'GET', headers = {}, body}) {
+      const bodyData = await collectBody(body);
+
+      try {
+        const response = await fetch(url, {
+          method,
+          headers,
+          body: bodyData,
+        });
 
-    try {
-      const response = await fetch(url, {
-        method,
-        headers,
-        body: bodyData,
-      });
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, key) => {
+          responseHeaders[key.toLowerCase()] = value;
+        });
 
-      const responseHeaders: Record<string, string> = {};
-      response.headers.forEach((value, key) => {
-        responseHeaders[key.toLowerCase()] = value;
-      });
+        // Read entire response body as ArrayBuffer
+        const responseBuffer = await response.arrayBuffer();
 
-      // Read entire response body as ArrayBuffer
-      const responseBuffer = await response.arrayBuffer();
+        const reason = response.statusText || getStatusMessage(response.status);
+        const hint = provider && errorHint(provider, response.status);
 
-      return {
-        url: response.url,
-        method,
-        statusCode: response.status,
-        statusMessage: response.statusText || getStatusMessage(response.status),
-        headers: responseHeaders,
-        body: streamFromArrayBuffer(responseBuffer),
-      };
-    } catch (error) {
-      // Provide better error messages
-      if (error instanceof TypeError) {
-        throw new Error(
-          `Network error: ${error.message}. Check your internet connection.`,
-        );
+        return {
+          url: response.url,
+          method,
+          statusCode: response.status,
+          statusMessage: hint ? `${reason} - ${hint}` : reason,
+          headers: responseHeaders,
+          body: streamFromArrayBuffer(responseBuffer),
+        };
+      } catch (error) {
+        // Provide better error messages
+        if (error instanceof TypeError) {
+          throw new Error(
+            `Network error: ${error.message}. Check your internet connection.`,
+          );
+        }
+        throw error;
       }
-      throw error;
-    }
-  },
-};
+    },
+  };
+}
+
+export const gitHttp = createGitHttp();
 
 function getStatusMessage(status: number): string {
   const messages: Record<number, string> = {
@@ -83,9 +97,9 @@ function getStatusMessage(status: number): string {
     302: 'Found',
     304: 'Not Modified',
     400: 'Bad Request',
-    401: 'Unauthorized - Check your Personal Access Token',
-    403: 'Forbidden - Token may lack required permissions',
-    404: 'Not Found - Check the repository URL',
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
     500: 'Internal Server Error',
     502: 'Bad Gateway',
     503: 'Service Unavailable',
@@ -0,0 +1,143 @@
+import type {GitAuth, GitProviderId} from '../types';
+
+/**
+ * What the app needs to know about a git host: which username goes with a
+ * token over HTTPS, which scopes the token needs, and what to tell the user
+ * when the server rejects a request.
+ */
+export interface GitProvider {
+  id: GitProviderId;
+  name: string;
+  hosts: string[];
+  tokenName: string;
+  tokenPlaceholder: string;
+  tokenHelp: string;
+  scopes: string[];
+  usernameRequired: boolean;
+  // Sent as the HTTPS username when the user leaves it empty
+  defaultUsername?: string;
+  urlPlaceholder: string;
+}
+
+export const GIT_PROVIDERS: Record<GitProviderId, GitProvider> = {
+  github: {
+    id: 'github',
+    name: 'GitHub',
+    hosts: ['github.com'],
+    tokenName: 'Personal Access Token',
+    tokenPlaceholder: 'ghp_xxxxxxxxxxxx',
+    tokenHelp:
+      'Create a token at GitHub → Settings → Developer settings → Personal access tokens',
+    scopes: ['repo'],
+    usernameRequired: false,
+    defaultUsername: 'x-access-token',
+    urlPlaceholder: 'https://github.com/user/vault.git',
+  },
+  gitlab: {
+    id: 'gitlab',
+    name: 'GitLab',
+    hosts: ['gitlab.com'],
+    tokenName: 'Personal Access Token',
+    tokenPlaceholder: 'glpat-xxxxxxxxxxxx',
+    tokenHelp:
+      'Create a token at GitLab → Preferences → Access tokens with the read_repository and write_repository scopes',
+    scopes: ['read_repository', 'write_repository'],
+    usernameRequired: false,
+    defaultUsername: 'oauth2',
+    urlPlaceholder: 'https://gitlab.com/user/vault.git',
+  },
+  gitea: {
+    id: 'gitea',
+    name: 'Gitea / Forgejo',
+    hosts: ['codeberg.org', 'gitea.com'],
+    tokenName: 'Access Token',
+    tokenPlaceholder: 'xxxxxxxxxxxxxxxx',
+    tokenHelp:
+      'Create a token under Settings → Applications with read and write access to repositories',
+    scopes: ['write:repository'],
+    usernameRequired: true,
+    urlPlaceholder: 'https://codeberg.org/user/vault.git',
+  },
+  bitbucket: {
+    id: 'bitbucket',
+    name: 'Bitbucket',
+    hosts: ['bitbucket.org'],
+    tokenName: 'App Password',
+    tokenPlaceholder: 'ATBBxxxxxxxxxxxx',
+    tokenHelp:
+      'Create an app password under Personal settings → App passwords with Repositories: Write, and sign in with your Bitbucket username. Leave the username empty for a repository access token.',
+    scopes: ['repository:write'],
+    usernameRequired: false,
+    defaultUsername: 'x-token-auth',
+    urlPlaceholder: 'https://bitbucket.org/workspace/vault.git',
+  },
+  generic: {
+    id: 'generic',
+    name: 'Other',
+    hosts: [],
+    tokenName: 'Password or Token',
+    tokenPlaceholder: '',
+    tokenHelp: 'Use the credentials your server accepts for git over HTTPS',
+    scopes: [],
+    usernameRequired: true,
+    urlPlaceholder: 'https://git.example.com/user/vault.git',
+  },
+};
+
+export const GIT_PROVIDER_IDS = Object.keys(GIT_PROVIDERS) as GitProviderId[];
+
+function hostOf(url: string): string | null {
+  const match = /^[a-z]+:\/\/(?:[^@/]*@)?([^:/]+)/i.exec(url.trim());
+  return match ? match[1]!.toLowerCase() : null;
+}
+
+/** Guesses the provider from well-known hosts, e.g. for credentials saved before providers existed. */
+export function detectProvider(repoUrl?: string): GitProviderId {
+  const host = repoUrl ? hostOf(repoUrl) : null;
+  if (!host) {
+    return 'generic';
+  }
+  const provider = GIT_PROVIDER_IDS.find(id =>
+    GIT_PROVIDERS[id].hosts.some(
+      known => host === known || host.endsWith(`.${known}`),
+    ),
+  );
+  if (provider) {
+    return provider;
+  }
+  // Self-hosted instances usually keep the product in the host name
+  if (host.includes('gitlab')) return 'gitlab';
+  if (host.includes('gitea') || host.includes('forgejo')) return 'gitea';
+  return 'generic';
+}
+
+export function getProvider(auth: GitAuth): GitProvider {
+  return GIT_PROVIDERS[auth.provider ?? detectProvider(auth.repoUrl)];
+}
+
+export function authUsername(auth: GitAuth): string {
+  const provider = getProvider(auth);
+  return auth.username || provider.defaultUsername || '';
+}
+
+/** A hint for a failed HTTP response, naming the token and scopes to check. */
+export function errorHint(
+  provider: GitProvider,
+  status: number,
+): string | undefined {
+  const scopes = provider.scopes.length
+    ? ` with ${provider.scopes.join(', ')}`
+    : '';
+  switch (status) {
+    case 401:
+      return provider.usernameRequired
+        ? `Check your ${provider.name} username and ${provider.tokenName}`
+        : `Check your ${provider.name} ${provider.tokenName}`;
+    case 403:
+      return `Your ${provider.tokenName} needs write access${scopes}`;
+    case 404:
+      return `Check the repository URL and that your ${provider.tokenName} can access it`;
+    default:
+      return undefined;
+  }
+}
@@ -1,36 +1,156 @@
 import git from 'isomorphic-git';
+import type {HttpClient, ReadCommitResult, TreeEntry} from 'isomorphic-git';
 import * as RNFS from 'react-native-fs';
-import type {GitSync, GitAuth, PullResult, SyncStatus} from '../types';
-import {getQueue, clearQueue} from './sync-queue';
+import {Buffer} from 'buffer';
+import type {
+  GitSync,
+  GitAuth,
+  PullResult,
+  SyncStatus,
+  FileConflict,
+  SyncQueueItem,
+  CommitInfo,
+  FileChange,
+  ChangeDetection,
+  BranchInfo,
+  CloneOptions,
+  CloneProgressCallback,
+} from '../types';
+import {addToQueue, getQueue, removeFromQueue} from './sync-queue';
+import {addConflicts, getConflicts, removeConflict} from './conflict-store';
 import {getToken} from './auth';
 import {rnfsAdapter} from './rnfs-adapter';
-import {gitHttp} from './git-http';
+import {vaultFS} from './vault-fs';
+import {indexService} from './index-service';
+import {createGitHttp} from './git-http';
+import {authUsername, getProvider} from './git-providers';
+import {refreshIfExpired} from './github-oauth';
+import {vaultDir} from './vault-registry';
+import {merge3, renderMerge} from '../utils/merge';
+
+const DEFAULT_LOG_LIMIT = 100;
+const MAX_PUSH_ATTEMPTS = 3;
+
+type StatusRow = [string, number, number, number];
+
+interface RebaseResult {
+  head: string;
+  base: string;
+  conflicted: string[];
+}
+
+function isNonFastForward(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.name === 'PushRejectedError') {
+    return true;
+  }
+  // Rejected by the server rather than caught by the local ancestry check
+  return (
+    error.name === 'GitPushError' &&
+    /non-fast-forward|fetch first/i.test(error.message)
+  );
+}
+
+/**
+ * Maps `git.statusMatrix` rows to the changes needed to bring the index
+ * (and the next commit) in line with the working tree.
+ */
+function changesFromStatus(matrix: StatusRow[]): FileChange[] {
+  const changes: FileChange[] = [];
+  for (const [path, head, workdir, stage] of matrix) {
+    if (head === workdir) {
+      // Staged, then deleted before it was ever committed
+      if (head === 0 && stage !== 0) {
+        changes.push({path, action: 'delete'});
+      }
+      continue;
+    }
+    if (workdir === 0) {
+      changes.push({path, action: 'delete'});
+    } else {
+      changes.push({path, action: head === 0 ? 'add' : 'modify'});
+    }
+  }
+  return changes;
+}
 
-// Use actual device filesystem path
-const VAULT_DIR = `${RNFS.DocumentDirectoryPath}/vault`;
-const CONFLICTS_LOG = `${RNFS.DocumentDirectoryPath}/vault/conflicts.log`;
+function progressHandler(onProgress?: CloneProgressCallback) {
+  return onProgress
+    ? (event: {phase: string; loaded: number; total?: number}) => {
+        onProgress(event.phase, event.loaded, event.total);
+      }
+    : undefined;
+}
 
 export class GitSyncService implements GitSync {
   private fs: typeof rnfsAdapter;
   private pfs: typeof rnfsAdapter.promises;
   private auth: GitAuth | null = null;
+  private http: HttpClient = createGitHttp();
+  private changeDetection: ChangeDetection = 'queue';
+  private pushError: string | null = null;
 
   constructor() {
     this.fs = rnfsAdapter;
     this.pfs = rnfsAdapter.promises;
   }
 
+  // The active vault's working tree
+  private get dir(): string {
+    return vaultDir();
+  }
+
   setAuth(auth: GitAuth): void {
+    if (!this.auth || getProvider(this.auth) !== getProvider(auth)) {
+      this.http = createGitHttp(getProvider(auth));
+    }
     this.auth = auth;
   }
 
+  reset(): void {
+    this.auth = null;
+    this.pushError = null;
+  }
+
+  setChangeDetection(mode: ChangeDetection): void {
+    this.changeDetection = mode;
+  }
+
+  /**
+   * Local changes that have not been committed yet. In 'status' mode these
+   * come from comparing the working tree with HEAD, so writes that never
+   * reached the sync queue are still picked up. Ignored paths never count.
+   */
+  async getPendingChanges(): Promise<FileChange[]> {
+    let changes: FileChange[];
+    if (this.changeDetection === 'queue') {
+      changes = getQueue().map(({path, action}) => ({path, action}));
+    } else {
+      const matrix = await git.statusMatrix({
+        fs: this.fs,
+        dir: this.dir,
+      });
+      changes = changesFromStatus(matrix);
+    }
+
+    const pending: FileChange[] = [];
+    for (const change of changes) {
+      if (!(await vaultFS.isIgnored(change.path))) {
+        pending.push(change);
+      }
+    }
+    return pending;
+  }
+
   private getAuthConfig() {
     if (!this.auth) {
       throw new Error('Git auth not configured');
     }
     return {
       onAuth: () => ({
-        username: this.auth!.username || 'oauth2',
+        username: authUsername(this.auth!),
         password: this.auth!.token,
       }),
     };
@@ -39,73 +159,94 @@ export class GitSyncService implements GitSync {
   async clone(
     repoUrl: string,
     auth: GitAuth,
-    onProgress?: (phase: string, loaded: number, total?: number) => void,
+    onProgress?: CloneProgressCallback,
+    options: CloneOptions = {},
   ): Promise<void> {
     this.setAuth(auth);
 
-    const exists = await RNFS.exists(VAULT_DIR);
+    const exists = await RNFS.exists(this.dir);
     if (exists) {
-      await this.deleteRecursive(VAULT_DIR);
+      await this.deleteRecursive(this.dir);
     }
 
-    await this.pfs.mkdir(VAULT_DIR);
+    await this.pfs.mkdir(this.dir);
 
     await git.clone({
       fs: this.fs,
-      http: gitHttp,
-      dir: VAULT_DIR,
+      http: this.http,
+      dir: this.dir,
       url: repoUrl,
-      depth: 1,
+      ...(options.fullHistory ? {} : {depth: 1}),
       singleBranch: true,
       noTags: true,
-      onProgress: onProgress
-        ? (event: {phase: string; loaded: number; total?: number}) => {
-            onProgress(event.phase, event.loaded, event.total);
-          }
-        : undefined,
+      onProgress: progressHandler(onProgress),
+      ...this.getAuthConfig(),
+    });
+  }
+
+  async isShallow(): Promise<boolean> {
+    return RNFS.exists(`${this.dir}/.git/shallow`);
+  }
+
+  async fetchMoreHistory(
+    commits: number,
+    onProgress?: CloneProgressCallback,
+  ): Promise<void> {
+    await this.loadAuth();
+    const branch = await this.currentBranch();
+
+    // A relative depth deepens the existing shallow boundary by `commits`
+    await git.fetch({
+      fs: this.fs,
+      http: this.http,
+      dir: this.dir,
+      ref: branch,
+      remoteRef: `refs/heads/${branch}`,
+      depth: commits,
+      relative: true,
+      singleBranch: true,
+      tags: false,
+      onProgress: progressHandler(onProgress),
       ...this.getAuthConfig(),
     });
   }
 
   async pull(): Promise<PullResult> {
-    const auth = this.auth || (await getToken());
-    if (auth) {
-      this.setAuth(auth);
-    }
+    await this.loadAuth();
 
-    const queue = getQueue();
+    const beforeHead = await git.resolveRef({
+      fs: this.fs,
+      dir: this.dir,
+      ref: 'HEAD',
+    });
+
+    const localChanges = await this.getPendingChanges();
     const localDirtyFiles = new Map<string, string>();
 
-    for (const item of queue) {
+    for (const item of localChanges) {
       if (item.action !== 'delete') {
         try {
           const content = await this.pfs.readFile(
-            `${VAULT_DIR}/${item.path}`,
+            `${this.dir}/${item.path}`,
             {encoding: 'utf8'},
           );
-          localDirtyFiles.set(item.path, content as string);
+          // Queued files already committed (but not yet pushed) are replayed
+          // by the rebase; only edits that are not in HEAD are dirty
+          if (content !== (await this.readBlobText(beforeHead, item.path))) {
+            localDirtyFiles.set(item.path, content as string);
+          }
         } catch {
           // File might not exist yet
         }
       }
     }
 
-    const beforeHead = await git.resolveRef({
-      fs: this.fs,
-      dir: VAULT_DIR,
-      ref: 'HEAD',
-    });
-
-    // Get the current branch name first
-    const currentBranch = await git.currentBranch({
-      fs: this.fs,
-      dir: VAULT_DIR,
-    }) || 'main';
+    const currentBranch = await this.currentBranch();
 
     await git.fetch({
       fs: this.fs,
-      http: gitHttp,
-      dir: VAULT_DIR,
+      http: this.http,
+      dir: this.dir,
       ref: currentBranch,
       remoteRef: `refs/heads/${currentBranch}`,
       ...this.getAuthConfig(),
@@ -113,104 +254,291 @@ export class GitSyncService implements GitSync {
 
     const remoteRef = await git.resolveRef({
       fs: this.fs,
-      dir: VAULT_DIR,
+      dir: this.dir,
       ref: `refs/remotes/origin/${currentBranch}`,
     });
 
-    if (beforeHead === remoteRef) {
+    const rebase = await this.rebaseOnto(beforeHead, remoteRef);
+    if (rebase.head === beforeHead) {
       return {updated: [], conflicts: []};
     }
 
-    await git.checkout({
+    const changedFiles = await this.getChangedFiles(beforeHead, rebase.head);
+
+    // Move the branch itself rather than checking out the remote commit, so
+    // HEAD stays attached and later commits can be pushed.
+    await git.writeRef({
       fs: this.fs,
-      dir: VAULT_DIR,
-      ref: remoteRef,
+      dir: this.dir,
+      ref: `refs/heads/${currentBranch}`,
+      value: rebase.head,
       force: true,
     });
 
-    const updated: string[] = [];
-    const conflicts: string[] = [];
+    await git.checkout({
+      fs: this.fs,
+      dir: this.dir,
+      ref: currentBranch,
+      force: true,
+    });
 
-    const changedFiles = await this.getChangedFiles(beforeHead, remoteRef);
-    updated.push(...changedFiles);
+    const updated: string[] = [...changedFiles];
+    const conflicts: FileConflict[] = [];
+    const rebaseConflicts = new Set(rebase.conflicted);
 
+    // The forced checkout overwrites the working tree, so every dirty file is
+    // written back: untouched upstream as-is, otherwise three-way merged.
     for (const [path, localContent] of localDirtyFiles) {
-      if (changedFiles.includes(path)) {
-        conflicts.push(path);
-        await this.pfs.writeFile(`${VAULT_DIR}/${path}`, localContent);
-        await this.logConflict(path);
+      if (rebaseConflicts.has(path)) {
+        continue;
+      }
+      if (!changedFiles.includes(path)) {
+        await this.pfs.writeFile(`${this.dir}/${path}`, localContent);
+        continue;
+      }
+
+      const base = (await this.readBlobText(beforeHead, path)) ?? '';
+      const incoming = (await this.readBlobText(rebase.head, path)) ?? '';
+      const result = merge3(base, localContent, incoming);
+
+      if (result.clean) {
+        await this.pfs.writeFile(
+          `${this.dir}/${path}`,
+          renderMerge(result.regions, result.hunks, hunk => hunk.local),
+        );
+      } else {
+        // Keep the local version on disk until the conflict is resolved
+        await this.pfs.writeFile(`${this.dir}/${path}`, localContent);
+        conflicts.push({path, hunks: result.hunks, regions: result.regions});
+        await this.logConflict(path, result.hunks.length);
+      }
+    }
+
+    // Local commits that could not be replayed cleanly left the remote
+    // version in the new branch; put the local version back for resolving,
+    // including any edits made on top of those commits.
+    for (const path of rebase.conflicted) {
+      const base = (await this.readBlobText(rebase.base, path)) ?? '';
+      const localContent =
+        localDirtyFiles.get(path) ?? (await this.readBlobText(beforeHead, path)) ?? '';
+      const incoming = (await this.readBlobText(remoteRef, path)) ?? '';
+      const result = merge3(base, localContent, incoming);
+
+      await this.pfs.writeFile(`${this.dir}/${path}`, localContent);
+      addToQueue(path, 'modify');
+      conflicts.push({path, hunks: result.hunks, regions: result.regions});
+      await this.logConflict(path, result.hunks.length);
+    }
+
+    // Local deletions are undone by the checkout too; remove them again
+    // unless upstream changed the file in the meantime.
+    for (const change of localChanges) {
+      if (change.action === 'delete' && !changedFiles.includes(change.path)) {
+        try {
+          await RNFS.unlink(`${this.dir}/${change.path}`);
+        } catch {
+          // Already gone
+        }
       }
     }
 
+    if (conflicts.length > 0) {
+      addConflicts(conflicts);
+    }
+
     return {updated, conflicts};
   }
 
-  async commitAndPush(message: string): Promise<void> {
-    const auth = this.auth || (await getToken());
-    if (auth) {
-      this.setAuth(auth);
-    }
+  async commitAndPush(
+    message: string,
+    onPushing?: () => void,
+  ): Promise<void> {
+    await this.loadAuth();
 
-    const queue = getQueue();
+    // Files with unresolved conflicts stay queued until resolved
+    const conflicted = new Set(getConflicts().map(conflict => conflict.path));
+    const queue = getQueue().filter(item => !conflicted.has(item.path));
+    const changes = (await this.getPendingChanges()).filter(
+      change => !conflicted.has(change.path),
+    );
 
-    for (const item of queue) {
-      const filepath = item.path;
-      if (item.action === 'delete') {
-        await git.remove({
-          fs: this.fs,
-          dir: VAULT_DIR,
-          filepath,
-        });
-      } else {
-        await git.add({
-          fs: this.fs,
-          dir: VAULT_DIR,
-          filepath,
-        });
-      }
+    for (const change of changes) {
+      await this.stage(change);
     }
 
     const status = await git.statusMatrix({
       fs: this.fs,
-      dir: VAULT_DIR,
+      dir: this.dir,
     });
 
-    const hasChanges = status.some(
-      ([, head, workdir, stage]) =>
-        head !== workdir || head !== stage || workdir !== stage,
-    );
+    const hasStagedChanges = status.some(([, head, , stage]) => head !== stage);
+    const hasUnpushedCommits = await this.hasUnpushedCommits();
 
-    if (!hasChanges) {
-      clearQueue();
+    if (!hasStagedChanges && !hasUnpushedCommits) {
+      this.dequeue(queue);
       return;
     }
 
-    await git.commit({
+    if (hasStagedChanges) {
+      await this.commit(message);
+    }
+
+    onPushing?.();
+    await this.pushWithRetry();
+
+    // A retry may have turned some of the queued files into conflicts
+    const stillConflicted = new Set(
+      getConflicts().map(conflict => conflict.path),
+    );
+    this.dequeue(queue.filter(item => !stillConflicted.has(item.path)));
+  }
+
+  async resolveConflict(path: string, content: string): Promise<void> {
+    await this.loadAuth();
+
+    await this.pfs.writeFile(`${this.dir}/${path}`, content);
+    await git.add({
       fs: this.fs,
-      dir: VAULT_DIR,
-      message,
-      author: {
-        name: this.auth?.username || 'Obsidian Git Mobile',
-        email: `${this.auth?.username || 'user'}@obsidian-git-mobile.local`,
-      },
+      dir: this.dir,
+      filepath: path,
     });
+    await this.commit(`Resolve conflict in ${path}`);
+
+    removeFromQueue(path);
+    removeConflict(path);
+    // Runs in the background; search catches up with the merged text
+    indexService.reindexPaths([path]);
+  }
+
+  async log(
+    path?: string,
+    limit: number = DEFAULT_LOG_LIMIT,
+  ): Promise<CommitInfo[]> {
+    const entries = await git.log({
+      fs: this.fs,
+      dir: this.dir,
+      filepath: path,
+      depth: limit,
+      force: true,
+    });
+
+    return entries.map(entry => ({
+      oid: entry.oid,
+      message: entry.commit.message.trim(),
+      authorName: entry.commit.author.name,
+      authorEmail: entry.commit.author.email,
+      timestamp: entry.commit.author.timestamp * 1000,
+      parents: entry.commit.parent,
+    }));
+  }
 
-    await git.push({
+  async readFileAt(path: string, ref: string): Promise<string | null> {
+    const oid = await git.resolveRef({
       fs: this.fs,
-      http: gitHttp,
-      dir: VAULT_DIR,
+      dir: this.dir,
+      ref,
+    });
+    return this.readBlobText(oid, path);
+  }
+
+  async listBranches(): Promise<BranchInfo[]> {
+    await this.loadAuth();
+
+    const [current, local, url] = await Promise.all([
+      git.currentBranch({fs: this.fs, dir: this.dir}),
+      git.listBranches({fs: this.fs, dir: this.dir}),
+      git.getConfig({fs: this.fs, dir: this.dir, path: 'remote.origin.url'}),
+    ]);
+    const serverRefs = await git.listServerRefs({
+      http: this.http,
+      url,
+      prefix: 'refs/heads/',
       ...this.getAuthConfig(),
     });
+    const remote = serverRefs.map(ref => ref.ref.replace('refs/heads/', ''));
+
+    const names = [...new Set([...local, ...remote])].sort();
+    return names.map(name => ({
+      name,
+      current: name === current,
+      local: local.includes(name),
+      remote: remote.includes(name),
+    }));
+  }
 
-    clearQueue();
+  async switchBranch(name: string): Promise<void> {
+    await this.loadAuth();
+
+    if ((await this.getPendingChanges()).length > 0) {
+      throw new Error('Sync your changes before switching branches');
+    }
+
+    const local = await git.listBranches({fs: this.fs, dir: this.dir});
+    if (!local.includes(name)) {
+      // Clones are single-branch, so other branches have to be fetched
+      // before checkout can create a local branch tracking them. A full
+      // history clone stays full.
+      const shallow = await this.isShallow();
+      await git.fetch({
+        fs: this.fs,
+        http: this.http,
+        dir: this.dir,
+        ref: name,
+        remoteRef: `refs/heads/${name}`,
+        ...(shallow ? {depth: 1} : {}),
+        singleBranch: true,
+        tags: false,
+        ...this.getAuthConfig(),
+      });
+    }
+
+    await git.checkout({fs: this.fs, dir: this.dir, ref: name});
+    this.pushError = null;
+  }
+
+  async createBranch(name: string): Promise<void> {
+    await this.loadAuth();
+
+    const previous =
+      (await git.currentBranch({fs: this.fs, dir: this.dir})) ??
+      (await git.resolveRef({fs: this.fs, dir: this.dir, ref: 'HEAD'}));
+    await git.branch({fs: this.fs, dir: this.dir, ref: name, checkout: true});
+    try {
+      await git.push({
+        fs: this.fs,
+        http: this.http,
+        dir: this.dir,
+        ref: name,
+        remoteRef: `refs/heads/${name}`,
+        ...this.getAuthConfig(),
+      });
+    } catch (error) {
+      // Without the push the branch has no upstream, so undo it and leave
+      // the vault where it was
+      await git.checkout({fs: this.fs, dir: this.dir, ref: previous});
+      await git.deleteBranch({fs: this.fs, dir: this.dir, ref: name});
+      throw error;
+    }
+    await git.setConfig({
+      fs: this.fs,
+      dir: this.dir,
+      path: `branch.${name}.remote`,
+      value: 'origin',
+    });
+    await git.setConfig({
+      fs: this.fs,
+      dir: this.dir,
+      path: `branch.${name}.merge`,
+      value: `refs/heads/${name}`,
+    });
+    this.pushError = null;
   }
 
   async status(): Promise<SyncStatus> {
-    const queue = getQueue();
-    const pendingChanges = queue.length;
+    let pendingChanges = getQueue().length;
 
     try {
-      await this.pfs.stat(`${VAULT_DIR}/.git`);
+      await this.pfs.stat(`${this.dir}/.git`);
     } catch {
       return {
         state: 'offline',
@@ -220,6 +548,8 @@ export class GitSyncService implements GitSync {
     }
 
     try {
+      pendingChanges = (await this.getPendingChanges()).length;
+
       const auth = this.auth || (await getToken());
       if (!auth) {
         return {
@@ -232,7 +562,7 @@ export class GitSyncService implements GitSync {
 
       const log = await git.log({
         fs: this.fs,
-        dir: VAULT_DIR,
+        dir: this.dir,
         depth: 1,
       });
 
@@ -240,6 +570,15 @@ export class GitSyncService implements GitSync {
         ? log[0].commit.committer.timestamp * 1000
         : null;
 
+      if (this.pushError) {
+        return {
+          state: 'error',
+          pendingChanges,
+          lastSyncAt,
+          error: this.pushError,
+        };
+      }
+
       if (pendingChanges > 0) {
         return {
           state: 'pending',
@@ -263,6 +602,295 @@ export class GitSyncService implements GitSync {
     }
   }
 
+  private async loadAuth(): Promise<void> {
+    const auth = this.auth || (await getToken());
+    if (auth) {
+      this.setAuth(await refreshIfExpired(auth));
+    }
+  }
+
+  private async currentBranch(): Promise<string> {
+    const branch = await git.currentBranch({fs: this.fs, dir: this.dir});
+    if (!branch) {
+      throw new Error('HEAD is not on a branch. Pick a branch in Settings.');
+    }
+    return branch;
+  }
+
+  private identity(): {name: string; email: string} {
+    return {
+      name: this.auth?.username || 'Obsidian Git Mobile',
+      email: `${this.auth?.username || 'user'}@obsidian-git-mobile.local`,
+    };
+  }
+
+  private async commit(message: string): Promise<void> {
+    await git.commit({
+      fs: this.fs,
+      dir: this.dir,
+      message,
+      author: this.identity(),
+    });
+  }
+
+  /**
+   * Pushes the current branch. When the remote has moved on, pulls (which
+   * replays local commits on top of it) and tries again, a bounded number
+   * of times.
+   */
+  private async pushWithRetry(): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await git.push({
+          fs: this.fs,
+          http: this.http,
+          dir: this.dir,
+          ...this.getAuthConfig(),
+        });
+        this.pushError = null;
+        return;
+      } catch (error) {
+        if (!isNonFastForward(error)) {
+          throw error;
+        }
+        if (attempt >= MAX_PUSH_ATTEMPTS) {
+          this.pushError = `Push rejected ${attempt} times because the remote kept changing. Sync again to retry.`;
+          throw new Error(this.pushError);
+        }
+      }
+      await this.pull();
+    }
+  }
+
+  /**
+   * Rebases `localHead` onto `remoteHead`. Files that cannot be merged are
+   * left at their remote version and reported in `conflicted`.
+   */
+  private async rebaseOnto(
+    localHead: string,
+    remoteHead: string,
+  ): Promise<RebaseResult> {
+    if (localHead === remoteHead) {
+      return {head: localHead, base: localHead, conflicted: []};
+    }
+
+    const [base] = await git.findMergeBase({
+      fs: this.fs,
+      dir: this.dir,
+      oids: [localHead, remoteHead],
+    });
+    if (!base) {
+      throw new Error('Local and remote history have no commit in common');
+    }
+    if (base === localHead) {
+      return {head: remoteHead, base, conflicted: []};
+    }
+    if (base === remoteHead) {
+      return {head: localHead, base, conflicted: []};
+    }
+
+    let tip = remoteHead;
+    const conflicted = new Set<string>();
+
+    for (const {oid, commit} of await this.commitsSince(base, localHead)) {
+      const parent = commit.parent[0] ?? base;
+      const changes = new Map<string, string | null>();
+
+      for (const path of await this.getChangedFiles(parent, oid)) {
+        const original = await this.readBlobOid(parent, path);
+        const mine = await this.readBlobOid(oid, path);
+        if (mine === original) {
+          continue;
+        }
+        const theirs = await this.readBlobOid(tip, path);
+        if (theirs === mine) {
+          continue;
+        }
+        if (theirs === original) {
+          changes.set(path, mine);
+        } else if (mine === null || theirs === null) {
+          // Edited on one side and deleted on the other: keep the edit
+          if (mine !== null) {
+            changes.set(path, mine);
+          }
+        } else {
+          const result = merge3(
+            (await this.readBlobText(parent, path)) ?? '',
+            (await this.readBlobText(oid, path)) ?? '',
+            (await this.readBlobText(tip, path)) ?? '',
+          );
+          if (result.clean) {
+            const merged = renderMerge(
+              result.regions,
+              result.hunks,
+              hunk => hunk.local,
+            );
+            changes.set(
+              path,
+              await git.writeBlob({
+                fs: this.fs,
+                dir: this.dir,
+                blob: Buffer.from(merged, 'utf8'),
+              }),
+            );
+          } else {
+            conflicted.add(path);
+          }
+        }
+      }
+
+      if (changes.size === 0) {
+        continue;
+      }
+
+      const {commit: tipCommit} = await git.readCommit({
+        fs: this.fs,
+        dir: this.dir,
+        oid: tip,
+      });
+      const tree =
+        (await this.writeTreeWith(tipCommit.tree, changes)) ??
+        (await git.writeTree({fs: this.fs, dir: this.dir, tree: []}));
+
+      tip = await git.commit({
+        fs: this.fs,
+        dir: this.dir,
+        message: commit.message,
+        author: commit.author,
+        committer: this.identity(),
+        tree,
+        parent: [tip],
+        noUpdateBranch: true,
+      });
+    }
+
+    return {head: tip, base, conflicted: [...conflicted]};
+  }
+
+  /** First-parent commits after `base` up to `head`, oldest first. */
+  private async commitsSince(
+    base: string,
+    head: string,
+  ): Promise<ReadCommitResult[]> {
+    const commits: ReadCommitResult[] = [];
+    let oid: string | undefined = head;
+    while (oid && oid !== base) {
+      const entry = await git.readCommit({fs: this.fs, dir: this.dir, oid});
+      commits.unshift(entry);
+      oid = entry.commit.parent[0];
+    }
+    return commits;
+  }
+
+  /**
+   * Writes a copy of a tree with the given paths set to new blob oids, or
+   * removed where the oid is null. Returns null if the tree ends up empty.
+   */
+  private async writeTreeWith(
+    treeOid: string | null,
+    changes: Map<string, string | null>,
+  ): Promise<string | null> {
+    const entries = new Map<string, TreeEntry>();
+    if (treeOid) {
+      const {tree} = await git.readTree({
+        fs: this.fs,
+        dir: this.dir,
+        oid: treeOid,
+      });
+      for (const entry of tree) {
+        entries.set(entry.path, entry);
+      }
+    }
+
+    const nested = new Map<string, Map<string, string | null>>();
+    for (const [path, oid] of changes) {
+      const slash = path.indexOf('/');
+      if (slash !== -1) {
+        const name = path.slice(0, slash);
+        const subChanges = nested.get(name) ?? new Map();
+        subChanges.set(path.slice(slash + 1), oid);
+        nested.set(name, subChanges);
+      } else if (oid === null) {
+        entries.delete(path);
+      } else {
+        const mode = entries.get(path)?.mode ?? '100644';
+        entries.set(path, {mode, path, oid, type: 'blob'});
+      }
+    }
+
+    for (const [name, subChanges] of nested) {
+      const existing = entries.get(name);
+      const oid = await this.writeTreeWith(
+        existing?.type === 'tree' ? existing.oid : null,
+        subChanges,
+      );
+      if (oid) {
+        entries.set(name, {mode: '040000', path: name, oid, type: 'tree'});
+      } else {
+        entries.delete(name);
+      }
+    }
+
+    if (entries.size === 0) {
+      return null;
+    }
+    return git.writeTree({
+      fs: this.fs,
+      dir: this.dir,
+      tree: [...entries.values()],
+    });
+  }
+
+  private async hasUnpushedCommits(): Promise<boolean> {
+    try {
+      const branch = await git.currentBranch({fs: this.fs, dir: this.dir});
+      if (!branch) {
+        return false;
+      }
+      const [head, remote] = await Promise.all([
+        git.resolveRef({fs: this.fs, dir: this.dir, ref: 'HEAD'}),
+        git.resolveRef({
+          fs: this.fs,
+          dir: this.dir,
+          ref: `refs/remotes/origin/${branch}`,
+        }),
+      ]);
+      return head !== remote;
+    } catch {
+      return false;
+    }
+  }
+
+  private async stage(change: FileChange): Promise<void> {
+    const filepath = change.path;
+    if (change.action !== 'delete') {
+      try {
+        await git.add({
+          fs: this.fs,
+          dir: this.dir,
+          filepath,
+        });
+        return;
+      } catch (error) {
+        // Removed after it was queued; stage the removal instead
+        if (!(error instanceof Error && error.name === 'NotFoundError')) {
+          throw error;
+        }
+      }
+    }
+    await git.remove({
+      fs: this.fs,
+      dir: this.dir,
+      filepath,
+    });
+  }
+
+  private dequeue(items: SyncQueueItem[]): void {
+    for (const item of items) {
+      removeFromQueue(item.path);
+    }
+  }
+
   private async getChangedFiles(
     fromRef: string,
     toRef: string,
@@ -277,7 +905,7 @@ export class GitSyncService implements GitSync {
 
       await git.walk({
         fs: this.fs,
-        dir: VAULT_DIR,
+        dir: this.dir,
         trees,
         map: async (filepath, [a, b]) => {
           if (filepath === '.') {
@@ -300,17 +928,54 @@ export class GitSyncService implements GitSync {
     return changedFiles;
   }
 
-  private async logConflict(path: string): Promise<void> {
+  private async readBlobOid(
+    oid: string,
+    filepath: string,
+  ): Promise<string | null> {
+    try {
+      const blob = await git.readBlob({
+        fs: this.fs,
+        dir: this.dir,
+        oid,
+        filepath,
+      });
+      return blob.oid;
+    } catch {
+      return null;
+    }
+  }
+
+  private async readBlobText(
+    oid: string,
+    filepath: string,
+  ): Promise<string | null> {
+    try {
+      const {blob} = await git.readBlob({
+        fs: this.fs,
+        dir: this.dir,
+        oid,
+        filepath,
+      });
+      return Buffer.from(blob).toString('utf8');
+    } catch {
+      // File does not exist at this commit
+      return null;
+    }
+  }
+
+  private async logConflict(path: string, hunkCount: number): Promise<void> {
     const timestamp = new Date().toISOString();
-    const entry = `${timestamp}: LWW conflict resolved for ${path} (local version kept)\n`;
+    const entry = `${timestamp}: merge conflict in ${path} (${hunkCount} hunks, local version kept)\n`;
+    // Inside .git, so the log is never committed with the vault
+    const logPath = `${this.dir}/.git/conflicts.log`;
 
     try {
-      const existing = await this.pfs.readFile(CONFLICTS_LOG, {
+      const existing = await this.pfs.readFile(logPath, {
         encoding: 'utf8',
       });
-      await this.pfs.writeFile(CONFLICTS_LOG, existing + entry);
+      await this.pfs.writeFile(logPath, existing + entry);
     } catch {
-      await this.pfs.writeFile(CONFLICTS_LOG, entry);
+      await this.pfs.writeFile(logPath, entry);
     }
   }
 
@@ -0,0 +1,244 @@
+/**
+ * GitHub sign-in with the OAuth device authorization flow: the app shows a
+ * short code, the user enters it on github.com, and the app polls until
+ * GitHub hands out a token.
+ *
+ * The HTTP exchange only depends on `fetch` and a base URL so it can be run
+ * against a local server in tests.
+ */
+
+import {storeToken} from './auth';
+import type {GitAuth} from '../types';
+import {githubClientId} from '../../app.json';
+
+// Client ID of the app's GitHub OAuth app, which must have device flow
+// enabled, set per build in app.json. Client IDs are public; there is no
+// secret in this flow. Without one, sign-in is not offered.
+export const GITHUB_CLIENT_ID: string = githubClientId;
+
+const GITHUB_URL = 'https://github.com';
+const DEVICE_GRANT = 'urn:ietf:params:oauth:grant-type:device_code';
+const SCOPE = 'repo';
+// Refresh a little early so a sync never starts with a token about to lapse
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// Added to the poll interval when GitHub answers `slow_down`
+const SLOW_DOWN_SECONDS = 5;
+
+export interface DeviceCode {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  expiresAt: number;
+  // Seconds to wait between polls
+  interval: number;
+}
+
+export interface OAuthToken {
+  accessToken: string;
+  // Only issued when the app opts into expiring tokens
+  refreshToken?: string;
+  expiresAt?: number;
+  refreshTokenExpiresAt?: number;
+}
+
+export interface OAuthOptions {
+  baseUrl?: string;
+  clientId?: string;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  signal?: AbortSignal;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  refresh_token_expires_in?: number;
+  interval?: number;
+  error?: string;
+  error_description?: string;
+}
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+function resolveOptions(options: OAuthOptions) {
+  const clientId = options.clientId ?? GITHUB_CLIENT_ID;
+  if (!clientId) {
+    throw new Error('GitHub sign-in is not configured in this build');
+  }
+  return {
+    baseUrl: options.baseUrl ?? GITHUB_URL,
+    clientId,
+    now: options.now ?? Date.now,
+    sleep: options.sleep ?? wait,
+    signal: options.signal,
+  };
+}
+
+async function postForm<T>(
+  url: string,
+  params: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: Object.entries(params)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+      .join('&'),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`GitHub sign-in failed: HTTP ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+function toOAuthToken(response: TokenResponse, now: number): OAuthToken {
+  return {
+    accessToken: response.access_token!,
+    refreshToken: response.refresh_token,
+    expiresAt: response.expires_in
+      ? now + response.expires_in * 1000
+      : undefined,
+    refreshTokenExpiresAt: response.refresh_token_expires_in
+      ? now + response.refresh_token_expires_in * 1000
+      : undefined,
+  };
+}
+
+function checkAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('Sign-in cancelled');
+  }
+}
+
+export async function requestDeviceCode(
+  options: OAuthOptions = {},
+): Promise<DeviceCode> {
+  const {baseUrl, clientId, now, signal} = resolveOptions(options);
+  const response = await postForm<{
+    device_code: string;
+    user_code: string;
+    verification_uri: string;
+    expires_in: number;
+    interval: number;
+  }>(`${baseUrl}/login/device/code`, {client_id: clientId, scope: SCOPE}, signal);
+
+  return {
+    deviceCode: response.device_code,
+    userCode: response.user_code,
+    verificationUri: response.verification_uri,
+    expiresAt: now() + response.expires_in * 1000,
+    interval: response.interval,
+  };
+}
+
+/**
+ * Polls until the user approves or denies the code, or it expires.
+ * Aborting `signal` stops polling with a "Sign-in cancelled" error.
+ */
+export async function pollForToken(
+  code: DeviceCode,
+  options: OAuthOptions = {},
+): Promise<OAuthToken> {
+  const {baseUrl, clientId, now, sleep, signal} = resolveOptions(options);
+  let interval = code.interval;
+
+  for (;;) {
+    await sleep(interval * 1000);
+    checkAborted(signal);
+    if (now() >= code.expiresAt) {
+      throw new Error('The sign-in code expired. Start again.');
+    }
+
+    const response = await postForm<TokenResponse>(
+      `${baseUrl}/login/oauth/access_token`,
+      {client_id: clientId, device_code: code.deviceCode, grant_type: DEVICE_GRANT},
+      signal,
+    );
+    if (response.access_token) {
+      return toOAuthToken(response, now());
+    }
+
+    switch (response.error) {
+      case 'authorization_pending':
+        break;
+      case 'slow_down':
+        interval = response.interval ?? interval + SLOW_DOWN_SECONDS;
+        break;
+      case 'expired_token':
+        throw new Error('The sign-in code expired. Start again.');
+      case 'access_denied':
+        throw new Error('Sign-in was denied on GitHub');
+      default:
+        throw new Error(
+          response.error_description ||
+            `GitHub sign-in failed: ${response.error ?? 'no token returned'}`,
+        );
+    }
+  }
+}
+
+export async function refreshToken(
+  token: string,
+  options: OAuthOptions = {},
+): Promise<OAuthToken> {
+  const {baseUrl, clientId, now, signal} = resolveOptions(options);
+  const response = await postForm<TokenResponse>(
+    `${baseUrl}/login/oauth/access_token`,
+    {client_id: clientId, grant_type: 'refresh_token', refresh_token: token},
+    signal,
+  );
+  if (!response.access_token) {
+    throw new Error('Your GitHub sign-in expired. Sign in again in Settings.');
+  }
+  return toOAuthToken(response, now());
+}
+
+export function toGitAuth(token: OAuthToken, auth: Partial<GitAuth> = {}): GitAuth {
+  return {
+    ...auth,
+    type: 'oauth',
+    provider: 'github',
+    token: token.accessToken,
+    refreshToken: token.refreshToken ?? auth.refreshToken,
+    expiresAt: token.expiresAt,
+    refreshTokenExpiresAt:
+      token.refreshTokenExpiresAt ?? auth.refreshTokenExpiresAt,
+  };
+}
+
+/**
+ * Returns `auth` unchanged unless it is an OAuth token close to expiry, in
+ * which case it is refreshed and the new token stored in the keychain.
+ */
+export async function refreshIfExpired(
+  auth: GitAuth,
+  options: OAuthOptions = {},
+): Promise<GitAuth> {
+  const now = (options.now ?? Date.now)();
+  if (
+    auth.type !== 'oauth' ||
+    !auth.expiresAt ||
+    auth.expiresAt - REFRESH_MARGIN_MS > now
+  ) {
+    return auth;
+  }
+  if (
+    !auth.refreshToken ||
+    (auth.refreshTokenExpiresAt && auth.refreshTokenExpiresAt <= now)
+  ) {
+    throw new Error('Your GitHub sign-in expired. Sign in again in Settings.');
+  }
+
+  const refreshed = toGitAuth(
+    await refreshToken(auth.refreshToken, options),
+    auth,
+  );
+  await storeToken(refreshed);
+  return refreshed;
+}
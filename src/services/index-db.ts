@@ -1,7 +1,18 @@
-import {open, QuickSQLiteConnection} from 'react-native-quick-sqlite';
-import type {IndexDB, FileMeta, SearchResult} from '../types';
-
-const DB_NAME = 'vault_index.db';
+import {open, QuickSQLite, QuickSQLiteConnection} from 'react-native-quick-sqlite';
+import type {
+  IndexDB,
+  FileMeta,
+  NoteProperty,
+  NoteTag,
+  SearchResult,
+} from '../types';
+import {vaultDbName} from './vault-registry';
+import {compileSearchQuery} from './search-query';
+
+// Bumped when indexed data changes shape; older indexes are cleared and
+// rebuilt by the next full index. 1: links stored by resolved path.
+// 2: markdown links to notes are stored too. 3: tags. 4: properties.
+const SCHEMA_VERSION = 4;
 
 export class SQLiteIndexDB implements IndexDB {
   private db: QuickSQLiteConnection | null = null;
@@ -32,7 +43,8 @@ export class SQLiteIndexDB implements IndexDB {
   }
 
   private async _doInit(): Promise<void> {
-    this.db = open({name: DB_NAME});
+    // Each vault has its own database; close() and init() again after switching
+    this.db = open({name: vaultDbName()});
 
     this.db.execute(`
       CREATE TABLE IF NOT EXISTS files (
@@ -55,6 +67,35 @@ export class SQLiteIndexDB implements IndexDB {
       CREATE INDEX IF NOT EXISTS idx_links_target ON links(target_path)
     `);
 
+    this.db.execute(`
+      CREATE TABLE IF NOT EXISTS tags (
+        path TEXT,
+        tag TEXT,
+        PRIMARY KEY (path, tag)
+      )
+    `);
+
+    this.db.execute(`
+      CREATE INDEX IF NOT EXISTS idx_tags_tag ON tags(tag)
+    `);
+
+    this.db.execute(`
+      CREATE TABLE IF NOT EXISTS properties (
+        path TEXT,
+        key TEXT,
+        value TEXT,
+        type TEXT
+      )
+    `);
+
+    this.db.execute(`
+      CREATE INDEX IF NOT EXISTS idx_properties_path ON properties(path)
+    `);
+
+    this.db.execute(`
+      CREATE INDEX IF NOT EXISTS idx_properties_key ON properties(key, value)
+    `);
+
     const ftsCheck = this.db.execute(
       "SELECT name FROM sqlite_master WHERE type='table' AND name='fts'",
     );
@@ -64,6 +105,17 @@ export class SQLiteIndexDB implements IndexDB {
       `);
     }
 
+    const versionResult = this.db.execute('PRAGMA user_version');
+    const version: number = versionResult.rows?.item(0)?.user_version ?? 0;
+    if (version < SCHEMA_VERSION) {
+      this.db.execute('DELETE FROM files');
+      this.db.execute('DELETE FROM links');
+      this.db.execute('DELETE FROM tags');
+      this.db.execute('DELETE FROM properties');
+      this.db.execute('DELETE FROM fts');
+      this.db.execute(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+    }
+
     this._isReady = true;
   }
 
@@ -74,6 +126,19 @@ export class SQLiteIndexDB implements IndexDB {
     return this.db;
   }
 
+  private transaction(work: (db: QuickSQLiteConnection) => void): void {
+    const db = this.ensureDb();
+
+    db.execute('BEGIN TRANSACTION');
+    try {
+      work(db);
+      db.execute('COMMIT');
+    } catch (error) {
+      db.execute('ROLLBACK');
+      throw error;
+    }
+  }
+
   async upsertFileMeta(file: FileMeta): Promise<void> {
     const db = this.ensureDb();
     db.execute(
@@ -125,10 +190,7 @@ export class SQLiteIndexDB implements IndexDB {
   }
 
   async updateLinksForFile(sourcePath: string, links: string[]): Promise<void> {
-    const db = this.ensureDb();
-
-    db.execute('BEGIN TRANSACTION');
-    try {
+    this.transaction(db => {
       db.execute('DELETE FROM links WHERE source_path = ?', [sourcePath]);
 
       for (const targetPath of links) {
@@ -137,12 +199,7 @@ export class SQLiteIndexDB implements IndexDB {
           [sourcePath, targetPath],
         );
       }
-
-      db.execute('COMMIT');
-    } catch (error) {
-      db.execute('ROLLBACK');
-      throw error;
-    }
+    });
   }
 
   async getBacklinks(targetPath: string): Promise<string[]> {
@@ -174,25 +231,12 @@ export class SQLiteIndexDB implements IndexDB {
   async ftsSearch(query: string): Promise<SearchResult[]> {
     const db = this.ensureDb();
 
-    const sanitizedQuery = query
-      .replace(/['"]/g, '')
-      .split(/\s+/)
-      .filter(Boolean)
-      .map((term) => `"${term}"*`)
-      .join(' ');
-
-    if (!sanitizedQuery) {
+    const compiled = compileSearchQuery(query);
+    if (!compiled) {
       return [];
     }
 
-    const result = db.execute(
-      `SELECT path, title, snippet(fts, 2, '**', '**', '...', 32) as snippet, rank
-       FROM fts
-       WHERE fts MATCH ?
-       ORDER BY rank
-       LIMIT 50`,
-      [sanitizedQuery],
-    );
+    const result = db.execute(compiled.sql, compiled.params);
 
     const results: SearchResult[] = [];
     if (result.rows) {
@@ -209,19 +253,193 @@ export class SQLiteIndexDB implements IndexDB {
     return results;
   }
 
+  async indexFile(
+    file: FileMeta,
+    links: string[],
+    content: string,
+    tags: string[],
+    properties: NoteProperty[],
+  ): Promise<void> {
+    this.transaction(db => {
+      db.execute(
+        `INSERT OR REPLACE INTO files (path, title, modified_at, content_hash)
+         VALUES (?, ?, ?, ?)`,
+        [file.path, file.title, file.modifiedAt, file.contentHash],
+      );
+      db.execute('DELETE FROM links WHERE source_path = ?', [file.path]);
+      for (const targetPath of links) {
+        db.execute(
+          'INSERT OR IGNORE INTO links (source_path, target_path) VALUES (?, ?)',
+          [file.path, targetPath],
+        );
+      }
+      db.execute('DELETE FROM tags WHERE path = ?', [file.path]);
+      for (const tag of tags) {
+        db.execute('INSERT OR IGNORE INTO tags (path, tag) VALUES (?, ?)', [
+          file.path,
+          tag,
+        ]);
+      }
+      db.execute('DELETE FROM properties WHERE path = ?', [file.path]);
+      for (const property of properties) {
+        db.execute(
+          'INSERT INTO properties (path, key, value, type) VALUES (?, ?, ?, ?)',
+          [file.path, property.key, property.value, property.type],
+        );
+      }
+      db.execute('DELETE FROM fts WHERE path = ?', [file.path]);
+      db.execute('INSERT INTO fts (path, title, content) VALUES (?, ?, ?)', [
+        file.path,
+        file.title,
+        content,
+      ]);
+    });
+  }
+
+  async movePath(oldPath: string, newPath: string): Promise<void> {
+    // Matches the path itself and, for a folder, everything under it.
+    // Links into the moved path keep their old target; the caller resolves
+    // their sources again
+    const prefixLength = oldPath.length + 1;
+    const params = [newPath, prefixLength, oldPath, prefixLength, `${oldPath}/`];
+
+    this.transaction(db => {
+      db.execute(
+        `UPDATE OR REPLACE files SET path = ? || substr(path, ?)
+         WHERE path = ? OR substr(path, 1, ?) = ?`,
+        params,
+      );
+      db.execute(
+        `UPDATE OR REPLACE links SET source_path = ? || substr(source_path, ?)
+         WHERE source_path = ? OR substr(source_path, 1, ?) = ?`,
+        params,
+      );
+      db.execute(
+        `UPDATE OR REPLACE tags SET path = ? || substr(path, ?)
+         WHERE path = ? OR substr(path, 1, ?) = ?`,
+        params,
+      );
+      db.execute(
+        `UPDATE properties SET path = ? || substr(path, ?)
+         WHERE path = ? OR substr(path, 1, ?) = ?`,
+        params,
+      );
+      db.execute(
+        `UPDATE fts SET path = ? || substr(path, ?)
+         WHERE path = ? OR substr(path, 1, ?) = ?`,
+        params,
+      );
+    });
+  }
+
   async deleteFileMeta(path: string): Promise<void> {
+    const params = [path, path.length + 1, `${path}/`];
+
+    this.transaction(db => {
+      db.execute(
+        'DELETE FROM files WHERE path = ? OR substr(path, 1, ?) = ?',
+        params,
+      );
+      db.execute(
+        'DELETE FROM links WHERE source_path = ? OR substr(source_path, 1, ?) = ?',
+        params,
+      );
+      db.execute(
+        'DELETE FROM tags WHERE path = ? OR substr(path, 1, ?) = ?',
+        params,
+      );
+      db.execute(
+        'DELETE FROM properties WHERE path = ? OR substr(path, 1, ?) = ?',
+        params,
+      );
+      db.execute(
+        'DELETE FROM fts WHERE path = ? OR substr(path, 1, ?) = ?',
+        params,
+      );
+    });
+  }
+
+  async getTags(): Promise<NoteTag[]> {
     const db = this.ensureDb();
+    const result = db.execute('SELECT path, tag FROM tags');
 
-    db.execute('BEGIN TRANSACTION');
-    try {
-      db.execute('DELETE FROM files WHERE path = ?', [path]);
-      db.execute('DELETE FROM links WHERE source_path = ?', [path]);
-      db.execute('DELETE FROM fts WHERE path = ?', [path]);
-      db.execute('COMMIT');
-    } catch (error) {
-      db.execute('ROLLBACK');
-      throw error;
+    const tags: NoteTag[] = [];
+    if (result.rows) {
+      for (let i = 0; i < result.rows.length; i++) {
+        const row = result.rows.item(i);
+        tags.push({path: row.path, tag: row.tag});
+      }
+    }
+    return tags;
+  }
+
+  async getNotesWithTag(tag: string): Promise<FileMeta[]> {
+    const db = this.ensureDb();
+    const result = db.execute(
+      `SELECT DISTINCT f.path, f.title, f.modified_at, f.content_hash
+       FROM tags t JOIN files f ON f.path = t.path
+       WHERE t.tag = ? OR substr(t.tag, 1, ?) = ?
+       ORDER BY f.title COLLATE NOCASE`,
+      [tag, tag.length + 1, `${tag}/`],
+    );
+
+    const files: FileMeta[] = [];
+    if (result.rows) {
+      for (let i = 0; i < result.rows.length; i++) {
+        const row = result.rows.item(i);
+        files.push({
+          path: row.path,
+          title: row.title,
+          modifiedAt: row.modified_at,
+          contentHash: row.content_hash,
+        });
+      }
+    }
+    return files;
+  }
+
+  async getProperties(): Promise<NoteProperty[]> {
+    const db = this.ensureDb();
+    const result = db.execute('SELECT path, key, value, type FROM properties');
+
+    const properties: NoteProperty[] = [];
+    if (result.rows) {
+      for (let i = 0; i < result.rows.length; i++) {
+        const row = result.rows.item(i);
+        properties.push({
+          path: row.path,
+          key: row.key,
+          value: row.value,
+          type: row.type,
+        });
+      }
+    }
+    return properties;
+  }
+
+  async getNotesWithProperty(key: string, value?: string): Promise<FileMeta[]> {
+    const db = this.ensureDb();
+    const result = db.execute(
+      `SELECT DISTINCT f.path, f.title, f.modified_at, f.content_hash
+       FROM properties p JOIN files f ON f.path = p.path
+       WHERE p.key = ?${value === undefined ? '' : ' AND p.value = ? COLLATE NOCASE'}
+       ORDER BY f.title COLLATE NOCASE`,
+      value === undefined ? [key] : [key, value],
+    );
+
+    const files: FileMeta[] = [];
+    if (result.rows) {
+      for (let i = 0; i < result.rows.length; i++) {
+        const row = result.rows.item(i);
+        files.push({
+          path: row.path,
+          title: row.title,
+          modifiedAt: row.modified_at,
+          contentHash: row.content_hash,
+        });
+      }
     }
+    return files;
   }
 
   async close(): Promise<void> {
@@ -235,3 +453,7 @@ export class SQLiteIndexDB implements IndexDB {
 }
 
 export const indexDB = new SQLiteIndexDB();
+
+export function deleteIndexDB(vaultId: string): void {
+  QuickSQLite.delete(vaultDbName(vaultId));
+}
@@ -0,0 +1,101 @@
+import {create} from 'zustand';
+import {indexDB} from './index-db';
+import {VaultIndexer} from './indexer';
+import type {IndexProgressCallback} from './indexer';
+import {vaultFS} from './vault-fs';
+import type {IndexDB, VaultFS} from '../types';
+
+export interface IndexProgress {
+  state: 'idle' | 'indexing' | 'error';
+  done: number;
+  total: number;
+  error?: string;
+}
+
+interface IndexState {
+  progress: IndexProgress;
+}
+
+const IDLE: IndexProgress = {state: 'idle', done: 0, total: 0};
+
+export const useIndexStore = create<IndexState>(() => ({progress: IDLE}));
+
+/**
+ * Keeps the search index (files, links and FTS tables) in step with the
+ * vault. Runs one job at a time and publishes progress to `useIndexStore`.
+ */
+export class IndexService {
+  private indexer: VaultIndexer;
+  private queue: Promise<void> = Promise.resolve();
+  private generation = 0;
+
+  constructor(
+    vault: VaultFS,
+    private db: IndexDB,
+  ) {
+    this.indexer = new VaultIndexer(vault, db);
+  }
+
+  /** Indexes new and modified notes and drops deleted ones. */
+  indexVault(): Promise<void> {
+    return this.enqueue(async onProgress => {
+      await this.indexer.incrementalIndex(onProgress);
+      await this.indexer.removeDeletedFiles();
+    });
+  }
+
+  /** Reindexes exactly `paths`, e.g. `PullResult.updated`. */
+  reindexPaths(paths: string[]): Promise<void> {
+    if (!paths.some(path => path.endsWith('.md'))) {
+      return this.queue;
+    }
+    return this.enqueue(async onProgress => {
+      await this.indexer.reindexPaths(paths, onProgress);
+    });
+  }
+
+  /** Stops queued and running jobs, e.g. before switching vaults. */
+  cancel(): void {
+    this.generation += 1;
+    useIndexStore.setState({progress: IDLE});
+  }
+
+  private enqueue(
+    job: (onProgress: IndexProgressCallback) => Promise<void>,
+  ): Promise<void> {
+    const generation = this.generation;
+    const onProgress: IndexProgressCallback = (done, total) => {
+      if (generation !== this.generation) {
+        throw new Error('Indexing cancelled');
+      }
+      useIndexStore.setState({progress: {state: 'indexing', done, total}});
+    };
+
+    this.queue = this.queue.then(async () => {
+      if (generation !== this.generation) {
+        return;
+      }
+      try {
+        await this.db.waitUntilReady();
+        useIndexStore.setState({progress: {state: 'indexing', done: 0, total: 0}});
+        await job(onProgress);
+        useIndexStore.setState({progress: IDLE});
+      } catch (error) {
+        if (generation !== this.generation) {
+          return;
+        }
+        console.warn('Indexing failed:', error);
+        useIndexStore.setState({
+          progress: {
+            ...useIndexStore.getState().progress,
+            state: 'error',
+            error: error instanceof Error ? error.message : 'Unknown error',
+          },
+        });
+      }
+    });
+    return this.queue;
+  }
+}
+
+export const indexService = new IndexService(vaultFS, indexDB);
@@ -1,5 +1,16 @@
-import type {VaultFS, IndexDB, FileMeta} from '../types';
-import {parseWikilinks, parseTitle} from '../utils/markdown';
+import type {VaultFS, IndexDB, FileMeta, NoteProperty} from '../types';
+import {getProperties} from '../utils/frontmatter';
+import {
+  parseMarkdownLinks,
+  parseTags,
+  parseTitle,
+  parseWikilinks,
+} from '../utils/markdown';
+import {getBasename} from '../utils/path';
+import {LinkResolver, markdownLinkPath} from './link-resolver';
+
+// Called after each file; throwing from it stops the run
+export type IndexProgressCallback = (done: number, total: number) => void;
 
 function simpleHash(str: string): string {
   let hash = 0;
@@ -16,6 +27,18 @@ function getTitleFromPath(path: string): string {
   return filename.replace(/\.md$/, '');
 }
 
+// One row per value; empty properties and values the frontmatter parser
+// can't edit are kept as a row without a value, so the key is still known
+function indexedProperties(path: string, content: string): NoteProperty[] {
+  return getProperties(content).flatMap(({key, value, type, readOnly}): NoteProperty[] => {
+    if (readOnly || value === null || (Array.isArray(value) && value.length === 0)) {
+      return [{path, key, value: null, type}];
+    }
+    const values = Array.isArray(value) ? value : [value];
+    return values.map(item => ({path, key, value: String(item), type}));
+  });
+}
+
 export class VaultIndexer {
   constructor(
     private vaultFS: VaultFS,
@@ -24,25 +47,35 @@ export class VaultIndexer {
 
   async indexVault(): Promise<void> {
     const tree = await this.vaultFS.listTree();
-    const markdownFiles = this.flattenTree(tree).filter((node) =>
-      node.path.endsWith('.md'),
-    );
+    const files = this.flattenTree(tree);
+    const markdownFiles = files.filter((node) => node.path.endsWith('.md'));
+    const resolver = new LinkResolver(files.map((file) => file.path));
 
     for (const file of markdownFiles) {
       try {
         const content = await this.vaultFS.readFile(file.path);
-        await this.indexFile(file.path, content, file.modifiedAt);
+        await this.indexFile(file.path, content, file.modifiedAt, resolver);
       } catch {
         // Skip files that can't be read
       }
     }
   }
 
+  /**
+   * Indexes one note. Wikilinks and markdown links are resolved with
+   * `resolver`, or against the notes already in the index when none is
+   * given.
+   */
   async indexFile(
     path: string,
     content: string,
     modifiedAt?: number,
+    resolver?: LinkResolver,
   ): Promise<void> {
+    if (await this.vaultFS.isIgnored(path)) {
+      return;
+    }
+
     const actualModifiedAt =
       modifiedAt ?? (await this.vaultFS.stat(path)).modifiedAt;
     const contentHash = simpleHash(content);
@@ -59,13 +92,76 @@ export class VaultIndexer {
       contentHash,
     };
 
-    await this.indexDB.upsertFileMeta(fileMeta);
+    const linkResolver = resolver ?? (await this.createResolver([path]));
+    const links: string[] = [];
+    for (const link of parseWikilinks(content)) {
+      const destination = linkResolver.destination(link, path);
+      if (destination) {
+        links.push(destination);
+      }
+    }
+    for (const url of parseMarkdownLinks(content)) {
+      const destination =
+        linkResolver.resolveMarkdownLink(url, path) ?? markdownLinkPath(url, path);
+      if (destination) {
+        links.push(destination);
+      }
+    }
+    await this.indexDB.indexFile(
+      fileMeta,
+      links,
+      content,
+      parseTags(content),
+      indexedProperties(path, content),
+    );
+  }
 
-    const wikilinks = parseWikilinks(content);
-    const normalizedLinks = wikilinks.map((link) => this.normalizeLink(link));
-    await this.indexDB.updateLinksForFile(path, normalizedLinks);
+  /**
+   * Re-resolves links written before the note at `path` existed, e.g.
+   * `[[Note]]` from before `folder/Note.md` was created or moved there.
+   * Such links are indexed under the file name at the vault root.
+   */
+  async relinkTo(path: string): Promise<void> {
+    const placeholder = getBasename(path);
+    if (placeholder === path.replace(/^\/+/, '')) {
+      return;
+    }
+
+    await this.relink(await this.indexDB.getBacklinks(placeholder), [path]);
+  }
 
-    await this.indexDB.ftsUpsert(path, title, content);
+  /** Notes linking to `path` or, for a folder, to a note under it. */
+  async linkSources(path: string): Promise<string[]> {
+    const targets = (await this.indexDB.getAllFiles())
+      .map((file) => file.path)
+      .filter((target) => target.startsWith(`${path}/`));
+    const sources = new Set<string>();
+    for (const target of [path, ...targets]) {
+      for (const source of await this.indexDB.getBacklinks(target)) {
+        sources.add(source);
+      }
+    }
+    return [...sources];
+  }
+
+  /**
+   * Resolves the links of `sources` again, against the indexed notes plus
+   * `paths`, e.g. after the notes they linked to moved.
+   */
+  async relink(sources: string[], paths: string[] = []): Promise<void> {
+    if (sources.length === 0) {
+      return;
+    }
+    const resolver = await this.createResolver(paths);
+    for (const source of sources) {
+      try {
+        const content = await this.vaultFS.readFile(source);
+        const meta = await this.indexDB.getFileMeta(source);
+        await this.indexFile(source, content, meta?.modifiedAt, resolver);
+      } catch {
+        // Skip files that can't be read
+      }
+    }
   }
 
   async needsReindex(path: string, modifiedAt: number): Promise<boolean> {
@@ -94,16 +190,18 @@ export class VaultIndexer {
     return false;
   }
 
-  async incrementalIndex(): Promise<{indexed: number; skipped: number}> {
+  async incrementalIndex(
+    onProgress?: IndexProgressCallback,
+  ): Promise<{indexed: number; skipped: number}> {
     const tree = await this.vaultFS.listTree();
-    const markdownFiles = this.flattenTree(tree).filter((node) =>
-      node.path.endsWith('.md'),
-    );
+    const files = this.flattenTree(tree);
+    const markdownFiles = files.filter((node) => node.path.endsWith('.md'));
+    const resolver = new LinkResolver(files.map((file) => file.path));
 
     let indexed = 0;
     let skipped = 0;
 
-    for (const file of markdownFiles) {
+    for (const [i, file] of markdownFiles.entries()) {
       try {
         const needsUpdate = await this.needsReindex(
           file.path,
@@ -111,7 +209,7 @@ export class VaultIndexer {
         );
         if (needsUpdate) {
           const content = await this.vaultFS.readFile(file.path);
-          await this.indexFile(file.path, content, file.modifiedAt);
+          await this.indexFile(file.path, content, file.modifiedAt, resolver);
           indexed++;
         } else {
           skipped++;
@@ -119,18 +217,54 @@ export class VaultIndexer {
       } catch {
         // Skip files that can't be read
       }
+      onProgress?.(i + 1, markdownFiles.length);
     }
 
     return {indexed, skipped};
   }
 
+  /**
+   * Brings the index in line with the working copy of `paths`, e.g. the
+   * files a pull changed. Paths that no longer exist are removed.
+   */
+  async reindexPaths(
+    paths: string[],
+    onProgress?: IndexProgressCallback,
+  ): Promise<{indexed: number; removed: number}> {
+    const markdownPaths = paths.filter((path) => path.endsWith('.md'));
+    const resolver = await this.createResolver(markdownPaths);
+    let indexed = 0;
+    let removed = 0;
+
+    for (const [i, path] of markdownPaths.entries()) {
+      try {
+        if (
+          (await this.vaultFS.exists(path)) &&
+          !(await this.vaultFS.isIgnored(path))
+        ) {
+          const content = await this.vaultFS.readFile(path);
+          await this.indexFile(path, content, undefined, resolver);
+          indexed++;
+        } else {
+          await this.indexDB.deleteFileMeta(path);
+          removed++;
+        }
+      } catch {
+        // Skip files that can't be read
+      }
+      onProgress?.(i + 1, markdownPaths.length);
+    }
+
+    return {indexed, removed};
+  }
+
   async removeDeletedFiles(): Promise<number> {
     const indexedFiles = await this.indexDB.getAllFiles();
     let removed = 0;
 
     for (const file of indexedFiles) {
       const exists = await this.vaultFS.exists(file.path);
-      if (!exists) {
+      if (!exists || (await this.vaultFS.isIgnored(file.path))) {
         await this.indexDB.deleteFileMeta(file.path);
         removed++;
       }
@@ -139,24 +273,11 @@ export class VaultIndexer {
     return removed;
   }
 
-  private normalizeLink(link: string): string {
-    let normalized = link.trim();
-
-    const pipeIndex = normalized.indexOf('|');
-    if (pipeIndex !== -1) {
-      normalized = normalized.substring(0, pipeIndex);
-    }
-
-    const hashIndex = normalized.indexOf('#');
-    if (hashIndex !== -1) {
-      normalized = normalized.substring(0, hashIndex);
-    }
-
-    if (!normalized.endsWith('.md')) {
-      normalized = `${normalized}.md`;
-    }
-
-    return normalized;
+  // Resolves against the indexed notes plus `paths`, which may be about to
+  // be indexed
+  private async createResolver(paths: string[]): Promise<LinkResolver> {
+    const files = await this.indexDB.getAllFiles();
+    return new LinkResolver([...files.map((file) => file.path), ...paths]);
   }
 
   private flattenTree(
@@ -0,0 +1,209 @@
+import {indexDB} from './index-db';
+import {getBasename, getDirectory} from '../utils/path';
+import type {IndexDB} from '../types';
+
+/** The note part of `[[target#heading|alias]]`, without heading or alias. */
+export function linkTarget(link: string): string {
+  const withoutAlias = link.split('|')[0] ?? '';
+  return (withoutAlias.split('#')[0] ?? '').trim();
+}
+
+// `https:`, `mailto:`, `obsidian:` and the like
+const URL_SCHEME_REGEX = /^[a-z][a-z0-9+.-]*:/i;
+
+function stripLeadingSlash(path: string): string {
+  return path.replace(/^\/+/, '');
+}
+
+// Applies `./` and `../` segments of `relative` to the folder `dir`
+export function resolveRelative(dir: string, relative: string): string {
+  const parts = stripLeadingSlash(dir).split('/').filter(Boolean);
+  for (const segment of relative.split('/')) {
+    if (segment === '..') {
+      parts.pop();
+    } else if (segment !== '.' && segment !== '') {
+      parts.push(segment);
+    }
+  }
+  return parts.join('/');
+}
+
+/**
+ * The vault path a markdown link URL names: relative to the linking note,
+ * or to the vault root when it starts with `/`. Null for external URLs and
+ * links to anything but notes.
+ */
+export function markdownLinkPath(url: string, sourcePath: string): string | null {
+  const withoutFragment = url.split('#')[0] ?? '';
+  if (!withoutFragment || URL_SCHEME_REGEX.test(withoutFragment)) {
+    return null;
+  }
+  let decoded: string;
+  try {
+    decoded = decodeURI(withoutFragment);
+  } catch {
+    return null;
+  }
+  if (!decoded.toLowerCase().endsWith('.md')) {
+    return null;
+  }
+  return decoded.startsWith('/')
+    ? stripLeadingSlash(decoded)
+    : resolveRelative(getDirectory(sourcePath), decoded);
+}
+
+function folderParts(path: string): string[] {
+  return stripLeadingSlash(getDirectory(path)).split('/').filter(Boolean);
+}
+
+// Folders shared with `source`, counted from the vault root
+function sharedFolders(source: string[], candidate: string[]): number {
+  let shared = 0;
+  while (
+    shared < source.length &&
+    shared < candidate.length &&
+    source[shared] === candidate[shared]
+  ) {
+    shared++;
+  }
+  return shared;
+}
+
+/**
+ * Resolves wikilinks to vault paths the way Obsidian does: an exact path
+ * from the vault root, a path relative to the linking note (`./`, `../`),
+ * or the shortest unique path, usually just the file name. When several
+ * notes share a name, the one closest to the linking note wins.
+ * Matching ignores case, and `.md` is implied when a link has no match
+ * with the extension as written.
+ */
+export class LinkResolver {
+  private byPath = new Map<string, string>();
+  private byName = new Map<string, string[]>();
+
+  constructor(paths: Iterable<string>) {
+    for (const path of paths) {
+      const key = stripLeadingSlash(path).toLowerCase();
+      this.byPath.set(key, path);
+      const name = getBasename(key);
+      this.byName.set(name, [...(this.byName.get(name) ?? []), path]);
+    }
+  }
+
+  /** The existing file `link` points to, or null when there is none. */
+  resolve(link: string, sourcePath: string): string | null {
+    const target = linkTarget(link);
+    if (!target) {
+      return null;
+    }
+
+    const wanted = target.toLowerCase().endsWith('.md')
+      ? [target]
+      : [`${target}.md`, target];
+
+    for (const candidate of wanted) {
+      const match = this.find(candidate, sourcePath);
+      if (match) {
+        return match;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Where `link` points: the file it resolves to or, if there is none yet,
+   * the path Obsidian would create it at. Null for links to a heading in
+   * the same note.
+   */
+  destination(link: string, sourcePath: string): string | null {
+    const target = linkTarget(link);
+    if (!target) {
+      return null;
+    }
+    const resolved = this.resolve(link, sourcePath);
+    if (resolved) {
+      return resolved;
+    }
+
+    const path = target.startsWith('.')
+      ? resolveRelative(getDirectory(sourcePath), target)
+      : stripLeadingSlash(target);
+    return path.toLowerCase().endsWith('.md') ? path : `${path}.md`;
+  }
+
+  /**
+   * The existing note a markdown link points to. Obsidian falls back to
+   * wikilink rules when the path does not exist, so `[x](Note.md)` still
+   * finds `folder/Note.md`.
+   */
+  resolveMarkdownLink(url: string, sourcePath: string): string | null {
+    const path = markdownLinkPath(url, sourcePath);
+    if (!path) {
+      return null;
+    }
+    const decoded = decodeURI(url.split('#')[0] ?? '');
+    return (
+      this.byPath.get(path.toLowerCase()) ?? this.resolve(decoded, sourcePath)
+    );
+  }
+
+  private find(target: string, sourcePath: string): string | null {
+    if (target.startsWith('./') || target.startsWith('../')) {
+      const relative = resolveRelative(getDirectory(sourcePath), target);
+      return this.byPath.get(relative.toLowerCase()) ?? null;
+    }
+
+    const key = stripLeadingSlash(target).toLowerCase();
+    const exact = this.byPath.get(key);
+    if (exact) {
+      return exact;
+    }
+
+    const candidates = (this.byName.get(getBasename(key)) ?? []).filter(
+      path => stripLeadingSlash(path).toLowerCase().endsWith(`/${key}`),
+    );
+    return this.closest(candidates, sourcePath);
+  }
+
+  // Prefers the most folders in common with the source, then the shallowest
+  // path, then alphabetical order so the choice is stable
+  private closest(candidates: string[], sourcePath: string): string | null {
+    const source = folderParts(sourcePath);
+    let best: string | null = null;
+    let bestShared = -1;
+    let bestDepth = Infinity;
+
+    for (const candidate of candidates) {
+      const folders = folderParts(candidate);
+      const shared = sharedFolders(source, folders);
+      const better =
+        shared > bestShared ||
+        (shared === bestShared && folders.length < bestDepth) ||
+        (shared === bestShared &&
+          folders.length === bestDepth &&
+          best !== null &&
+          candidate < best);
+      if (better) {
+        best = candidate;
+        bestShared = shared;
+        bestDepth = folders.length;
+      }
+    }
+    return best;
+  }
+}
+
+/** Resolves a link in `sourcePath` against the notes in the index. */
+export async function resolveWikilink(
+  link: string,
+  sourcePath: string,
+  db: IndexDB = indexDB,
+): Promise<string | null> {
+  await db.waitUntilReady();
+  const files = await db.getAllFiles();
+  const resolver = new LinkResolver([
+    ...files.map(file => file.path),
+    sourcePath,
+  ]);
+  return resolver.destination(link, sourcePath);
+}
@@ -0,0 +1,185 @@
+import {indexDB} from './index-db';
+import {vaultFS} from './vault-fs';
+import {saveNote} from './vault-changes';
+import {LinkResolver} from './link-resolver';
+import {getBasename, getDirectory, movedPath, relativePath} from '../utils/path';
+import type {IndexDB, VaultFS} from '../types';
+
+export interface LinkRewrite {
+  /** The note's path after the move. */
+  path: string;
+  content: string;
+  /** Links rewritten in this note. */
+  links: number;
+}
+
+export interface LinkUpdatePlan {
+  rewrites: LinkRewrite[];
+  /** Links rewritten across all notes. */
+  links: number;
+}
+
+const WIKILINK_REGEX = /\[\[([^\]]+)\]\]/g;
+const MARKDOWN_LINK_REGEX = /(?<!!)(\[[^\]]*\]\()([^)\s]+)\)/g;
+
+interface LinkContext {
+  oldSource: string;
+  newSource: string;
+  before: LinkResolver;
+  after: LinkResolver;
+  move: (path: string) => string;
+}
+
+function stripLeadingSlash(path: string): string {
+  return path.replace(/^\/+/, '');
+}
+
+function relativeTo(source: string, target: string): string {
+  return relativePath(
+    stripLeadingSlash(getDirectory(source)),
+    stripLeadingSlash(target),
+  );
+}
+
+// Writes the new target in the style of the original: a relative path, a
+// path from the vault root, or the bare name when that is still unambiguous
+function wikilinkTarget(original: string, target: string, ctx: LinkContext): string {
+  const format = original.toLowerCase().endsWith('.md')
+    ? (path: string) => path
+    : (path: string) => path.replace(/\.md$/i, '');
+  const path = stripLeadingSlash(target);
+
+  if (original.startsWith('./') || original.startsWith('../')) {
+    const relative = relativeTo(ctx.newSource, path);
+    return format(relative.startsWith('../') ? relative : `./${relative}`);
+  }
+  if (!original.includes('/')) {
+    const name = format(getBasename(path));
+    if (ctx.after.resolve(name, ctx.newSource) === target) {
+      return name;
+    }
+  }
+  return format(path);
+}
+
+/**
+ * Rewrites the links in one note so they keep pointing at the same notes
+ * after a move. Headings, block references and aliases are kept.
+ */
+function rewriteLinks(
+  content: string,
+  ctx: LinkContext,
+): {content: string; links: number} {
+  let links = 0;
+
+  const withWikilinks = content.replace(
+    WIKILINK_REGEX,
+    (match, inner: string) => {
+      const target = ctx.before.resolve(inner, ctx.oldSource);
+      if (!target) {
+        return match;
+      }
+      const newTarget = ctx.move(target);
+      if (ctx.after.resolve(inner, ctx.newSource) === newTarget) {
+        return match;
+      }
+
+      const pipe = inner.indexOf('|');
+      const link = pipe === -1 ? inner : inner.slice(0, pipe);
+      const alias = pipe === -1 ? '' : inner.slice(pipe);
+      const hash = link.indexOf('#');
+      const original = (hash === -1 ? link : link.slice(0, hash)).trim();
+      const fragment = hash === -1 ? '' : link.slice(hash);
+
+      links++;
+      return `[[${wikilinkTarget(original, newTarget, ctx)}${fragment}${alias}]]`;
+    },
+  );
+
+  const withMarkdownLinks = withWikilinks.replace(
+    MARKDOWN_LINK_REGEX,
+    (match, prefix: string, url: string) => {
+      const target = ctx.before.resolveMarkdownLink(url, ctx.oldSource);
+      if (!target) {
+        return match;
+      }
+      const newTarget = ctx.move(target);
+      if (ctx.after.resolveMarkdownLink(url, ctx.newSource) === newTarget) {
+        return match;
+      }
+
+      const hash = url.indexOf('#');
+      const fragment = hash === -1 ? '' : url.slice(hash);
+      const href = url.startsWith('/')
+        ? `/${stripLeadingSlash(newTarget)}`
+        : relativeTo(ctx.newSource, newTarget);
+
+      links++;
+      return `${prefix}${href.replace(/ /g, '%20')}${fragment})`;
+    },
+  );
+
+  return {content: withMarkdownLinks, links};
+}
+
+/**
+ * Works out which links must change when `oldPath` (a note or folder)
+ * moves to `newPath`, without touching anything. The notes that link to
+ * the moved notes come from the index; the moved notes are checked too,
+ * since their relative links change with their folder.
+ */
+export async function planLinkUpdates(
+  oldPath: string,
+  newPath: string,
+  db: IndexDB = indexDB,
+  vault: VaultFS = vaultFS,
+): Promise<LinkUpdatePlan> {
+  await db.waitUntilReady();
+  const paths = (await db.getAllFiles()).map(file => file.path);
+  const move = (path: string) => movedPath(path, oldPath, newPath) ?? path;
+  const before = new LinkResolver(paths);
+  const after = new LinkResolver(paths.map(move));
+
+  const movedNotes = paths.filter(path => movedPath(path, oldPath, newPath));
+  const sources = new Set(movedNotes);
+  for (const note of movedNotes) {
+    for (const source of await db.getBacklinks(note)) {
+      sources.add(source);
+    }
+  }
+
+  const plan: LinkUpdatePlan = {rewrites: [], links: 0};
+  for (const source of sources) {
+    let content: string;
+    try {
+      content = await vault.readFile(source);
+    } catch {
+      // Skip files that can't be read
+      continue;
+    }
+
+    const newSource = move(source);
+    const result = rewriteLinks(content, {
+      oldSource: source,
+      newSource,
+      before,
+      after,
+      move,
+    });
+    if (result.links > 0) {
+      plan.rewrites.push({path: newSource, ...result});
+      plan.links += result.links;
+    }
+  }
+  return plan;
+}
+
+/**
+ * Saves the notes rewritten by `plan`, once the move itself is done. Each
+ * save is queued for the next sync and reindexed like an edit.
+ */
+export async function applyLinkUpdates(plan: LinkUpdatePlan): Promise<void> {
+  for (const rewrite of plan.rewrites) {
+    await saveNote(rewrite.path, rewrite.content);
+  }
+}
@@ -0,0 +1,20 @@
+import {gitSync} from './git-sync';
+import {saveNote} from './vault-changes';
+
+/**
+ * Replaces a note's working copy with its content at `ref`. The restored
+ * content is saved like an edit: queued for the next sync and reindexed.
+ */
+export async function restoreNoteVersion(
+  path: string,
+  ref: string,
+): Promise<string> {
+  const content = await gitSync.readFileAt(path, ref);
+  if (content === null) {
+    throw new Error(`${path} does not exist at ${ref.slice(0, 7)}`);
+  }
+
+  await saveNote(path, content);
+
+  return content;
+}
@@ -0,0 +1,164 @@
+import {indexDB} from './index-db';
+import {vaultFS} from './vault-fs';
+import type {FileMeta, IndexDB, VaultFS} from '../types';
+
+export interface RegexMatch {
+  /** 1-based line the match starts on. */
+  line: number;
+  /** Offset of the match in the note. */
+  index: number;
+  /** The matched text, which may run past the end of its line. */
+  text: string;
+  /** Offset of the match in its line. */
+  column: number;
+  lineText: string;
+  /** Lines before and after the match's line, nearest last and first. */
+  before: string[];
+  after: string[];
+}
+
+export interface RegexFileMatches {
+  path: string;
+  title: string;
+  matches: RegexMatch[];
+}
+
+export interface RegexSearchOptions {
+  caseSensitive?: boolean;
+  signal?: AbortSignal;
+  /** Lines of context on each side of a match. */
+  context?: number;
+  /** Stops after this many matches across the vault. */
+  limit?: number;
+  /** Called with each note that matches, as soon as it is scanned. */
+  onResult?: (result: RegexFileMatches) => void;
+}
+
+export interface RegexSearchSummary {
+  files: number;
+  matches: number;
+  truncated: boolean;
+}
+
+function checkAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('Search cancelled');
+  }
+}
+
+/**
+ * Compiles a user's pattern. `^` and `$` match at line breaks, as in
+ * editors. Throws a SyntaxError for an invalid pattern.
+ */
+export function compileSearchRegex(pattern: string, caseSensitive = false): RegExp {
+  return new RegExp(pattern, caseSensitive ? 'gm' : 'gim');
+}
+
+/**
+ * Finds every non-empty match of `regex` (which must be global) in
+ * `content`, with the line each starts on and `context` lines around it.
+ */
+export function findMatches(
+  content: string,
+  regex: RegExp,
+  context = 1,
+  limit = Infinity,
+): RegexMatch[] {
+  const lines = content.split('\n');
+  const matches: RegexMatch[] = [];
+  let line = 0;
+  let lineStart = 0;
+
+  regex.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (matches.length < limit && (match = regex.exec(content)) !== null) {
+    if (match[0] === '') {
+      // Step past empty matches such as `^` or `a*` so the scan ends
+      regex.lastIndex++;
+      continue;
+    }
+    while (lineStart + (lines[line]?.length ?? 0) < match.index) {
+      lineStart += (lines[line]?.length ?? 0) + 1;
+      line++;
+    }
+    matches.push({
+      line: line + 1,
+      index: match.index,
+      text: match[0],
+      column: match.index - lineStart,
+      lineText: (lines[line] ?? '').replace(/\r$/, ''),
+      before: lines
+        .slice(Math.max(0, line - context), line)
+        .map(text => text.replace(/\r$/, '')),
+      after: lines
+        .slice(line + 1, line + 1 + context)
+        .map(text => text.replace(/\r$/, '')),
+    });
+  }
+  return matches;
+}
+
+/**
+ * Reads every indexed note in path order and passes it to `visit`, which
+ * returns true to stop early. Aborting `signal` stops the scan between
+ * notes with a "Search cancelled" error.
+ */
+export async function scanNotes(
+  visit: (file: FileMeta, content: string) => boolean | void,
+  signal?: AbortSignal,
+  db: IndexDB = indexDB,
+  vault: VaultFS = vaultFS,
+): Promise<void> {
+  await db.waitUntilReady();
+  checkAborted(signal);
+  const files = (await db.getAllFiles()).sort((a, b) => a.path.localeCompare(b.path));
+
+  for (const file of files) {
+    checkAborted(signal);
+
+    let content: string;
+    try {
+      content = await vault.readFile(file.path);
+    } catch {
+      // Skip files that can't be read
+      continue;
+    }
+    checkAborted(signal);
+
+    if (visit(file, content)) {
+      return;
+    }
+  }
+}
+
+/**
+ * Scans every indexed note for `pattern`, reporting matching notes through
+ * `onResult` as it goes.
+ */
+export async function searchVaultRegex(
+  pattern: string,
+  options: RegexSearchOptions = {},
+  db: IndexDB = indexDB,
+  vault: VaultFS = vaultFS,
+): Promise<RegexSearchSummary> {
+  const {caseSensitive = false, signal, context = 1, limit = 1000, onResult} = options;
+  const regex = compileSearchRegex(pattern, caseSensitive);
+
+  const summary: RegexSearchSummary = {files: 0, matches: 0, truncated: false};
+  await scanNotes(
+    (file, content) => {
+      const matches = findMatches(content, regex, context, limit - summary.matches);
+      if (matches.length > 0) {
+        summary.files++;
+        summary.matches += matches.length;
+        onResult?.({path: file.path, title: file.title, matches});
+      }
+      summary.truncated = summary.matches >= limit;
+      return summary.truncated;
+    },
+    signal,
+    db,
+    vault,
+  );
+  return summary;
+}
@@ -0,0 +1,450 @@
+export type SearchField = 'path' | 'file' | 'tag' | 'line' | 'section';
+
+export type QueryNode =
+  | {type: 'term'; text: string; phrase: boolean}
+  | {type: 'field'; field: SearchField; child: QueryNode}
+  | {type: 'not'; child: QueryNode}
+  | {type: 'and'; children: QueryNode[]}
+  | {type: 'or'; children: QueryNode[]};
+
+export type SqlParam = string | number;
+
+export interface CompiledQuery {
+  sql: string;
+  params: SqlParam[];
+}
+
+type Token =
+  | {type: 'word' | 'phrase'; text: string}
+  | {type: 'field'; field: SearchField}
+  | {type: 'lparen' | 'rparen' | 'or' | 'not'};
+
+interface Fragment {
+  sql: string;
+  params: SqlParam[];
+}
+
+const FIELD_REGEX = /^(path|file|tag|line|section):/i;
+// A term must contain a letter or digit to match anything in FTS
+const SEARCHABLE_REGEX = /[\p{L}\p{N}]/u;
+const FILE_NAME_SQL = "replace(path, rtrim(path, replace(path, '/', '')), '')";
+const LINE_SEPARATOR_SQL = 'char(10)';
+// Sections start at headings, so each part keeps its heading line
+const SECTION_SEPARATOR_SQL = "char(10) || '#'";
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i] ?? '';
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(') {
+      tokens.push({type: 'lparen'});
+      i++;
+    } else if (char === ')') {
+      tokens.push({type: 'rparen'});
+      i++;
+    } else if (char === '"') {
+      const end = query.indexOf('"', i + 1);
+      const stop = end === -1 ? query.length : end;
+      tokens.push({type: 'phrase', text: query.slice(i + 1, stop)});
+      i = stop + 1;
+    } else if (char === '-' && /[^\s-]/.test(query[i + 1] ?? ' ')) {
+      tokens.push({type: 'not'});
+      i++;
+    } else {
+      let end = i;
+      while (end < query.length && !/[\s()"]/.test(query[end] ?? '')) {
+        end++;
+      }
+      const word = query.slice(i, end);
+      const field = FIELD_REGEX.exec(word);
+      if (word === 'OR') {
+        tokens.push({type: 'or'});
+      } else if (field) {
+        let rest = word.slice(field[0].length);
+        // `file:-draft` excludes, like `-file:draft`
+        if (rest.startsWith('-') && /[^\s-]/.test(query[i + field[0].length + 1] ?? ' ')) {
+          tokens.push({type: 'not'});
+          rest = rest.slice(1);
+        }
+        tokens.push({type: 'field', field: (field[1] ?? '').toLowerCase() as SearchField});
+        if (rest) {
+          tokens.push({type: 'word', text: rest});
+        }
+      } else {
+        tokens.push({type: 'word', text: word});
+      }
+      i = end;
+    }
+  }
+  return tokens;
+}
+
+function combine(type: 'and' | 'or', children: QueryNode[]): QueryNode | null {
+  if (children.length <= 1) {
+    return children[0] ?? null;
+  }
+  return {type, children};
+}
+
+// Recursive descent, loosest first: OR, then implicit AND, then `-`
+class QueryParser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): QueryNode | null {
+    const nodes: QueryNode[] = [];
+    while (this.pos < this.tokens.length) {
+      const node = this.parseOr();
+      if (node) {
+        nodes.push(node);
+      }
+      // Unbalanced `)` is skipped
+      if (this.peek()?.type === 'rparen') {
+        this.pos++;
+      }
+    }
+    return combine('and', nodes);
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private parseOr(): QueryNode | null {
+    const branches: QueryNode[] = [];
+    let branch = this.parseAnd();
+    if (branch) {
+      branches.push(branch);
+    }
+    while (this.peek()?.type === 'or') {
+      this.pos++;
+      branch = this.parseAnd();
+      if (branch) {
+        branches.push(branch);
+      }
+    }
+    return combine('or', branches);
+  }
+
+  private parseAnd(): QueryNode | null {
+    const nodes: QueryNode[] = [];
+    let token = this.peek();
+    while (token && token.type !== 'rparen' && token.type !== 'or') {
+      const node = this.parseUnary();
+      if (node) {
+        nodes.push(node);
+      }
+      token = this.peek();
+    }
+    return combine('and', nodes);
+  }
+
+  private parseUnary(): QueryNode | null {
+    if (this.peek()?.type === 'not') {
+      this.pos++;
+      const child = this.parseUnary();
+      return child ? {type: 'not', child} : null;
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode | null {
+    const token = this.tokens[this.pos++];
+    switch (token?.type) {
+      case 'lparen': {
+        const node = this.parseOr();
+        if (this.peek()?.type === 'rparen') {
+          this.pos++;
+        }
+        return node;
+      }
+      case 'field': {
+        const next = this.peek()?.type;
+        const child = next === 'or' || next === 'rparen' ? null : this.parseUnary();
+        return child ? {type: 'field', field: token.field, child} : null;
+      }
+      case 'word':
+      case 'phrase': {
+        const text = token.text.trim();
+        return SEARCHABLE_REGEX.test(text)
+          ? {type: 'term', text, phrase: token.type === 'phrase'}
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * Parses a search query. Words match by prefix anywhere in a note, and a
+ * note must match all of them; `"quotes"` match a phrase exactly, `-`
+ * excludes, `OR` (upper case) matches either side and parentheses group.
+ * `path:`, `file:`, `tag:`, `line:` and `section:` apply to the word,
+ * phrase or group after them. Returns null when nothing is searchable.
+ */
+export function parseSearchQuery(query: string): QueryNode | null {
+  return new QueryParser(tokenize(query)).parse();
+}
+
+function isText(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'term':
+      return true;
+    case 'field':
+      return false;
+    case 'not':
+      return isText(node.child);
+    case 'and':
+    case 'or':
+      return node.children.every(isText);
+  }
+}
+
+// Whether a text node can be written as one FTS5 expression, which needs
+// something to match: FTS5 has no standalone NOT, only `a NOT b`
+function isMatchable(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'term':
+      return true;
+    case 'field':
+    case 'not':
+      return false;
+    case 'and':
+      return (
+        node.children.some(isMatchable) &&
+        node.children.every(
+          child =>
+            isMatchable(child) || (child.type === 'not' && isMatchable(child.child)),
+        )
+      );
+    case 'or':
+      return node.children.every(isMatchable);
+  }
+}
+
+function quoteFts(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function toMatch(node: QueryNode): string {
+  switch (node.type) {
+    case 'term':
+      return node.phrase ? quoteFts(node.text) : `${quoteFts(node.text)}*`;
+    case 'and': {
+      const included = node.children.filter(child => child.type !== 'not');
+      const excluded = node.children.flatMap(child =>
+        child.type === 'not' ? [child.child] : [],
+      );
+      return [
+        included.map(child => toGroupedMatch(child)).join(' AND '),
+        ...excluded.map(child => `NOT ${toGroupedMatch(child)}`),
+      ].join(' ');
+    }
+    case 'or':
+      return node.children.map(child => toGroupedMatch(child)).join(' OR ');
+    case 'field':
+    case 'not':
+      throw new Error(`Cannot match a ${node.type} node in FTS`);
+  }
+}
+
+function toGroupedMatch(node: QueryNode): string {
+  return node.type === 'term' ? toMatch(node) : `(${toMatch(node)})`;
+}
+
+// An FTS5 expression every match of `node` also matches, used to narrow
+// the notes a line or section filter has to split. Exclusions are dropped,
+// since a note can contain a word that one of its lines doesn't.
+function requiredMatch(node: QueryNode): string | null {
+  switch (node.type) {
+    case 'term':
+      return toMatch(node);
+    case 'field':
+      return requiredMatch(node.child);
+    case 'not':
+      return null;
+    case 'and':
+    case 'or': {
+      const parts = node.children.map(requiredMatch);
+      const required = parts.filter((part): part is string => part !== null);
+      if (required.length === 0 || (node.type === 'or' && required.length < parts.length)) {
+        return null;
+      }
+      return required
+        .map(part => (required.length > 1 && /\s/.test(part) ? `(${part})` : part))
+        .join(node.type === 'and' ? ' AND ' : ' OR ');
+    }
+  }
+}
+
+function escapeLike(text: string): string {
+  return `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+function normalizeTag(text: string): string {
+  return text.replace(/^#/, '').replace(/\/+$/, '').toLowerCase();
+}
+
+function joinFragments(fragments: Fragment[], operator: 'AND' | 'OR'): Fragment {
+  if (fragments.length === 1 && fragments[0]) {
+    return fragments[0];
+  }
+  return {
+    sql: `(${fragments.map(f => f.sql).join(` ${operator} `)})`,
+    params: fragments.flatMap(f => f.params),
+  };
+}
+
+// Keeps the and/or/not structure, compiling each term with `leaf`
+function mapTerms(node: QueryNode, leaf: (text: string) => Fragment): Fragment {
+  switch (node.type) {
+    case 'term':
+      return leaf(node.text);
+    case 'field':
+      return mapTerms(node.child, leaf);
+    case 'not': {
+      const child = mapTerms(node.child, leaf);
+      return {sql: `NOT (${child.sql})`, params: child.params};
+    }
+    case 'and':
+    case 'or':
+      return joinFragments(
+        node.children.map(child => mapTerms(child, leaf)),
+        node.type === 'and' ? 'AND' : 'OR',
+      );
+  }
+}
+
+class QueryCompiler {
+  private ctes: Fragment[] = [];
+
+  compile(root: QueryNode, limit: number): CompiledQuery {
+    const children = root.type === 'and' ? root.children : [root];
+    // Plain text at the top level becomes the MATCH that ranks results
+    const text = children.filter(
+      child =>
+        isMatchable(child) || (child.type === 'not' && isMatchable(child.child)),
+    );
+    const matchNode = combine('and', text);
+    const match = matchNode && isMatchable(matchNode) ? toMatch(matchNode) : null;
+    const rest = match === null ? children : children.filter(child => !text.includes(child));
+    const filters = rest.map(child => this.toSql(child));
+
+    const conditions = [
+      ...(match === null ? [] : ['fts MATCH ?']),
+      ...filters.map(filter => filter.sql),
+    ];
+    const select =
+      match === null
+        ? `SELECT path, title, substr(content, 1, 160) AS snippet, 0 AS rank FROM fts WHERE ${conditions.join(' AND ')} ORDER BY title COLLATE NOCASE`
+        : `SELECT path, title, snippet(fts, 2, '**', '**', '...', 32) AS snippet, rank FROM fts WHERE ${conditions.join(' AND ')} ORDER BY rank`;
+    const withClause =
+      this.ctes.length > 0
+        ? `WITH RECURSIVE ${this.ctes.map(cte => cte.sql).join(', ')} `
+        : '';
+
+    return {
+      sql: `${withClause}${select} LIMIT ${limit}`,
+      params: [
+        ...this.ctes.flatMap(cte => cte.params),
+        ...(match === null ? [] : [match]),
+        ...filters.flatMap(filter => filter.params),
+      ],
+    };
+  }
+
+  private toSql(node: QueryNode): Fragment {
+    if (isText(node) && isMatchable(node)) {
+      return {
+        sql: 'rowid IN (SELECT rowid FROM fts WHERE fts MATCH ?)',
+        params: [toMatch(node)],
+      };
+    }
+    switch (node.type) {
+      case 'field':
+        return this.fieldSql(node.field, node.child);
+      case 'not': {
+        const child = this.toSql(node.child);
+        return {sql: `NOT (${child.sql})`, params: child.params};
+      }
+      case 'and':
+      case 'or':
+        return joinFragments(
+          node.children.map(child => this.toSql(child)),
+          node.type === 'and' ? 'AND' : 'OR',
+        );
+      case 'term':
+        throw new Error('Terms are always matchable');
+    }
+  }
+
+  private fieldSql(field: SearchField, child: QueryNode): Fragment {
+    switch (field) {
+      case 'path':
+        return mapTerms(child, text => ({
+          sql: "path LIKE ? ESCAPE '\\'",
+          params: [escapeLike(text)],
+        }));
+      case 'file':
+        return mapTerms(child, text => ({
+          sql: `${FILE_NAME_SQL} LIKE ? ESCAPE '\\'`,
+          params: [escapeLike(text)],
+        }));
+      case 'tag':
+        return mapTerms(child, text => {
+          const tag = normalizeTag(text);
+          return {
+            sql: 'path IN (SELECT path FROM tags WHERE tag = ? OR substr(tag, 1, ?) = ?)',
+            params: [tag, tag.length + 1, `${tag}/`],
+          };
+        });
+      case 'line':
+        return this.partSql(child, LINE_SEPARATOR_SQL);
+      case 'section':
+        return this.partSql(child, SECTION_SEPARATOR_SQL);
+    }
+  }
+
+  // Splits candidate notes into parts (lines or sections) with a recursive
+  // CTE, and matches notes where one part satisfies the whole expression
+  private partSql(child: QueryNode, separator: string): Fragment {
+    const name = `part${this.ctes.length}`;
+    const required = requiredMatch(child);
+    this.ctes.push({
+      sql:
+        `${name}(path, part, rest) AS (` +
+        `SELECT path, NULL, content || ${separator} FROM fts` +
+        (required ? ' WHERE fts MATCH ?' : '') +
+        ' UNION ALL ' +
+        `SELECT path, substr(rest, 1, instr(rest, ${separator}) - 1), substr(rest, instr(rest, ${separator}) + 1) FROM ${name} WHERE instr(rest, ${separator}) > 0)`,
+      params: required ? [required] : [],
+    });
+
+    const condition = mapTerms(child, text => ({
+      sql: "part LIKE ? ESCAPE '\\'",
+      params: [escapeLike(text)],
+    }));
+    return {
+      sql: `path IN (SELECT path FROM ${name} WHERE ${condition.sql})`,
+      params: condition.params,
+    };
+  }
+}
+
+/**
+ * Compiles a search query (see `parseSearchQuery`) into a SELECT over the
+ * `fts` table returning path, title, snippet and rank. Top-level words and
+ * phrases become the FTS5 MATCH that ranks results; filters and anything
+ * FTS5 can't express become SQL conditions. Returns null when the query
+ * has nothing to search for.
+ */
+export function compileSearchQuery(query: string, limit = 50): CompiledQuery | null {
+  const root = parseSearchQuery(query);
+  return root ? new QueryCompiler().compile(root, limit) : null;
+}
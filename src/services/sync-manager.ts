@@ -0,0 +1,188 @@
+import type {GitSync, PullResult, SyncPhase, SyncStatus} from '../types';
+import {useVaultStore} from '../store';
+import {gitSync} from './git-sync';
+import {indexService} from './index-service';
+import type {IndexService} from './index-service';
+
+const INITIAL_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+
+// Which half of a sync to run: 'pull' only fetches remote changes, 'push'
+// commits and pushes local ones without pulling first.
+export type SyncDirection = 'pull' | 'push' | 'both';
+
+/**
+ * Errors worth retrying on their own: the request never reached the remote,
+ * or the remote is temporarily unavailable.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.name === 'HttpError') {
+    const statusCode = (error as Error & {data?: {statusCode?: number}}).data
+      ?.statusCode;
+    return statusCode === 429 || (statusCode !== undefined && statusCode >= 500);
+  }
+  return /network|timed out|timeout/i.test(error.message);
+}
+
+export function retryDelay(failures: number): number {
+  return Math.min(
+    INITIAL_RETRY_DELAY_MS * 2 ** Math.max(failures - 1, 0),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+/**
+ * Runs pull → commit → push as a single state machine and publishes each
+ * phase to `useVaultStore.syncStatus`. Only one sync runs at a time: a
+ * request made while one is running is queued behind it, and further
+ * requests share that queued run. Network failures schedule a retry with
+ * exponential backoff; any new request replaces the scheduled retry.
+ */
+export class SyncManager {
+  private running: Promise<PullResult> | null = null;
+  private queued: Promise<PullResult> | null = null;
+  private queuedMessage = '';
+  private queuedDirection: SyncDirection = 'both';
+  private failures = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private git: GitSync,
+    private index?: Pick<IndexService, 'reindexPaths'>,
+  ) {}
+
+  sync(
+    message: string,
+    direction: SyncDirection = 'both',
+  ): Promise<PullResult> {
+    this.cancelRetry();
+
+    if (!this.running) {
+      return this.start(message, direction);
+    }
+
+    this.queuedMessage = message;
+    if (!this.queued) {
+      this.queuedDirection = direction;
+      this.queued = this.running
+        .catch(() => undefined)
+        .then(() => {
+          this.queued = null;
+          return this.start(this.queuedMessage, this.queuedDirection);
+        });
+    } else if (this.queuedDirection !== direction) {
+      this.queuedDirection = 'both';
+    }
+    return this.queued;
+  }
+
+  /**
+   * Commits the resolution of a conflict, then pushes it in the background
+   * so other devices stop seeing the conflicting version.
+   */
+  async resolveConflict(path: string, content: string): Promise<void> {
+    await this.git.resolveConflict(path, content);
+    this.sync(`Resolve conflict in ${path}`, 'push').catch(error =>
+      console.warn('Failed to push the resolved conflict:', error),
+    );
+  }
+
+  isSyncing(): boolean {
+    return this.running !== null;
+  }
+
+  cancelRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private start(
+    message: string,
+    direction: SyncDirection,
+  ): Promise<PullResult> {
+    const run = this.run(message, direction).finally(() => {
+      this.running = null;
+    });
+    this.running = run;
+    return run;
+  }
+
+  private async run(
+    message: string,
+    direction: SyncDirection,
+  ): Promise<PullResult> {
+    try {
+      let pullResult: PullResult = {updated: [], conflicts: []};
+      if (direction !== 'push') {
+        this.publish('pulling');
+        pullResult = await this.git.pull();
+        // Runs in the background; search catches up once it finishes
+        this.index?.reindexPaths(pullResult.updated);
+      }
+
+      if (direction !== 'pull') {
+        if ((await this.git.getPendingChanges()).length > 0) {
+          this.publish('committing');
+        }
+        // Runs even with nothing pending, to push commits an earlier sync
+        // left behind; it returns early when there is nothing to push
+        await this.git.commitAndPush(message, () => this.publish('pushing'));
+      }
+
+      const status = await this.git.status();
+      useVaultStore.getState().setSyncStatus({...status, phase: 'done'});
+      this.failures = 0;
+      return pullResult;
+    } catch (error) {
+      this.fail(error, message, direction);
+      throw error;
+    }
+  }
+
+  private publish(phase: SyncPhase): void {
+    const {syncStatus, setSyncStatus} = useVaultStore.getState();
+    setSyncStatus({
+      state: 'pending',
+      pendingChanges: syncStatus.pendingChanges,
+      lastSyncAt: syncStatus.lastSyncAt,
+      phase,
+    });
+  }
+
+  private fail(
+    error: unknown,
+    message: string,
+    direction: SyncDirection,
+  ): void {
+    const {syncStatus, setSyncStatus} = useVaultStore.getState();
+    let errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    if (isNetworkError(error)) {
+      this.failures += 1;
+      const delay = retryDelay(this.failures);
+      errorMessage = `${errorMessage} Retrying in ${Math.round(delay / 1000)}s.`;
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.sync(message, direction).catch(retryError =>
+          console.warn('Sync retry failed:', retryError),
+        );
+      }, delay);
+    }
+
+    const status: SyncStatus = {
+      state: 'error',
+      pendingChanges: syncStatus.pendingChanges,
+      lastSyncAt: syncStatus.lastSyncAt,
+      phase: 'error',
+      error: errorMessage,
+    };
+    setSyncStatus(status);
+  }
+}
+
+export const syncManager = new SyncManager(gitSync, indexService);
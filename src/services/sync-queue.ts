@@ -1,16 +1,28 @@
 import {create} from 'zustand';
 import {persist, createJSONStorage} from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import type {SyncQueueItem} from '../types';
+import {vaultScopedStorage} from './vault-registry';
+
+type ChangeAction = SyncQueueItem['action'];
+
+function isWithin(path: string, folder: string): boolean {
+  return path.startsWith(`${folder}/`);
+}
 
 interface SyncQueueState {
   queue: SyncQueueItem[];
-  addToQueue: (path: string, action: 'add' | 'modify' | 'delete') => void;
+  addToQueue: (path: string, action: ChangeAction) => void;
   getQueue: () => SyncQueueItem[];
   clearQueue: () => void;
   removeFromQueue: (path: string) => void;
 }
 
+/**
+ * The persisted record of local vault changes that have not been pushed
+ * yet. Every mutation of the vault is recorded here, and
+ * `gitSync.commitAndPush` stages and dequeues from it. Each vault has its
+ * own queue, loaded by `activateVault`.
+ */
 export const useSyncQueueStore = create<SyncQueueState>()(
   persist(
     (set, get) => ({
@@ -18,15 +30,20 @@ export const useSyncQueueStore = create<SyncQueueState>()(
 
       addToQueue: (path, action) => {
         set(state => {
-          const existing = state.queue.find(item => item.path === path);
+          // Deleting a folder also deletes everything queued inside it
+          const queue =
+            action === 'delete'
+              ? state.queue.filter(item => !isWithin(item.path, path))
+              : state.queue;
+          const existing = queue.find(item => item.path === path);
           if (existing) {
             if (action === 'delete' && existing.action === 'add') {
               return {
-                queue: state.queue.filter(item => item.path !== path),
+                queue: queue.filter(item => item.path !== path),
               };
             }
             return {
-              queue: state.queue.map(item =>
+              queue: queue.map(item =>
                 item.path === path
                   ? {...item, action, queuedAt: Date.now()}
                   : item,
@@ -34,10 +51,7 @@ export const useSyncQueueStore = create<SyncQueueState>()(
             };
           }
           return {
-            queue: [
-              ...state.queue,
-              {path, action, queuedAt: Date.now()},
-            ],
+            queue: [...queue, {path, action, queuedAt: Date.now()}],
           };
         });
       },
@@ -54,18 +68,34 @@ export const useSyncQueueStore = create<SyncQueueState>()(
     }),
     {
       name: 'sync-queue-storage',
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => vaultScopedStorage),
+      skipHydration: true,
+      // A vault with nothing stored starts with an empty queue
+      merge: (persisted, current) => ({
+        ...current,
+        queue: (persisted as Partial<SyncQueueState> | undefined)?.queue ?? [],
+      }),
     },
   ),
 );
 
-export function addToQueue(
-  path: string,
-  action: 'add' | 'modify' | 'delete',
-): void {
+/**
+ * Records a local change to a vault path. Folder paths are staged
+ * recursively, so a folder rename or delete is a single entry.
+ */
+export function addToQueue(path: string, action: ChangeAction): void {
   useSyncQueueStore.getState().addToQueue(path, action);
 }
 
+export function queueRename(oldPath: string, newPath: string): void {
+  addToQueue(oldPath, 'delete');
+  addToQueue(newPath, 'add');
+}
+
+export function hasPendingChanges(): boolean {
+  return getQueue().length > 0;
+}
+
 export function getQueue(): SyncQueueItem[] {
   return useSyncQueueStore.getState().getQueue();
 }
@@ -73,3 +103,7 @@ export function getQueue(): SyncQueueItem[] {
 export function clearQueue(): void {
   useSyncQueueStore.getState().clearQueue();
 }
+
+export function removeFromQueue(path: string): void {
+  useSyncQueueStore.getState().removeFromQueue(path);
+}
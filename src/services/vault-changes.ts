@@ -0,0 +1,81 @@
+import {vaultFS} from './vault-fs';
+import {indexDB} from './index-db';
+import {VaultIndexer} from './indexer';
+import {addToQueue, queueRename} from './sync-queue';
+import {movedPath} from '../utils/path';
+
+// Vault mutations made from the UI. Each one writes through `vaultFS`,
+// records the change in the sync queue so the next sync pushes it, and
+// updates the index so search and backlinks match the vault right away.
+
+const indexer = new VaultIndexer(vaultFS, indexDB);
+
+// The file change has already happened, so an index failure is only logged;
+// the next full index at startup catches up.
+async function updateIndex(update: () => Promise<void>): Promise<void> {
+  try {
+    await update();
+  } catch (error) {
+    console.warn('Failed to update the index:', error);
+  }
+}
+
+function indexNote(path: string, content: string): Promise<void> {
+  return updateIndex(() => indexer.indexFile(path, content, Date.now()));
+}
+
+// Links such as `[[Note]]` written before the note existed now reach it
+function relinkTo(path: string): Promise<void> {
+  return updateIndex(() => indexer.relinkTo(path));
+}
+
+export async function createNote(path: string, content: string): Promise<void> {
+  await vaultFS.writeFile(path, content);
+  addToQueue(path, 'add');
+  await indexNote(path, content);
+  await relinkTo(path);
+}
+
+export async function saveNote(path: string, content: string): Promise<void> {
+  await vaultFS.writeFile(path, content);
+  addToQueue(path, 'modify');
+  await indexNote(path, content);
+}
+
+export async function renamePath(
+  oldPath: string,
+  newPath: string,
+): Promise<void> {
+  await vaultFS.renameFile(oldPath, newPath);
+  queueRename(oldPath, newPath);
+  await updateIndex(async () => {
+    if (await vaultFS.isIgnored(newPath)) {
+      await indexDB.deleteFileMeta(oldPath);
+      return;
+    }
+    // Links into the moved path are resolved again once it has moved, so
+    // `[[Old Name]]` stops reaching a note that was renamed
+    const sources = await indexer.linkSources(oldPath);
+    await indexDB.movePath(oldPath, newPath);
+    // A note without a heading takes its title from the file name
+    if (newPath.endsWith('.md')) {
+      const content = await vaultFS.readFile(newPath);
+      await indexer.indexFile(newPath, content, Date.now());
+      await indexer.relinkTo(newPath);
+    }
+    await indexer.relink(
+      sources.map(source => movedPath(source, oldPath, newPath) ?? source),
+    );
+  });
+}
+
+export async function deletePath(path: string): Promise<void> {
+  await vaultFS.deleteFile(path);
+  addToQueue(path, 'delete');
+  await updateIndex(() => indexDB.deleteFileMeta(path));
+}
+
+export async function createFolder(path: string): Promise<void> {
+  await vaultFS.createFolder(path);
+  addToQueue(path, 'add');
+}
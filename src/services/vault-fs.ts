@@ -1,6 +1,8 @@
 import * as RNFS from 'react-native-fs';
 import type {VaultFS, FileNode, FileStat} from '../types';
 import {normalizePath, joinPath, getFileName} from '../utils/path';
+import {createIgnoreMatcher} from '../utils/ignore';
+import type {IgnoreMatcher} from '../utils/ignore';
 import {useVaultStore} from '../store';
 
 const DEFAULT_IGNORE_PATTERNS = ['.git', '.obsidian'];
@@ -11,6 +13,10 @@ interface VaultFSOptions {
 
 class VaultFSImpl implements VaultFS {
   private ignorePatterns: string[];
+  private ignoreMatcher: IgnoreMatcher | null = null;
+  private userIgnorePatterns: string[] | null = null;
+  // The matcher reads .gitignore, so it belongs to one vault
+  private matcherVaultPath: string | null = null;
   private treeCache: Map<string, {tree: FileNode[]; timestamp: number}> =
     new Map();
   private readonly CACHE_TTL_MS = 5000;
@@ -40,14 +46,41 @@ class VaultFSImpl implements VaultFS {
     return normalized;
   }
 
-  private shouldIgnore(name: string): boolean {
-    return this.ignorePatterns.some(
-      pattern => name === pattern || name.startsWith(pattern + '/'),
-    );
+  // Built-in patterns first, then the vault's .gitignore, then the
+  // patterns from Settings, so later ones can override earlier ones
+  private async getIgnoreMatcher(): Promise<IgnoreMatcher> {
+    const userPatterns = useVaultStore.getState().ignorePatterns;
+    if (
+      this.ignoreMatcher &&
+      this.userIgnorePatterns === userPatterns &&
+      this.matcherVaultPath === this.getVaultPath()
+    ) {
+      return this.ignoreMatcher;
+    }
+
+    let gitignore = '';
+    try {
+      const gitignorePath = joinPath(this.getVaultPath(), '.gitignore');
+      if (await RNFS.exists(gitignorePath)) {
+        gitignore = await RNFS.readFile(gitignorePath, 'utf8');
+      }
+    } catch (err) {
+      console.warn('Failed to read .gitignore:', err);
+    }
+
+    this.ignoreMatcher = createIgnoreMatcher([
+      ...this.ignorePatterns,
+      ...gitignore.split('\n'),
+      ...userPatterns,
+    ]);
+    this.userIgnorePatterns = userPatterns;
+    this.matcherVaultPath = this.getVaultPath();
+    return this.ignoreMatcher;
   }
 
   private invalidateCache(): void {
     this.treeCache.clear();
+    this.ignoreMatcher = null;
   }
 
   async readFile(path: string): Promise<string> {
@@ -99,19 +132,30 @@ class VaultFSImpl implements VaultFS {
     const startDir = dir ? this.toAbsolutePath(dir) : this.getVaultPath();
     const cacheKey = startDir;
 
+    const patternsChanged =
+      this.userIgnorePatterns !== useVaultStore.getState().ignorePatterns;
     const cached = this.treeCache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL_MS) {
+    if (
+      cached &&
+      !patternsChanged &&
+      Date.now() - cached.timestamp < this.CACHE_TTL_MS
+    ) {
       return cached.tree;
     }
 
-    const tree = await this.buildTree(startDir);
+    // .gitignore may have changed on disk, e.g. after a pull
+    this.ignoreMatcher = null;
+    const tree = await this.buildTree(startDir, await this.getIgnoreMatcher());
 
     this.treeCache.set(cacheKey, {tree, timestamp: Date.now()});
 
     return tree;
   }
 
-  private async buildTree(dir: string): Promise<FileNode[]> {
+  private async buildTree(
+    dir: string,
+    isIgnored: IgnoreMatcher,
+  ): Promise<FileNode[]> {
     const exists = await RNFS.exists(dir);
     if (!exists) {
       return [];
@@ -122,20 +166,21 @@ class VaultFSImpl implements VaultFS {
 
     for (const item of items) {
       const name = getFileName(item.path);
+      const path = this.toRelativePath(item.path);
 
-      if (this.shouldIgnore(name)) {
+      if (isIgnored(path, item.isDirectory())) {
         continue;
       }
 
       const node: FileNode = {
-        path: this.toRelativePath(item.path),
+        path,
         name,
         isDirectory: item.isDirectory(),
         modifiedAt: item.mtime ? new Date(item.mtime).getTime() : undefined,
       };
 
       if (item.isDirectory()) {
-        node.children = await this.buildTree(item.path);
+        node.children = await this.buildTree(item.path, isIgnored);
       }
 
       nodes.push(node);
@@ -174,6 +219,14 @@ class VaultFSImpl implements VaultFS {
     const absPath = this.toAbsolutePath(path);
     return RNFS.exists(absPath);
   }
+
+  async isIgnored(path: string, isDirectory = false): Promise<boolean> {
+    const isIgnoredPath = await this.getIgnoreMatcher();
+    return isIgnoredPath(
+      this.toRelativePath(this.toAbsolutePath(path)),
+      isDirectory,
+    );
+  }
 }
 
 export const vaultFS = new VaultFSImpl();
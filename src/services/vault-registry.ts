@@ -0,0 +1,112 @@
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import type {StateStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as RNFS from 'react-native-fs';
+import type {VaultInfo} from '../types';
+
+/**
+ * The vault that existed before multi-vault support. It keeps the original
+ * directory, storage keys, keychain entry and database, so upgrading does
+ * not lose anything.
+ */
+export const DEFAULT_VAULT_ID = 'default';
+
+const DEFAULT_VAULT: VaultInfo = {
+  id: DEFAULT_VAULT_ID,
+  name: 'Vault',
+  createdAt: 0,
+};
+
+interface VaultRegistryState {
+  vaults: VaultInfo[];
+  activeVaultId: string;
+  addVault: (name: string) => VaultInfo;
+  renameVault: (id: string, name: string) => void;
+  removeVault: (id: string) => void;
+  setActiveVault: (id: string) => void;
+}
+
+function createVaultId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export const useVaultRegistry = create<VaultRegistryState>()(
+  persist(
+    (set, get) => ({
+      vaults: [DEFAULT_VAULT],
+      activeVaultId: DEFAULT_VAULT_ID,
+
+      addVault: name => {
+        const vault: VaultInfo = {
+          id: createVaultId(),
+          name,
+          createdAt: Date.now(),
+        };
+        set(state => ({vaults: [...state.vaults, vault]}));
+        return vault;
+      },
+
+      renameVault: (id, name) => {
+        set(state => ({
+          vaults: state.vaults.map(vault =>
+            vault.id === id ? {...vault, name} : vault,
+          ),
+        }));
+      },
+
+      removeVault: id => {
+        if (id === get().activeVaultId) {
+          throw new Error('Switch to another vault before removing this one');
+        }
+        set(state => ({vaults: state.vaults.filter(vault => vault.id !== id)}));
+      },
+
+      setActiveVault: id => {
+        if (!get().vaults.some(vault => vault.id === id)) {
+          throw new Error(`Unknown vault: ${id}`);
+        }
+        set({activeVaultId: id});
+      },
+    }),
+    {
+      name: 'vault-registry-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export function getActiveVaultId(): string {
+  return useVaultRegistry.getState().activeVaultId;
+}
+
+export function getActiveVault(): VaultInfo {
+  const {vaults, activeVaultId} = useVaultRegistry.getState();
+  return vaults.find(vault => vault.id === activeVaultId) ?? DEFAULT_VAULT;
+}
+
+export function vaultDir(id: string = getActiveVaultId()): string {
+  return id === DEFAULT_VAULT_ID
+    ? `${RNFS.DocumentDirectoryPath}/vault`
+    : `${RNFS.DocumentDirectoryPath}/vaults/${id}`;
+}
+
+/** Scopes a storage key, keychain service or file name to a vault. */
+export function vaultKey(base: string, id: string = getActiveVaultId()): string {
+  return id === DEFAULT_VAULT_ID ? base : `${base}:${id}`;
+}
+
+export function vaultDbName(id: string = getActiveVaultId()): string {
+  return id === DEFAULT_VAULT_ID ? 'vault_index.db' : `vault_index_${id}.db`;
+}
+
+/**
+ * AsyncStorage for persisted stores whose contents belong to one vault.
+ * Keys follow the active vault; call `persist.rehydrate()` on the store
+ * after switching.
+ */
+export const vaultScopedStorage: StateStorage = {
+  getItem: name => AsyncStorage.getItem(vaultKey(name)),
+  setItem: (name, value) => AsyncStorage.setItem(vaultKey(name), value),
+  removeItem: name => AsyncStorage.removeItem(vaultKey(name)),
+};
@@ -0,0 +1,203 @@
+import {indexDB} from './index-db';
+import {vaultFS} from './vault-fs';
+import {saveNote} from './vault-changes';
+import {compileSearchRegex, findMatches, scanNotes} from './regex-search';
+import type {RegexMatch} from './regex-search';
+import type {IndexDB, VaultFS} from '../types';
+
+export interface ReplaceMatch extends RegexMatch {
+  /** Identifies the match within a plan, for excluding it. */
+  id: string;
+  /** What the match becomes, with `$1`-style references expanded. */
+  replacement: string;
+  /** The match's line with only this match replaced. */
+  preview: string;
+}
+
+export interface ReplaceFile {
+  path: string;
+  title: string;
+  /** The note as read when planning. */
+  content: string;
+  matches: ReplaceMatch[];
+}
+
+export interface ReplacePlan {
+  files: ReplaceFile[];
+  /** Matches across all notes. */
+  matches: number;
+}
+
+export interface ReplaceOptions {
+  /** Treats the pattern as a regular expression rather than literal text. */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  signal?: AbortSignal;
+}
+
+/** Writes a note; `saveNote` also queues it for sync and reindexes it. */
+export type SaveNote = (path: string, content: string) => Promise<void>;
+
+export interface ReplaceOperation {
+  /** Each changed note before and after the replacement. */
+  files: Array<{path: string; before: string; after: string}>;
+  /** Matches replaced across all notes. */
+  matches: number;
+  /** Notes left alone because they changed after the plan was made. */
+  skipped: string[];
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Runs the regex again at the match's offset so `$1`, `$<name>`, `` $` ``
+// and lookbehinds see the whole note, then cuts the expansion back out
+function expandReplacement(
+  regex: RegExp,
+  content: string,
+  match: RegexMatch,
+  replacement: string,
+): string {
+  const sticky = new RegExp(regex.source, regex.flags.replace('g', '') + 'y');
+  sticky.lastIndex = match.index;
+  const replaced = content.replace(sticky, replacement);
+  const tail = content.length - match.index - match.text.length;
+  return replaced.slice(match.index, replaced.length - tail);
+}
+
+function previewLine(content: string, match: RegexMatch, replacement: string): string {
+  const end = match.index + match.text.length;
+  const lineEnd = content.indexOf('\n', end);
+  return (
+    content.slice(match.index - match.column, match.index) +
+    replacement +
+    content.slice(end, lineEnd === -1 ? content.length : lineEnd)
+  ).replace(/\r$/, '');
+}
+
+/** Applies the replacements of `file` that are not in `excluded`. */
+export function replaceInContent(
+  file: ReplaceFile,
+  excluded: ReadonlySet<string> = new Set(),
+): {content: string; matches: number} {
+  let content = file.content;
+  let matches = 0;
+  // From the end, so earlier offsets stay valid
+  for (let i = file.matches.length - 1; i >= 0; i--) {
+    const match = file.matches[i];
+    if (!match || excluded.has(match.id)) {
+      continue;
+    }
+    content =
+      content.slice(0, match.index) +
+      match.replacement +
+      content.slice(match.index + match.text.length);
+    matches++;
+  }
+  return {content, matches};
+}
+
+/**
+ * Finds every match of `pattern` in the vault and what each would become,
+ * without changing anything. Throws a SyntaxError for an invalid regex.
+ */
+export async function planReplace(
+  pattern: string,
+  replacement: string,
+  options: ReplaceOptions = {},
+  db: IndexDB = indexDB,
+  vault: VaultFS = vaultFS,
+): Promise<ReplacePlan> {
+  const {regex: isRegex = false, caseSensitive = false, signal} = options;
+  const regex = compileSearchRegex(isRegex ? pattern : escapeRegex(pattern), caseSensitive);
+
+  const plan: ReplacePlan = {files: [], matches: 0};
+  await scanNotes(
+    (file, content) => {
+      const matches = findMatches(content, regex).map(match => {
+        const text = isRegex
+          ? expandReplacement(regex, content, match, replacement)
+          : replacement;
+        return {
+          ...match,
+          id: `${file.path}:${match.index}`,
+          replacement: text,
+          preview: previewLine(content, match, text),
+        };
+      });
+      if (matches.length > 0) {
+        plan.files.push({path: file.path, title: file.title, content, matches});
+        plan.matches += matches.length;
+      }
+    },
+    signal,
+    db,
+    vault,
+  );
+  return plan;
+}
+
+/**
+ * Saves every note in `plan` with its matches replaced, except those in
+ * `excluded`. Each save is queued for the next sync and reindexed like an
+ * edit. Notes edited since the plan are skipped; if a save fails, the notes
+ * already saved are put back so the vault never holds half a replacement.
+ */
+export async function applyReplace(
+  plan: ReplacePlan,
+  excluded: ReadonlySet<string> = new Set(),
+  vault: VaultFS = vaultFS,
+  save: SaveNote = saveNote,
+): Promise<ReplaceOperation> {
+  const operation: ReplaceOperation = {files: [], matches: 0, skipped: []};
+  const changes: Array<{file: ReplaceFile; content: string; matches: number}> = [];
+
+  for (const file of plan.files) {
+    const result = replaceInContent(file, excluded);
+    if (result.matches === 0) {
+      continue;
+    }
+    const current = await vault.readFile(file.path).catch(() => null);
+    if (current !== file.content) {
+      operation.skipped.push(file.path);
+      continue;
+    }
+    changes.push({file, ...result});
+  }
+
+  try {
+    for (const {file, content, matches} of changes) {
+      await save(file.path, content);
+      operation.files.push({path: file.path, before: file.content, after: content});
+      operation.matches += matches;
+    }
+  } catch (error) {
+    await undoReplace(operation, vault, save).catch(undoError =>
+      console.warn('Failed to roll back the replacement:', undoError),
+    );
+    throw error;
+  }
+  return operation;
+}
+
+/**
+ * Puts back the notes changed by `operation`. Notes edited since are left
+ * alone; their paths are returned.
+ */
+export async function undoReplace(
+  operation: ReplaceOperation,
+  vault: VaultFS = vaultFS,
+  save: SaveNote = saveNote,
+): Promise<string[]> {
+  const skipped: string[] = [];
+  for (const file of operation.files) {
+    const current = await vault.readFile(file.path).catch(() => null);
+    if (current !== file.after) {
+      skipped.push(file.path);
+      continue;
+    }
+    await save(file.path, file.before);
+  }
+  return skipped;
+}
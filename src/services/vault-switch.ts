@@ -0,0 +1,135 @@
+import * as RNFS from 'react-native-fs';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {useVaultStore} from '../store';
+import {clearToken} from './auth';
+import {useConflictStore} from './conflict-store';
+import {gitSync} from './git-sync';
+import {deleteIndexDB, indexDB} from './index-db';
+import {indexService} from './index-service';
+import {useSyncQueueStore} from './sync-queue';
+import {syncManager} from './sync-manager';
+import {
+  getActiveVault,
+  useVaultRegistry,
+  vaultDir,
+  vaultKey,
+} from './vault-registry';
+import type {VaultInfo} from '../types';
+
+// Storage keys that hold per-vault data, removed with the vault. Keep in
+// sync with the modules that pass them through `vaultKey`.
+const VAULT_STORAGE_KEYS = [
+  'sync-queue-storage',
+  'conflict-storage',
+  'vault_tree_cache',
+  '@obsidian_git_recent_notes',
+  '@obsidian_git_sync_interval',
+  '@obsidian_git_change_detection',
+  '@obsidian_git_sync_on_app_state',
+  '@obsidian_git_sync_after_edit',
+  '@obsidian_git_ignore_patterns',
+];
+
+function registryReady(): Promise<void> {
+  const {persist} = useVaultRegistry;
+  if (persist.hasHydrated()) {
+    return Promise.resolve();
+  }
+  return new Promise(resolve => {
+    const unsubscribe = persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
+/**
+ * Points every vault-scoped service at the active vault: the working tree,
+ * credentials, sync queue, conflicts, recent notes and the sync and ignore
+ * settings. Called once at
+ * startup and after each switch. The index database is closed here and
+ * opened again by the next `indexDB.init()`.
+ */
+export async function activateVault(): Promise<void> {
+  await registryReady();
+  const vault = getActiveVault();
+
+  gitSync.reset();
+  indexService.cancel();
+  await indexDB.close();
+
+  await Promise.all([
+    useSyncQueueStore.persist.rehydrate(),
+    useConflictStore.persist.rehydrate(),
+  ]);
+
+  const store = useVaultStore.getState();
+  useVaultStore.setState({
+    vaultPath: vaultDir(vault.id),
+    vaultName: vault.name,
+    currentNote: null,
+    currentPath: [],
+    fileTree: [],
+    expandedFolders: new Set<string>(),
+    syncStatus: {state: 'offline', pendingChanges: 0, lastSyncAt: null},
+  });
+  await Promise.all([
+    store.loadRecentNotes(),
+    store.loadSyncInterval(),
+    store.loadChangeDetection(),
+    store.loadSyncOnAppState(),
+    store.loadSyncAfterEdit(),
+    store.loadIgnorePatterns(),
+  ]);
+}
+
+export async function switchVault(id: string): Promise<void> {
+  if (id === getActiveVault().id) {
+    return;
+  }
+  if (syncManager.isSyncing()) {
+    throw new Error('Wait for the sync to finish before switching vaults');
+  }
+  syncManager.cancelRetry();
+
+  useVaultRegistry.getState().setActiveVault(id);
+  await RNFS.mkdir(vaultDir(id));
+  await activateVault();
+  await indexDB.init();
+  indexService.indexVault();
+  useVaultStore.getState().setSyncStatus(await gitSync.status());
+}
+
+export function renameVault(id: string, name: string): void {
+  useVaultRegistry.getState().renameVault(id, name);
+  if (id === getActiveVault().id) {
+    useVaultStore.getState().setVaultName(name);
+  }
+}
+
+/** Registers a new, empty vault and switches to it. */
+export async function createVault(name: string): Promise<VaultInfo> {
+  const vault = useVaultRegistry.getState().addVault(name);
+  await switchVault(vault.id);
+  return vault;
+}
+
+/**
+ * Removes a vault that is not active, along with its files, credentials,
+ * queue and index.
+ */
+export async function deleteVault(id: string): Promise<void> {
+  useVaultRegistry.getState().removeVault(id);
+
+  const dir = vaultDir(id);
+  if (await RNFS.exists(dir)) {
+    await RNFS.unlink(dir);
+  }
+  await clearToken(id);
+  await AsyncStorage.multiRemove(VAULT_STORAGE_KEYS.map(key => vaultKey(key, id)));
+  try {
+    deleteIndexDB(id);
+  } catch {
+    // The index may never have been created
+  }
+}
@@ -1,13 +1,24 @@
 import {create} from 'zustand';
-import * as RNFS from 'react-native-fs';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type {FileMeta, FileNode, SyncStatus, SyncQueueItem} from '../types';
+import type {
+  ChangeDetection,
+  FileMeta,
+  FileNode,
+  SyncStatus,
+} from '../types';
 import {vaultFS} from '../services/vault-fs';
+import {vaultDir, vaultKey} from '../services/vault-registry';
 
 const RECENT_NOTES_KEY = '@obsidian_git_recent_notes';
 const MAX_RECENT_NOTES = 10;
 
+// Sync and ignore settings are kept per vault, under `vaultKey`; their
+// loaders fall back to the defaults for a vault that has none
 const SYNC_INTERVAL_KEY = '@obsidian_git_sync_interval';
+const CHANGE_DETECTION_KEY = '@obsidian_git_change_detection';
+const SYNC_ON_APP_STATE_KEY = '@obsidian_git_sync_on_app_state';
+const SYNC_AFTER_EDIT_KEY = '@obsidian_git_sync_after_edit';
+const IGNORE_PATTERNS_KEY = '@obsidian_git_ignore_patterns';
 
 interface VaultState {
   currentNote: FileMeta | null;
@@ -15,13 +26,16 @@ interface VaultState {
   fileTree: FileNode[];
   recentNotes: FileMeta[];
   syncStatus: SyncStatus;
-  syncQueue: SyncQueueItem[];
   isLoading: boolean;
   vaultPath: string;
   expandedFolders: Set<string>;
   quickSwitcherVisible: boolean;
   vaultName: string;
   syncInterval: number; // in minutes, 0 = disabled
+  changeDetection: ChangeDetection;
+  syncOnAppState: boolean; // pull on foreground, push on background
+  syncAfterEdit: number; // in seconds, 0 = disabled
+  ignorePatterns: string[]; // .gitignore syntax, applied after .gitignore
 
   setCurrentNote: (note: FileMeta | null) => void;
   setCurrentPath: (path: string[]) => void;
@@ -30,8 +44,6 @@ interface VaultState {
   addRecentNote: (note: FileMeta) => void;
   loadRecentNotes: () => Promise<void>;
   setSyncStatus: (status: SyncStatus) => void;
-  addToSyncQueue: (path: string, action: 'add' | 'modify' | 'delete') => void;
-  clearSyncQueue: () => void;
   setIsLoading: (loading: boolean) => void;
   setVaultPath: (path: string) => void;
   toggleFolder: (path: string) => void;
@@ -41,6 +53,14 @@ interface VaultState {
   setVaultName: (name: string) => void;
   setSyncInterval: (interval: number) => void;
   loadSyncInterval: () => Promise<void>;
+  setChangeDetection: (mode: ChangeDetection) => void;
+  loadChangeDetection: () => Promise<void>;
+  setSyncOnAppState: (enabled: boolean) => void;
+  loadSyncOnAppState: () => Promise<void>;
+  setSyncAfterEdit: (delay: number) => void;
+  loadSyncAfterEdit: () => Promise<void>;
+  setIgnorePatterns: (patterns: string[]) => void;
+  loadIgnorePatterns: () => Promise<void>;
   refreshTree: () => Promise<void>;
 }
 
@@ -54,13 +74,16 @@ export const useVaultStore = create<VaultState>((set, get) => ({
     pendingChanges: 0,
     lastSyncAt: null,
   },
-  syncQueue: [],
   isLoading: false,
-  vaultPath: `${RNFS.DocumentDirectoryPath}/vault`,
+  vaultPath: vaultDir(),
   expandedFolders: new Set<string>(),
   quickSwitcherVisible: false,
   vaultName: 'Vault',
   syncInterval: 0,
+  changeDetection: 'queue',
+  syncOnAppState: false,
+  syncAfterEdit: 0,
+  ignorePatterns: [],
 
   setCurrentNote: note => set({currentNote: note}),
   setCurrentPath: path => set({currentPath: path}),
@@ -71,43 +94,21 @@ export const useVaultStore = create<VaultState>((set, get) => ({
     const filtered = current.filter(n => n.path !== note.path);
     const updated = [note, ...filtered].slice(0, MAX_RECENT_NOTES);
     set({recentNotes: updated});
-    AsyncStorage.setItem(RECENT_NOTES_KEY, JSON.stringify(updated)).catch(
-      err => console.warn('Failed to persist recent notes:', err),
-    );
+    AsyncStorage.setItem(
+      vaultKey(RECENT_NOTES_KEY),
+      JSON.stringify(updated),
+    ).catch(err => console.warn('Failed to persist recent notes:', err));
   },
   loadRecentNotes: async () => {
     try {
-      const stored = await AsyncStorage.getItem(RECENT_NOTES_KEY);
-      if (stored) {
-        const notes = JSON.parse(stored) as FileMeta[];
-        set({recentNotes: notes});
-      }
+      // Recent notes are kept per vault
+      const stored = await AsyncStorage.getItem(vaultKey(RECENT_NOTES_KEY));
+      set({recentNotes: stored ? (JSON.parse(stored) as FileMeta[]) : []});
     } catch (err) {
       console.warn('Failed to load recent notes:', err);
     }
   },
   setSyncStatus: status => set({syncStatus: status}),
-  addToSyncQueue: (path, action) => {
-    const queue = get().syncQueue;
-    const existing = queue.find(item => item.path === path);
-
-    if (existing) {
-      if (action === 'delete' && existing.action === 'add') {
-        set({syncQueue: queue.filter(item => item.path !== path)});
-        return;
-      }
-      set({
-        syncQueue: queue.map(item =>
-          item.path === path ? {...item, action, queuedAt: Date.now()} : item,
-        ),
-      });
-    } else {
-      set({
-        syncQueue: [...queue, {path, action, queuedAt: Date.now()}],
-      });
-    }
-  },
-  clearSyncQueue: () => set({syncQueue: []}),
   setIsLoading: loading => set({isLoading: loading}),
   setVaultPath: path => set({vaultPath: path}),
   toggleFolder: path => {
@@ -133,23 +134,77 @@ export const useVaultStore = create<VaultState>((set, get) => ({
   setVaultName: name => set({vaultName: name}),
   setSyncInterval: interval => {
     set({syncInterval: interval});
-    AsyncStorage.setItem(SYNC_INTERVAL_KEY, String(interval)).catch(err =>
-      console.warn('Failed to persist sync interval:', err),
+    AsyncStorage.setItem(vaultKey(SYNC_INTERVAL_KEY), String(interval)).catch(
+      err => console.warn('Failed to persist sync interval:', err),
     );
   },
   loadSyncInterval: async () => {
     try {
-      const stored = await AsyncStorage.getItem(SYNC_INTERVAL_KEY);
-      if (stored) {
-        const interval = parseInt(stored, 10);
-        if (!isNaN(interval)) {
-          set({syncInterval: interval});
-        }
-      }
+      const stored = await AsyncStorage.getItem(vaultKey(SYNC_INTERVAL_KEY));
+      const interval = stored ? parseInt(stored, 10) : 0;
+      set({syncInterval: isNaN(interval) ? 0 : interval});
     } catch (err) {
       console.warn('Failed to load sync interval:', err);
     }
   },
+  setChangeDetection: mode => {
+    set({changeDetection: mode});
+    AsyncStorage.setItem(vaultKey(CHANGE_DETECTION_KEY), mode).catch(err =>
+      console.warn('Failed to persist change detection:', err),
+    );
+  },
+  loadChangeDetection: async () => {
+    try {
+      const stored = await AsyncStorage.getItem(vaultKey(CHANGE_DETECTION_KEY));
+      set({changeDetection: stored === 'status' ? 'status' : 'queue'});
+    } catch (err) {
+      console.warn('Failed to load change detection:', err);
+    }
+  },
+  setSyncOnAppState: enabled => {
+    set({syncOnAppState: enabled});
+    AsyncStorage.setItem(vaultKey(SYNC_ON_APP_STATE_KEY), String(enabled)).catch(
+      err => console.warn('Failed to persist app state sync:', err),
+    );
+  },
+  loadSyncOnAppState: async () => {
+    try {
+      const stored = await AsyncStorage.getItem(vaultKey(SYNC_ON_APP_STATE_KEY));
+      set({syncOnAppState: stored === 'true'});
+    } catch (err) {
+      console.warn('Failed to load app state sync:', err);
+    }
+  },
+  setSyncAfterEdit: delay => {
+    set({syncAfterEdit: delay});
+    AsyncStorage.setItem(vaultKey(SYNC_AFTER_EDIT_KEY), String(delay)).catch(
+      err => console.warn('Failed to persist edit sync delay:', err),
+    );
+  },
+  loadSyncAfterEdit: async () => {
+    try {
+      const stored = await AsyncStorage.getItem(vaultKey(SYNC_AFTER_EDIT_KEY));
+      const delay = stored ? parseInt(stored, 10) : 0;
+      set({syncAfterEdit: isNaN(delay) ? 0 : delay});
+    } catch (err) {
+      console.warn('Failed to load edit sync delay:', err);
+    }
+  },
+  setIgnorePatterns: patterns => {
+    set({ignorePatterns: patterns});
+    AsyncStorage.setItem(
+      vaultKey(IGNORE_PATTERNS_KEY),
+      JSON.stringify(patterns),
+    ).catch(err => console.warn('Failed to persist ignore patterns:', err));
+  },
+  loadIgnorePatterns: async () => {
+    try {
+      const stored = await AsyncStorage.getItem(vaultKey(IGNORE_PATTERNS_KEY));
+      set({ignorePatterns: stored ? (JSON.parse(stored) as string[]) : []});
+    } catch (err) {
+      console.warn('Failed to load ignore patterns:', err);
+    }
+  },
   refreshTree: async () => {
     try {
       const tree = await vaultFS.listTree();
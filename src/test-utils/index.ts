@@ -1,4 +1,5 @@
 export {createMockVaultFS} from './mockVaultFS';
 export {createMockGitSync} from './mockGitSync';
+export {createMockIndexDB} from './mockIndexDB';
 export type {MockGitSyncOptions} from './mockGitSync';
 export * from './testData';
@@ -1,8 +1,24 @@
-import type {GitSync, GitAuth, PullResult, SyncStatus} from '../types';
+import type {
+  GitSync,
+  GitAuth,
+  PullResult,
+  SyncStatus,
+  CommitInfo,
+  FileChange,
+  ChangeDetection,
+  BranchInfo,
+} from '../types';
 
 export interface MockGitSyncOptions {
   initialStatus?: SyncStatus;
   pullResult?: PullResult;
+  commits?: CommitInfo[];
+  revisions?: Record<string, Record<string, string>>;
+  pendingChanges?: FileChange[];
+  // Local commits that have not been pushed yet
+  unpushedCommits?: boolean;
+  branches?: string[];
+  shallow?: boolean;
   shouldFailPull?: boolean;
   shouldFailPush?: boolean;
 }
@@ -14,12 +30,21 @@ export function createMockGitSync(options: MockGitSyncOptions = {}): GitSync & {
   const {
     initialStatus = {state: 'synced', pendingChanges: 0, lastSyncAt: Date.now()},
     pullResult = {updated: [], conflicts: []},
+    commits = [],
+    revisions = {},
+    pendingChanges = [],
+    unpushedCommits = false,
+    branches = ['main'],
+    shallow = false,
     shouldFailPull = false,
     shouldFailPush = false,
   } = options;
 
   let status = {...initialStatus};
   let auth: GitAuth | null = null;
+  let currentBranch = branches[0];
+  const localBranches = new Set(branches.slice(0, 1));
+  const remoteBranches = [...branches];
   const calls: {method: string; args: unknown[]}[] = [];
 
   return {
@@ -31,6 +56,15 @@ export function createMockGitSync(options: MockGitSyncOptions = {}): GitSync & {
       auth = authParam;
     },
 
+    async isShallow(): Promise<boolean> {
+      calls.push({method: 'isShallow', args: []});
+      return shallow;
+    },
+
+    async fetchMoreHistory(count: number): Promise<void> {
+      calls.push({method: 'fetchMoreHistory', args: [count]});
+    },
+
     async pull(): Promise<PullResult> {
       calls.push({method: 'pull', args: []});
       if (shouldFailPull) {
@@ -40,8 +74,15 @@ export function createMockGitSync(options: MockGitSyncOptions = {}): GitSync & {
       return pullResult;
     },
 
-    async commitAndPush(message: string): Promise<void> {
+    async commitAndPush(
+      message: string,
+      onPushing?: () => void,
+    ): Promise<void> {
       calls.push({method: 'commitAndPush', args: [message]});
+      // Like GitSyncService, only pushes when there is something to push
+      if (pendingChanges.length > 0 || unpushedCommits) {
+        onPushing?.();
+      }
       if (shouldFailPush) {
         throw new Error('Push failed');
       }
@@ -53,9 +94,63 @@ export function createMockGitSync(options: MockGitSyncOptions = {}): GitSync & {
       return status;
     },
 
+    async resolveConflict(path: string, content: string): Promise<void> {
+      calls.push({method: 'resolveConflict', args: [path, content]});
+    },
+
+    async log(path?: string, limit?: number): Promise<CommitInfo[]> {
+      calls.push({method: 'log', args: [path, limit]});
+      return commits.slice(0, limit);
+    },
+
+    async readFileAt(path: string, ref: string): Promise<string | null> {
+      calls.push({method: 'readFileAt', args: [path, ref]});
+      return revisions[ref]?.[path] ?? null;
+    },
+
+    async getPendingChanges(): Promise<FileChange[]> {
+      calls.push({method: 'getPendingChanges', args: []});
+      return pendingChanges;
+    },
+
+    setChangeDetection(mode: ChangeDetection): void {
+      calls.push({method: 'setChangeDetection', args: [mode]});
+    },
+
+    async listBranches(): Promise<BranchInfo[]> {
+      calls.push({method: 'listBranches', args: []});
+      return [...new Set([...localBranches, ...remoteBranches])].map(name => ({
+        name,
+        current: name === currentBranch,
+        local: localBranches.has(name),
+        remote: remoteBranches.includes(name),
+      }));
+    },
+
+    async switchBranch(name: string): Promise<void> {
+      calls.push({method: 'switchBranch', args: [name]});
+      if (!localBranches.has(name) && !remoteBranches.includes(name)) {
+        throw new Error(`Could not find ${name}`);
+      }
+      localBranches.add(name);
+      currentBranch = name;
+    },
+
+    async createBranch(name: string): Promise<void> {
+      calls.push({method: 'createBranch', args: [name]});
+      localBranches.add(name);
+      remoteBranches.push(name);
+      currentBranch = name;
+    },
+
     setAuth(authParam: GitAuth): void {
       calls.push({method: 'setAuth', args: [authParam]});
       auth = authParam;
     },
+
+    reset(): void {
+      calls.push({method: 'reset', args: []});
+      auth = null;
+    },
   };
 }
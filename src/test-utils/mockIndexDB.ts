@@ -0,0 +1,173 @@
+import type {
+  FileMeta,
+  IndexDB,
+  NoteProperty,
+  NoteTag,
+  SearchResult,
+} from '../types';
+import {movedPath} from '../utils/path';
+
+interface MockIndexTables {
+  files: Map<string, FileMeta>;
+  links: Map<string, string[]>;
+  tags: Map<string, string[]>;
+  properties: Map<string, NoteProperty[]>;
+  fts: Map<string, string>;
+}
+
+function renameKeys<T>(
+  map: Map<string, T>,
+  oldPath: string,
+  newPath: string,
+): void {
+  for (const [path, value] of [...map]) {
+    const moved = movedPath(path, oldPath, newPath);
+    if (moved) {
+      map.delete(path);
+      map.set(moved, value);
+    }
+  }
+}
+
+/**
+ * An in-memory IndexDB with the same semantics as SQLiteIndexDB for links,
+ * tags and moves. FTS matches case-insensitive substrings, highlights the
+ * first match with `**` and ranks earlier matches higher.
+ */
+export function createMockIndexDB(): IndexDB & {_tables: MockIndexTables} {
+  const tables: MockIndexTables = {
+    files: new Map(),
+    links: new Map(),
+    tags: new Map(),
+    properties: new Map(),
+    fts: new Map(),
+  };
+  const {files, links, tags, properties, fts} = tables;
+
+  return {
+    _tables: tables,
+
+    async init(): Promise<void> {},
+    isReady: () => true,
+    async waitUntilReady(): Promise<void> {},
+
+    async upsertFileMeta(file: FileMeta): Promise<void> {
+      files.set(file.path, file);
+    },
+
+    async getFileMeta(path: string): Promise<FileMeta | null> {
+      return files.get(path) ?? null;
+    },
+
+    async getAllFiles(): Promise<FileMeta[]> {
+      return [...files.values()];
+    },
+
+    async updateLinksForFile(sourcePath: string, targets: string[]): Promise<void> {
+      links.set(sourcePath, targets);
+    },
+
+    async getBacklinks(targetPath: string): Promise<string[]> {
+      return [...links]
+        .filter(([, targets]) => targets.includes(targetPath))
+        .map(([source]) => source);
+    },
+
+    async ftsUpsert(path: string, _title: string, content: string): Promise<void> {
+      fts.set(path, content);
+    },
+
+    async ftsSearch(query: string): Promise<SearchResult[]> {
+      const lowerQuery = query.toLowerCase();
+      return [...fts]
+        .map(([path, content]) => ({path, content, at: content.toLowerCase().indexOf(lowerQuery)}))
+        .filter(({at}) => at !== -1)
+        .map(({path, content, at}) => {
+          const end = at + query.length;
+          return {
+            path,
+            title: files.get(path)?.title ?? path,
+            snippet: `${content.slice(0, at)}**${content.slice(at, end)}**${content.slice(end)}`,
+            score: -at,
+          };
+        })
+        .sort((a, b) => b.score - a.score);
+    },
+
+    async indexFile(
+      file: FileMeta,
+      targets: string[],
+      content: string,
+      noteTags: string[],
+      noteProperties: NoteProperty[],
+    ): Promise<void> {
+      files.set(file.path, file);
+      links.set(file.path, targets);
+      tags.set(file.path, noteTags);
+      properties.set(file.path, noteProperties);
+      fts.set(file.path, content);
+    },
+
+    async movePath(oldPath: string, newPath: string): Promise<void> {
+      for (const [path, file] of [...files]) {
+        const moved = movedPath(path, oldPath, newPath);
+        if (moved) {
+          files.delete(path);
+          files.set(moved, {...file, path: moved});
+        }
+      }
+      renameKeys(links, oldPath, newPath);
+      renameKeys(tags, oldPath, newPath);
+      renameKeys(properties, oldPath, newPath);
+      for (const [path, rows] of properties) {
+        properties.set(path, rows.map(row => ({...row, path})));
+      }
+      renameKeys(fts, oldPath, newPath);
+    },
+
+    async deleteFileMeta(path: string): Promise<void> {
+      for (const map of [files, links, tags, properties, fts] as Map<string, unknown>[]) {
+        for (const key of [...map.keys()]) {
+          if (movedPath(key, path, path)) {
+            map.delete(key);
+          }
+        }
+      }
+    },
+
+    async getTags(): Promise<NoteTag[]> {
+      return [...tags].flatMap(([path, noteTags]) =>
+        noteTags.map(tag => ({path, tag})),
+      );
+    },
+
+    async getNotesWithTag(tag: string): Promise<FileMeta[]> {
+      return [...tags]
+        .filter(([, noteTags]) =>
+          noteTags.some(t => t === tag || t.startsWith(`${tag}/`)),
+        )
+        .flatMap(([path]) => files.get(path) ?? [])
+        .sort((a, b) => a.title.localeCompare(b.title));
+    },
+
+    async getProperties(): Promise<NoteProperty[]> {
+      return [...properties.values()].flat();
+    },
+
+    async getNotesWithProperty(key: string, value?: string): Promise<FileMeta[]> {
+      return [...properties]
+        .filter(([, rows]) =>
+          rows.some(
+            row =>
+              row.key === key &&
+              (value === undefined ||
+                row.value?.toLowerCase() === value.toLowerCase()),
+          ),
+        )
+        .flatMap(([path]) => files.get(path) ?? [])
+        .sort((a, b) => a.title.localeCompare(b.title));
+    },
+
+    async close(): Promise<void> {},
+  };
+}
@@ -7,6 +7,7 @@ interface MockFile {
 
 export function createMockVaultFS(
   initialFiles: Record<string, string> = {},
+  ignoredPaths: string[] = [],
 ): VaultFS & {_files: Map<string, MockFile>} {
   const files = new Map<string, MockFile>();
 
@@ -92,6 +93,12 @@ export function createMockVaultFS(
       return files.has(path);
     },
 
+    async isIgnored(path: string): Promise<boolean> {
+      return ignoredPaths.some(
+        ignored => path === ignored || path.startsWith(`${ignored}/`),
+      );
+    },
+
     async renameFile(oldPath: string, newPath: string): Promise<void> {
       const file = files.get(oldPath);
       if (!file) {
@@ -9,6 +9,7 @@ export interface VaultFS {
   stat(path: string): Promise<FileStat>;
   ensureDir(path: string): Promise<void>;
   exists(path: string): Promise<boolean>;
+  isIgnored(path: string, isDirectory?: boolean): Promise<boolean>;
 }
 
 export interface FileNode {
@@ -37,8 +38,33 @@ export interface IndexDB {
   updateLinksForFile(sourcePath: string, links: string[]): Promise<void>;
   getBacklinks(targetPath: string): Promise<string[]>;
   ftsUpsert(path: string, title: string, content: string): Promise<void>;
+  /** Full-text search with the query language of `parseSearchQuery`. */
   ftsSearch(query: string): Promise<SearchResult[]>;
+  /**
+   * Writes a note's metadata, links, tags, properties and FTS row in one
+   * transaction.
+   */
+  indexFile(
+    file: FileMeta,
+    links: string[],
+    content: string,
+    tags: string[],
+    properties: NoteProperty[],
+  ): Promise<void>;
+  /**
+   * Moves a note, or every note under a folder, to a new path, along with
+   * the links from it. Links to it keep their old target until their
+   * sources are indexed again.
+   */
+  movePath(oldPath: string, newPath: string): Promise<void>;
+  /** Removes a note, or every note under a folder, from the index. */
   deleteFileMeta(path: string): Promise<void>;
+  getTags(): Promise<NoteTag[]>;
+  /** Notes tagged `tag` or any tag nested under it, by title. */
+  getNotesWithTag(tag: string): Promise<FileMeta[]>;
+  getProperties(): Promise<NoteProperty[]>;
+  /** Notes with property `key`, or with `value` among its values, by title. */
+  getNotesWithProperty(key: string, value?: string): Promise<FileMeta[]>;
   close(): Promise<void>;
 }
 
@@ -49,6 +75,29 @@ export interface FileMeta {
   contentHash: string;
 }
 
+export interface NoteTag {
+  path: string;
+  /** Lowercase, without `#`; nested tags keep their slashes. */
+  tag: string;
+}
+
+export type PropertyType =
+  | 'text'
+  | 'list'
+  | 'number'
+  | 'checkbox'
+  | 'date'
+  | 'datetime';
+
+/** A frontmatter property as indexed: one row per item of a list. */
+export interface NoteProperty {
+  path: string;
+  key: string;
+  /** The value as text; null when the property is empty. */
+  value: string | null;
+  type: PropertyType;
+}
+
 export interface SearchResult {
   path: string;
   title: string;
@@ -63,16 +112,64 @@ export type CloneProgressCallback = (
   total?: number,
 ) => void;
 
+// Shallow clones fetch only the latest commit; older history can be
+// fetched later with `fetchMoreHistory`.
+export interface CloneOptions {
+  fullHistory?: boolean;
+}
+
 export interface GitSync {
   clone(
     repoUrl: string,
     auth: GitAuth,
     onProgress?: CloneProgressCallback,
+    options?: CloneOptions,
+  ): Promise<void>;
+  isShallow(): Promise<boolean>;
+  fetchMoreHistory(
+    commits: number,
+    onProgress?: CloneProgressCallback,
   ): Promise<void>;
   pull(): Promise<PullResult>;
-  commitAndPush(message: string): Promise<void>;
+  commitAndPush(message: string, onPushing?: () => void): Promise<void>;
   status(): Promise<SyncStatus>;
+  resolveConflict(path: string, content: string): Promise<void>;
+  log(path?: string, limit?: number): Promise<CommitInfo[]>;
+  readFileAt(path: string, ref: string): Promise<string | null>;
+  getPendingChanges(): Promise<FileChange[]>;
+  setChangeDetection(mode: ChangeDetection): void;
+  listBranches(): Promise<BranchInfo[]>;
+  switchBranch(name: string): Promise<void>;
+  createBranch(name: string): Promise<void>;
   setAuth(auth: GitAuth): void;
+  // Forgets cached credentials and errors, e.g. after switching vaults
+  reset(): void;
+}
+
+// `local` branches exist in the clone, `remote` ones on origin. A branch
+// that is only remote is fetched when switched to.
+export interface BranchInfo {
+  name: string;
+  current: boolean;
+  local: boolean;
+  remote: boolean;
+}
+
+export interface CommitInfo {
+  oid: string;
+  message: string;
+  authorName: string;
+  authorEmail: string;
+  timestamp: number;
+  parents: string[];
+}
+
+export type GitProviderId = 'github' | 'gitlab' | 'gitea' | 'bitbucket' | 'generic';
+
+export interface VaultInfo {
+  id: string;
+  name: string;
+  createdAt: number;
 }
 
 export interface GitAuth {
@@ -80,17 +177,54 @@ export interface GitAuth {
   token: string;
   username?: string;
   repoUrl?: string;
+  // Detected from repoUrl when missing
+  provider?: GitProviderId;
+  // Expiring OAuth tokens; times are epoch milliseconds
+  refreshToken?: string;
+  expiresAt?: number;
+  refreshTokenExpiresAt?: number;
 }
 
 export interface PullResult {
   updated: string[];
-  conflicts: string[];
+  conflicts: FileConflict[];
+}
+
+// A region of the three-way merge where local and remote both changed the
+// same base lines. Line numbers are 1-based.
+export interface ConflictHunk {
+  baseStart: number;
+  localStart: number;
+  remoteStart: number;
+  base: string[];
+  local: string[];
+  remote: string[];
 }
 
+export type MergeRegion =
+  | {type: 'merged'; lines: string[]}
+  | {type: 'conflict'; hunkIndex: number};
+
+export interface FileConflict {
+  path: string;
+  hunks: ConflictHunk[];
+  regions: MergeRegion[];
+}
+
+// Steps of a sync run, in order. A run ends in 'done' or 'error'.
+export type SyncPhase =
+  | 'idle'
+  | 'pulling'
+  | 'committing'
+  | 'pushing'
+  | 'done'
+  | 'error';
+
 export interface SyncStatus {
   state: 'synced' | 'pending' | 'offline' | 'error';
   pendingChanges: number;
   lastSyncAt: number | null;
+  phase?: SyncPhase;
   error?: string;
 }
 
@@ -110,3 +244,8 @@ export interface SyncQueueItem {
   action: 'add' | 'modify' | 'delete';
   queuedAt: number;
 }
+
+export type FileChange = Pick<SyncQueueItem, 'path' | 'action'>;
+
+// 'queue' trusts the sync queue; 'status' scans the working tree against HEAD
+export type ChangeDetection = 'queue' | 'status';
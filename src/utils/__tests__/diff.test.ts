@@ -0,0 +1,119 @@
+import {
+  buildHunks,
+  diffLines,
+  diffStats,
+  formatHunkHeader,
+  toSplitRows,
+} from '../diff';
+
+describe('diffLines', () => {
+  it('marks every line as context when nothing changed', () => {
+    const lines = diffLines('a\nb', 'a\nb');
+
+    expect(lines.map(line => line.type)).toEqual(['context', 'context']);
+    expect(lines[1]).toEqual({
+      type: 'context',
+      text: 'b',
+      oldNumber: 2,
+      newNumber: 2,
+    });
+  });
+
+  it('numbers removed and added lines on their own side', () => {
+    const lines = diffLines('a\nold\nc', 'a\nnew\nc');
+
+    expect(lines).toEqual([
+      {type: 'context', text: 'a', oldNumber: 1, newNumber: 1},
+      {type: 'remove', text: 'old', oldNumber: 2, newNumber: null},
+      {type: 'add', text: 'new', oldNumber: null, newNumber: 2},
+      {type: 'context', text: 'c', oldNumber: 3, newNumber: 3},
+    ]);
+  });
+
+  it('treats an empty old text as a single empty line', () => {
+    const lines = diffLines('', 'a');
+
+    expect(lines.map(line => line.type)).toEqual(['remove', 'add']);
+  });
+});
+
+describe('buildHunks', () => {
+  const oldText = Array.from({length: 20}, (_, i) => `line ${i + 1}`).join(
+    '\n',
+  );
+
+  it('returns no hunks for identical texts', () => {
+    expect(buildHunks(diffLines(oldText, oldText))).toEqual([]);
+  });
+
+  it('surrounds a change with context lines', () => {
+    const newText = oldText.replace('line 10', 'changed 10');
+
+    const hunks = buildHunks(diffLines(oldText, newText));
+
+    expect(hunks).toHaveLength(1);
+    expect(formatHunkHeader(hunks[0]!)).toBe('@@ -7,7 +7,7 @@');
+    expect(hunks[0]!.lines[0]?.text).toBe('line 7');
+    expect(hunks[0]!.lines[hunks[0]!.lines.length - 1]?.text).toBe('line 13');
+  });
+
+  it('merges changes whose context overlaps', () => {
+    const newText = oldText
+      .replace('line 5', 'changed 5')
+      .replace('line 10', 'changed 10');
+
+    expect(buildHunks(diffLines(oldText, newText))).toHaveLength(1);
+  });
+
+  it('keeps distant changes in separate hunks', () => {
+    const newText = oldText
+      .replace('line 2\n', 'changed 2\n')
+      .replace('line 18', 'changed 18');
+
+    const hunks = buildHunks(diffLines(oldText, newText));
+
+    expect(hunks.map(formatHunkHeader)).toEqual([
+      '@@ -1,5 +1,5 @@',
+      '@@ -15,6 +15,6 @@',
+    ]);
+  });
+
+  it('reports pure insertions with an empty old range', () => {
+    const hunks = buildHunks(diffLines('a', 'a\nb'), 0);
+
+    expect(formatHunkHeader(hunks[0]!)).toBe('@@ -1,0 +2,1 @@');
+  });
+});
+
+describe('toSplitRows', () => {
+  it('pairs removals with the additions that follow them', () => {
+    const rows = toSplitRows(diffLines('a\nx\ny\nb', 'a\nz\nb'));
+
+    expect(
+      rows.map(row => [row.left?.text ?? null, row.right?.text ?? null]),
+    ).toEqual([
+      ['a', 'a'],
+      ['x', 'z'],
+      ['y', null],
+      ['b', 'b'],
+    ]);
+  });
+
+  it('leaves the left side empty for pure additions', () => {
+    const rows = toSplitRows(diffLines('a', 'a\nb'));
+
+    expect(rows[1]).toEqual({
+      left: null,
+      right: {type: 'add', text: 'b', oldNumber: null, newNumber: 2},
+    });
+  });
+});
+
+describe('diffStats', () => {
+  it('counts added and removed lines', () => {
+    expect(diffStats(diffLines('a\nb\nc', 'a\nB\nc\nd'))).toEqual({
+      added: 2,
+      removed: 1,
+    });
+  });
+});
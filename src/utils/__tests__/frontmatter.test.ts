@@ -0,0 +1,156 @@
+import {
+  Frontmatter,
+  getProperties,
+  knownPropertyTypes,
+  propertyType,
+  removeProperty,
+  renameProperty,
+  setProperty,
+  splitFrontmatter,
+} from '../frontmatter';
+
+const NOTE = [
+  '---',
+  '# Written by hand',
+  'title: "Weekly: review"',
+  'tags:',
+  '  - work',
+  '  - "2024"',
+  'aliases: [Review, "Week, 1"]',
+  'rating: 4.5 # out of 5',
+  'done: false',
+  'due: 2024-03-01',
+  'empty:',
+  '',
+  'nested:',
+  '  a: 1',
+  '---',
+  '# Body',
+  '',
+].join('\n');
+
+describe('splitFrontmatter', () => {
+  it('separates the YAML from the body', () => {
+    expect(splitFrontmatter('---\na: 1\n---\nBody')).toEqual({
+      yaml: 'a: 1',
+      body: 'Body',
+    });
+    expect(splitFrontmatter('---\n---\nBody')).toEqual({yaml: '', body: 'Body'});
+    expect(splitFrontmatter('Body\n---\na: 1\n---')).toEqual({
+      yaml: null,
+      body: 'Body\n---\na: 1\n---',
+    });
+  });
+});
+
+describe('getProperties', () => {
+  it('parses scalars and lists with their types', () => {
+    expect(getProperties(NOTE)).toEqual([
+      {key: 'title', value: 'Weekly: review', type: 'text'},
+      {key: 'tags', value: ['work', '2024'], type: 'list'},
+      {key: 'aliases', value: ['Review', 'Week, 1'], type: 'list'},
+      {key: 'rating', value: 4.5, type: 'number'},
+      {key: 'done', value: false, type: 'checkbox'},
+      {key: 'due', value: '2024-03-01', type: 'date'},
+      {key: 'empty', value: null, type: 'text'},
+      {key: 'nested', value: '  a: 1', type: 'text', readOnly: true},
+    ]);
+  });
+
+  it('is empty without frontmatter', () => {
+    expect(getProperties('# Just a note')).toEqual([]);
+  });
+});
+
+describe('propertyType', () => {
+  it('tells dates from date-times and text', () => {
+    expect(propertyType('2024-03-01')).toBe('date');
+    expect(propertyType('2024-03-01T09:30')).toBe('datetime');
+    expect(propertyType('March 1st')).toBe('text');
+  });
+});
+
+describe('knownPropertyTypes', () => {
+  it('picks the most common type of each key, ignoring empty values', () => {
+    expect(
+      knownPropertyTypes([
+        {path: 'a.md', key: 'due', value: '2024-01-01', type: 'date'},
+        {path: 'b.md', key: 'due', value: '2024-02-01', type: 'date'},
+        {path: 'c.md', key: 'due', value: 'soon', type: 'text'},
+        {path: 'd.md', key: 'due', value: null, type: 'text'},
+        {path: 'a.md', key: 'notes', value: null, type: 'text'},
+      ]),
+    ).toEqual({due: 'date'});
+  });
+});
+
+describe('Frontmatter', () => {
+  it('round-trips unchanged YAML exactly', () => {
+    const yaml = splitFrontmatter(NOTE).yaml ?? '';
+    expect(new Frontmatter(yaml).toString()).toBe(yaml);
+    expect(new Frontmatter('a: 1\r\nb: 2').toString()).toBe('a: 1\r\nb: 2');
+  });
+
+  it('rewrites only the changed property', () => {
+    const frontmatter = new Frontmatter('# top\na: 1 # note\nb: [x, y]\nc: keep');
+
+    frontmatter.set('a', 2);
+    frontmatter.set('b', ['x', 'y, z']);
+
+    expect(frontmatter.toString()).toBe(
+      '# top\na: 2 # note\nb: [x, "y, z"]\nc: keep',
+    );
+  });
+});
+
+describe('setProperty', () => {
+  it('changes a value in place', () => {
+    const content = setProperty(NOTE, 'done', true);
+
+    expect(content).toContain('\ndone: true\n');
+    expect(content.replace('done: true', 'done: false')).toBe(NOTE);
+  });
+
+  it('writes lists as block lists', () => {
+    expect(setProperty('---\ntags:\n  - a\n---\n', 'tags', ['a', 'b'])).toBe(
+      '---\ntags:\n  - a\n  - b\n---\n',
+    );
+  });
+
+  it('quotes text that would read back as something else', () => {
+    const content = setProperty('', 'version', '1.0');
+
+    expect(content).toBe('---\nversion: "1.0"\n---\n');
+    expect(getProperties(content)[0]?.value).toBe('1.0');
+    expect(setProperty('', 'note', 'a: b # c')).toBe('---\nnote: "a: b # c"\n---\n');
+  });
+
+  it('adds properties after the last one, creating frontmatter if needed', () => {
+    expect(setProperty('---\na: 1\n# end\n---\nBody', 'b', 'two')).toBe(
+      '---\na: 1\nb: two\n# end\n---\nBody',
+    );
+    expect(setProperty('# Body\n', 'status', 'draft')).toBe(
+      '---\nstatus: draft\n---\n# Body\n',
+    );
+  });
+});
+
+describe('removeProperty', () => {
+  it('removes the key with its list items', () => {
+    expect(removeProperty('---\ntags:\n  - a\nb: 1\n---\nBody', 'tags')).toBe(
+      '---\nb: 1\n---\nBody',
+    );
+  });
+
+  it('removes frontmatter that ends up empty', () => {
+    expect(removeProperty('---\na: 1\n---\nBody', 'a')).toBe('Body');
+  });
+});
+
+describe('renameProperty', () => {
+  it('keeps the value and position', () => {
+    expect(renameProperty('---\na: 1\nb: [x]\nc: 3\n---\n', 'b', 'new key')).toBe(
+      '---\na: 1\nnew key: [x]\nc: 3\n---\n',
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import {createIgnoreMatcher} from '../ignore';
+
+describe('createIgnoreMatcher', () => {
+  it('matches bare names at any depth', () => {
+    const isIgnored = createIgnoreMatcher(['.obsidian', '*.log']);
+
+    expect(isIgnored('.obsidian', true)).toBe(true);
+    expect(isIgnored('sub/.obsidian', true)).toBe(true);
+    expect(isIgnored('notes/debug.log')).toBe(true);
+    expect(isIgnored('notes/log.md')).toBe(false);
+  });
+
+  it('ignores everything inside an ignored directory', () => {
+    const isIgnored = createIgnoreMatcher(['build/']);
+
+    expect(isIgnored('build', true)).toBe(true);
+    expect(isIgnored('build/out/index.md')).toBe(true);
+    expect(isIgnored('build')).toBe(false);
+  });
+
+  it('anchors patterns that contain a slash', () => {
+    const isIgnored = createIgnoreMatcher(['/private', 'docs/*.pdf']);
+
+    expect(isIgnored('private', true)).toBe(true);
+    expect(isIgnored('notes/private', true)).toBe(false);
+    expect(isIgnored('docs/a.pdf')).toBe(true);
+    expect(isIgnored('docs/sub/a.pdf')).toBe(false);
+    expect(isIgnored('other/docs/a.pdf')).toBe(false);
+  });
+
+  it('supports double-star segments', () => {
+    const isIgnored = createIgnoreMatcher(['**/drafts/*.md', 'attachments/**']);
+
+    expect(isIgnored('drafts/a.md')).toBe(true);
+    expect(isIgnored('x/y/drafts/a.md')).toBe(true);
+    expect(isIgnored('attachments/img/a.png')).toBe(true);
+    expect(isIgnored('attachments', true)).toBe(false);
+  });
+
+  it('lets later negations re-include files', () => {
+    const isIgnored = createIgnoreMatcher(['*.md', '!keep.md']);
+
+    expect(isIgnored('a.md')).toBe(true);
+    expect(isIgnored('keep.md')).toBe(false);
+    expect(isIgnored('sub/keep.md')).toBe(false);
+  });
+
+  it('cannot re-include a file whose directory is ignored', () => {
+    const isIgnored = createIgnoreMatcher(['secret/', '!secret/keep.md']);
+
+    expect(isIgnored('secret/keep.md')).toBe(true);
+  });
+
+  it('skips comments, blank lines and trailing spaces', () => {
+    const isIgnored = createIgnoreMatcher(['# notes', '', 'tmp   ', '\\#hash']);
+
+    expect(isIgnored('notes')).toBe(false);
+    expect(isIgnored('tmp')).toBe(true);
+    expect(isIgnored('#hash')).toBe(true);
+  });
+
+  it('matches single characters and character classes', () => {
+    const isIgnored = createIgnoreMatcher(['file?.md', '[ab]*.txt', '[!c]x']);
+
+    expect(isIgnored('file1.md')).toBe(true);
+    expect(isIgnored('file10.md')).toBe(false);
+    expect(isIgnored('apple.txt')).toBe(true);
+    expect(isIgnored('cherry.txt')).toBe(false);
+    expect(isIgnored('dx')).toBe(true);
+    expect(isIgnored('cx')).toBe(false);
+  });
+});
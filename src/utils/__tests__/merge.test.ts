@@ -0,0 +1,168 @@
+import {merge3, renderMerge, resolveHunk} from '../merge';
+import {matchLines} from '../diff';
+
+function mergedText(base: string, local: string, remote: string): string {
+  const result = merge3(base, local, remote);
+  expect(result.clean).toBe(true);
+  return renderMerge(result.regions, result.hunks, hunk => hunk.local);
+}
+
+describe('matchLines', () => {
+  it('matches identical inputs line for line', () => {
+    expect(matchLines(['a', 'b'], ['a', 'b'])).toEqual([
+      [0, 0],
+      [1, 1],
+    ]);
+  });
+
+  it('finds the longest common subsequence', () => {
+    const pairs = matchLines(
+      ['a', 'b', 'c', 'a', 'b', 'b', 'a'],
+      ['c', 'b', 'a', 'b', 'a', 'c'],
+    );
+    expect(pairs).toHaveLength(4);
+    for (let i = 1; i < pairs.length; i++) {
+      expect(pairs[i]![0]).toBeGreaterThan(pairs[i - 1]![0]);
+      expect(pairs[i]![1]).toBeGreaterThan(pairs[i - 1]![1]);
+    }
+  });
+
+  it('returns no matches when one side is empty', () => {
+    expect(matchLines([], ['a'])).toEqual([]);
+  });
+});
+
+describe('merge3', () => {
+  const base = '# Note\n\nline 1\nline 2\nline 3\n';
+
+  it('returns the unchanged content when nothing changed', () => {
+    expect(mergedText(base, base, base)).toBe(base);
+  });
+
+  it('takes remote changes when local is unchanged', () => {
+    const remote = '# Note\n\nline 1\nremote 2\nline 3\n';
+    expect(mergedText(base, base, remote)).toBe(remote);
+  });
+
+  it('takes local changes when remote is unchanged', () => {
+    const local = '# Note\n\nline 1\nline 2\nlocal 3\n';
+    expect(mergedText(base, local, base)).toBe(local);
+  });
+
+  it('combines non-overlapping edits from both sides', () => {
+    const local = '# Note\n\nlocal 1\nline 2\nline 3\n';
+    const remote = '# Note\n\nline 1\nline 2\nremote 3\n';
+    expect(mergedText(base, local, remote)).toBe(
+      '# Note\n\nlocal 1\nline 2\nremote 3\n',
+    );
+  });
+
+  it('combines insertions at different positions', () => {
+    const local = '# Note\nlocal intro\n\nline 1\nline 2\nline 3\n';
+    const remote = '# Note\n\nline 1\nline 2\nline 3\nremote outro\n';
+    expect(mergedText(base, local, remote)).toBe(
+      '# Note\nlocal intro\n\nline 1\nline 2\nline 3\nremote outro\n',
+    );
+  });
+
+  it('accepts identical edits on both sides', () => {
+    const both = '# Note\n\nline 1\nsame edit\nline 3\n';
+    expect(mergedText(base, both, both)).toBe(both);
+  });
+
+  it('reports overlapping edits as a conflict hunk', () => {
+    const local = '# Note\n\nline 1\nlocal 2\nline 3\n';
+    const remote = '# Note\n\nline 1\nremote 2\nline 3\n';
+
+    const result = merge3(base, local, remote);
+
+    expect(result.clean).toBe(false);
+    expect(result.hunks).toEqual([
+      {
+        baseStart: 4,
+        localStart: 4,
+        remoteStart: 4,
+        base: ['line 2'],
+        local: ['local 2'],
+        remote: ['remote 2'],
+      },
+    ]);
+    expect(result.regions).toEqual([
+      {type: 'merged', lines: ['# Note', '', 'line 1']},
+      {type: 'conflict', hunkIndex: 0},
+      {type: 'merged', lines: ['line 3', '']},
+    ]);
+  });
+
+  it('keeps clean merges around a conflict', () => {
+    const local = '# Local title\n\nline 1\nlocal 2\nline 3\n';
+    const remote = '# Note\n\nline 1\nremote 2\nline 3\nremote tail\n';
+
+    const result = merge3(base, local, remote);
+
+    expect(result.hunks).toHaveLength(1);
+    expect(
+      renderMerge(result.regions, result.hunks, hunk => hunk.remote),
+    ).toBe('# Local title\n\nline 1\nremote 2\nline 3\nremote tail\n');
+  });
+
+  it('conflicts when both sides add a file with different content', () => {
+    const result = merge3('', 'local note', 'remote note');
+
+    expect(result.clean).toBe(false);
+    expect(result.hunks[0]?.local).toEqual(['local note']);
+    expect(result.hunks[0]?.remote).toEqual(['remote note']);
+  });
+});
+
+describe('renderMerge', () => {
+  it('substitutes resolved lines for each conflict', () => {
+    const text = renderMerge(
+      [
+        {type: 'merged', lines: ['a']},
+        {type: 'conflict', hunkIndex: 0},
+        {type: 'merged', lines: ['c']},
+      ],
+      [
+        {
+          baseStart: 2,
+          localStart: 2,
+          remoteStart: 2,
+          base: ['b'],
+          local: ['L'],
+          remote: ['R'],
+        },
+      ],
+      hunk => [...hunk.local, ...hunk.remote],
+    );
+
+    expect(text).toBe('a\nL\nR\nc');
+  });
+});
+
+describe('resolveHunk', () => {
+  const hunk = {
+    baseStart: 1,
+    localStart: 1,
+    remoteStart: 1,
+    base: ['base'],
+    local: ['local'],
+    remote: ['remote'],
+  };
+
+  it('picks one side', () => {
+    expect(resolveHunk(hunk, {type: 'local'})).toEqual(['local']);
+    expect(resolveHunk(hunk, {type: 'remote'})).toEqual(['remote']);
+  });
+
+  it('keeps both sides with local first', () => {
+    expect(resolveHunk(hunk, {type: 'both'})).toEqual(['local', 'remote']);
+  });
+
+  it('splits manual edits into lines', () => {
+    expect(resolveHunk(hunk, {type: 'manual', text: 'a\nb'})).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import {buildTagTree} from '../tags';
+
+describe('buildTagTree', () => {
+  it('nests tags by their segments', () => {
+    const tree = buildTagTree([
+      {path: 'a.md', tag: 'project'},
+      {path: 'a.md', tag: 'area/work'},
+      {path: 'b.md', tag: 'area/home'},
+      {path: 'b.md', tag: 'area/home/garden'},
+    ]);
+
+    expect(tree).toEqual([
+      {
+        name: 'area',
+        tag: 'area',
+        count: 2,
+        children: [
+          {
+            name: 'home',
+            tag: 'area/home',
+            count: 1,
+            children: [
+              {name: 'garden', tag: 'area/home/garden', count: 1, children: []},
+            ],
+          },
+          {name: 'work', tag: 'area/work', count: 1, children: []},
+        ],
+      },
+      {name: 'project', tag: 'project', count: 1, children: []},
+    ]);
+  });
+
+  it('counts each note once per tag', () => {
+    const [area] = buildTagTree([
+      {path: 'a.md', tag: 'area/work'},
+      {path: 'a.md', tag: 'area/home'},
+      {path: 'b.md', tag: 'area'},
+    ]);
+
+    expect(area?.count).toBe(2);
+  });
+
+  it('returns nothing without tags', () => {
+    expect(buildTagTree([])).toEqual([]);
+  });
+});
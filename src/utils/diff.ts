@@ -0,0 +1,283 @@
+/**
+ * Line-based diff primitives shared by merge and history views.
+ *
+ * Uses Myers' O(ND) algorithm after trimming the common prefix and suffix,
+ * which keeps typical note edits (a few changed lines) close to linear.
+ */
+
+export type DiffLineType = 'context' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface SplitRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+const DEFAULT_CONTEXT_LINES = 3;
+
+export function splitLines(text: string): string[] {
+  return text.split('\n');
+}
+
+export function joinLines(lines: string[]): string {
+  return lines.join('\n');
+}
+
+/**
+ * Returns index pairs [aIndex, bIndex] of lines that belong to the longest
+ * common subsequence of `a` and `b`, in ascending order.
+ */
+export function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < prefix; i++) {
+    pairs.push([i, i]);
+  }
+
+  const middle = myers(
+    a.slice(prefix, a.length - suffix),
+    b.slice(prefix, b.length - suffix),
+  );
+  for (const [x, y] of middle) {
+    pairs.push([x + prefix, y + prefix]);
+  }
+
+  for (let i = suffix; i > 0; i--) {
+    pairs.push([a.length - i, b.length - i]);
+  }
+
+  return pairs;
+}
+
+/**
+ * Full line diff of two texts, with every line of both sides in order.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  const flush = (untilA: number, untilB: number) => {
+    for (; i < untilA; i++) {
+      lines.push({
+        type: 'remove',
+        text: a[i]!,
+        oldNumber: i + 1,
+        newNumber: null,
+      });
+    }
+    for (; j < untilB; j++) {
+      lines.push({
+        type: 'add',
+        text: b[j]!,
+        oldNumber: null,
+        newNumber: j + 1,
+      });
+    }
+  };
+
+  for (const [x, y] of matchLines(a, b)) {
+    flush(x, y);
+    lines.push({
+      type: 'context',
+      text: a[x]!,
+      oldNumber: x + 1,
+      newNumber: y + 1,
+    });
+    i = x + 1;
+    j = y + 1;
+  }
+  flush(a.length, b.length);
+
+  return lines;
+}
+
+/**
+ * Groups changed lines into unified-diff hunks with surrounding context.
+ */
+export function buildHunks(
+  lines: DiffLine[],
+  context: number = DEFAULT_CONTEXT_LINES,
+): DiffHunk[] {
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    if (line.type === 'context') {
+      return;
+    }
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const before = lines.slice(0, start);
+    const oldBefore = before.filter(line => line.type !== 'add').length;
+    const newBefore = before.filter(line => line.type !== 'remove').length;
+    const oldLines = hunkLines.filter(line => line.type !== 'add').length;
+    const newLines = hunkLines.filter(line => line.type !== 'remove').length;
+
+    return {
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: hunkLines,
+    };
+  });
+}
+
+export function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * Pairs removed and added lines side by side for a split view. Runs of
+ * removals are aligned with the additions that immediately follow them.
+ */
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length);
+    for (let k = 0; k < count; k++) {
+      rows.push({left: removed[k] ?? null, right: added[k] ?? null});
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'remove') {
+      if (added.length > 0) {
+        flush();
+      }
+      removed.push(line);
+    } else if (line.type === 'add') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({left: line, right: line});
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+export function diffStats(lines: DiffLine[]): DiffStats {
+  let added = 0;
+  let removed = 0;
+  for (const line of lines) {
+    if (line.type === 'add') {
+      added++;
+    } else if (line.type === 'remove') {
+      removed++;
+    }
+  }
+  return {added, removed};
+}
+
+function myers(a: string[], b: string[]): Array<[number, number]> {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) {
+    return [];
+  }
+
+  const offset = n + m;
+  const trace = forwardTrace(a, b, offset);
+
+  const pairs: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d]!;
+    const k = x - y;
+    const down =
+      k === -d || (k !== d && prev[offset + k - 1]! < prev[offset + k + 1]!);
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = prev[offset + prevK]!;
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      pairs.push([x, y]);
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return pairs.reverse();
+}
+
+function forwardTrace(a: string[], b: string[], offset: number): number[][] {
+  const n = a.length;
+  const m = b.length;
+  const v = new Array<number>(2 * offset + 2).fill(0);
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= offset; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      const down =
+        k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!);
+      let x = down ? v[offset + k + 1]! : v[offset + k - 1]! + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return trace;
+      }
+    }
+  }
+
+  return trace;
+}
@@ -0,0 +1,453 @@
+import type {NoteProperty, PropertyType} from '../types';
+
+export type PropertyValue = string | number | boolean | null | string[];
+
+export interface Property {
+  key: string;
+  value: PropertyValue;
+  type: PropertyType;
+  /**
+   * Values this parser can't edit without losing structure, such as nested
+   * maps and multi-line strings. `value` is then the raw YAML.
+   */
+  readOnly?: boolean;
+}
+
+// A property (`key` set) or a run of text between properties: comments,
+// blank lines and anything that isn't a `key:` line. Each keeps the lines
+// it was parsed from so unchanged parts are written back exactly.
+interface Entry {
+  key: string | null;
+  lines: string[];
+  value?: PropertyValue;
+  flow?: boolean;
+}
+
+const FRONTMATTER_REGEX = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+const KEY_REGEX = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-?:,[\]{}&*!|>%@`][^:#]*?|-[^\s:#][^:#]*?)[ \t]*:(?:[ \t]+(.*))?$/;
+const LIST_ITEM_REGEX = /^[ \t]*-(?:[ \t]+(.*))?$/;
+const NUMBER_REGEX = /^[-+]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][-+]?\d+)?$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_REGEX = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?$/;
+
+function unquote(text: string): string {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  if (text.startsWith("'")) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  return text;
+}
+
+// Splits a value from a trailing ` # comment`, ignoring `#` inside quotes
+function splitComment(text: string): {value: string; comment: string} {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1] ?? ''))) {
+      return {value: text.slice(0, i).trimEnd(), comment: text.slice(i)};
+    }
+  }
+  return {value: text.trimEnd(), comment: ''};
+}
+
+// Splits `a, "b, c"` on the commas outside quotes
+function splitFlowItems(text: string): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(text.slice(start));
+  return items.map(item => item.trim()).filter(item => item !== '');
+}
+
+function parseScalar(text: string): string | number | boolean | null {
+  const value = text.trim();
+  if (value === '' || value === '~' || /^null$/i.test(value)) {
+    return null;
+  }
+  if (/^["']/.test(value)) {
+    return unquote(value);
+  }
+  if (/^(?:true|false)$/i.test(value)) {
+    return value.toLowerCase() === 'true';
+  }
+  if (NUMBER_REGEX.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+// List items are kept as text, so `- 2024` stays "2024" rather than a number
+function parseListItem(text: string): string | null {
+  const value = text.trim();
+  if (/^["']/.test(value)) {
+    return unquote(value);
+  }
+  return value === '' || value === '~' || /^null$/i.test(value) ? null : value;
+}
+
+/** The value of a property, or undefined when it is more than a scalar or list. */
+function parseValue(
+  inline: string,
+  block: string[],
+): {value: PropertyValue; flow?: boolean} | undefined {
+  const {value: text} = splitComment(inline);
+
+  if (block.some(line => line.trim() && !line.trim().startsWith('#'))) {
+    if (text) {
+      return undefined;
+    }
+    const items: string[] = [];
+    for (const line of block) {
+      if (!line.trim() || line.trim().startsWith('#')) {
+        continue;
+      }
+      const item = LIST_ITEM_REGEX.exec(line);
+      const itemText = splitComment(item?.[1] ?? '').value;
+      if (!item || /^[[{|>]/.test(itemText) || KEY_REGEX.test(itemText)) {
+        return undefined;
+      }
+      const parsed = parseListItem(itemText);
+      if (parsed !== null) {
+        items.push(parsed);
+      }
+    }
+    return {value: items};
+  }
+
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      return undefined;
+    }
+    const items = splitFlowItems(text.slice(1, -1));
+    if (items.some(item => /^[[{]/.test(item))) {
+      return undefined;
+    }
+    return {
+      value: items.flatMap(item => parseListItem(item) ?? []),
+      flow: true,
+    };
+  }
+  if (/^[{|>&*!]/.test(text)) {
+    return undefined;
+  }
+  return {value: parseScalar(text)};
+}
+
+function needsQuotes(text: string, inFlow = false): boolean {
+  return (
+    text === '' ||
+    text !== text.trim() ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /:(?:\s|$)|\s#|[\n\r\t]/.test(text) ||
+    (inFlow && /[,[\]{}]/.test(text)) ||
+    parseScalar(text) !== text
+  );
+}
+
+function formatText(text: string, inFlow = false): string {
+  return needsQuotes(text, inFlow) ? JSON.stringify(text) : text;
+}
+
+function formatScalar(value: string | number | boolean | null): string {
+  if (value === null) {
+    return '';
+  }
+  return typeof value === 'string' ? formatText(value) : String(value);
+}
+
+function formatKey(key: string): string {
+  return KEY_REGEX.test(`${key}:`) && !key.includes('"') ? key : JSON.stringify(key);
+}
+
+function formatEntry(
+  key: string,
+  value: PropertyValue,
+  flow: boolean,
+  comment: string,
+): string[] {
+  const prefix = `${formatKey(key)}:`;
+  const suffix = comment ? ` ${comment}` : '';
+
+  if (Array.isArray(value)) {
+    if (value.length === 0 || flow) {
+      const items = value.map(item => formatText(item, true));
+      return [`${prefix} [${items.join(', ')}]${suffix}`];
+    }
+    return [`${prefix}${suffix}`, ...value.map(item => `  - ${formatText(item)}`)];
+  }
+  const scalar = formatScalar(value);
+  return [`${prefix}${scalar ? ` ${scalar}` : ''}${suffix}`];
+}
+
+/** The editor a value is shown with, as Obsidian infers it. */
+export function propertyType(value: PropertyValue): PropertyType {
+  if (Array.isArray(value)) {
+    return 'list';
+  }
+  if (typeof value === 'boolean') {
+    return 'checkbox';
+  }
+  if (typeof value === 'number') {
+    return 'number';
+  }
+  if (typeof value === 'string' && DATE_REGEX.test(value)) {
+    return 'date';
+  }
+  if (typeof value === 'string' && DATETIME_REGEX.test(value)) {
+    return 'datetime';
+  }
+  return 'text';
+}
+
+/**
+ * The type each key has most often across the vault, from indexed values,
+ * so an empty property still gets the right editor.
+ */
+export function knownPropertyTypes(
+  properties: NoteProperty[],
+): Record<string, PropertyType> {
+  const counts = new Map<string, Map<PropertyType, number>>();
+  for (const {key, value, type} of properties) {
+    if (value === null) {
+      continue;
+    }
+    const byType = counts.get(key) ?? new Map<PropertyType, number>();
+    byType.set(type, (byType.get(type) ?? 0) + 1);
+    counts.set(key, byType);
+  }
+
+  const types: Record<string, PropertyType> = {};
+  for (const [key, byType] of counts) {
+    const [best] = [...byType].sort((a, b) => b[1] - a[1]);
+    if (best) {
+      types[key] = best[0];
+    }
+  }
+  return types;
+}
+
+/** The value a new property of `type` starts with. */
+export function emptyValue(type: PropertyType): PropertyValue {
+  switch (type) {
+    case 'list':
+      return [];
+    case 'checkbox':
+      return false;
+    case 'number':
+    case 'date':
+    case 'datetime':
+    case 'text':
+      return null;
+  }
+}
+
+/**
+ * The YAML of a note's frontmatter, parsed for editing. Covers what
+ * Obsidian properties use: scalars, flow lists and block lists. Comments,
+ * blank lines and values it doesn't understand are kept verbatim, and
+ * `toString()` returns the original text until something is changed.
+ */
+export class Frontmatter {
+  private entries: Entry[] = [];
+  private eol: string;
+
+  constructor(yaml: string) {
+    this.eol = yaml.includes('\r\n') ? '\r\n' : '\n';
+    const lines = yaml === '' ? [] : yaml.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i] ?? '';
+      const match = /^\S/.test(line) && !line.startsWith('#') ? KEY_REGEX.exec(line) : null;
+      if (!match) {
+        const last = this.entries[this.entries.length - 1];
+        if (last && last.key === null) {
+          last.lines.push(line);
+        } else {
+          this.entries.push({key: null, lines: [line]});
+        }
+        continue;
+      }
+
+      // Indented lines and `- items` belong to the key above them
+      let end = i + 1;
+      while (
+        end < lines.length &&
+        (/^[ \t]/.test(lines[end] ?? '') ||
+          LIST_ITEM_REGEX.test(lines[end] ?? '') ||
+          (lines[end] ?? '').trim() === '')
+      ) {
+        end++;
+      }
+      while (end > i + 1 && (lines[end - 1] ?? '').trim() === '') {
+        end--;
+      }
+
+      const block = lines.slice(i + 1, end);
+      const parsed = parseValue(match[2] ?? '', block);
+      this.entries.push({
+        key: unquote(match[1] ?? ''),
+        lines: [line, ...block],
+        value: parsed?.value,
+        flow: parsed?.flow,
+      });
+      i = end - 1;
+    }
+  }
+
+  get properties(): Property[] {
+    return this.entries.flatMap(entry => {
+      if (entry.key === null) {
+        return [];
+      }
+      if (entry.value === undefined) {
+        const [first = '', ...block] = entry.lines;
+        const raw = [KEY_REGEX.exec(first)?.[2] ?? '', ...block]
+          .filter(line => line.trim())
+          .join('\n');
+        return [{key: entry.key, value: raw, type: 'text' as const, readOnly: true}];
+      }
+      return [{key: entry.key, value: entry.value, type: propertyType(entry.value)}];
+    });
+  }
+
+  get isEmpty(): boolean {
+    return this.entries.every(
+      entry => entry.key === null && entry.lines.every(line => !line.trim()),
+    );
+  }
+
+  /** The value of `key`, or undefined when it is missing or read-only. */
+  get(key: string): PropertyValue | undefined {
+    return this.entries.find(entry => entry.key === key)?.value;
+  }
+
+  /** Changes `key` in place, or adds it after the last property. */
+  set(key: string, value: PropertyValue): void {
+    const entry = this.entries.find(e => e.key === key);
+    if (!entry) {
+      let index = this.entries.length;
+      while (index > 0 && this.entries[index - 1]?.key === null) {
+        index--;
+      }
+      this.entries.splice(index, 0, {
+        key,
+        lines: formatEntry(key, value, false, ''),
+        value,
+      });
+      return;
+    }
+
+    const first = entry.lines[0] ?? '';
+    const keyText = KEY_REGEX.exec(first)?.[1] ?? formatKey(key);
+    const comment =
+      entry.value !== undefined ? splitComment(KEY_REGEX.exec(first)?.[2] ?? '').comment : '';
+    const lines = formatEntry(key, value, entry.flow ?? false, comment);
+    // Keep the key as it was written, quotes and all
+    lines[0] = `${keyText}:${(lines[0] ?? '').slice(formatKey(key).length + 1)}`;
+    entry.lines = lines;
+    entry.value = value;
+  }
+
+  delete(key: string): void {
+    this.entries = this.entries.filter(entry => entry.key !== key);
+  }
+
+  /** Renames `from` to `to`, keeping its value and position. */
+  rename(from: string, to: string): void {
+    const entry = this.entries.find(e => e.key === from);
+    if (!entry || from === to || this.entries.some(e => e.key === to)) {
+      return;
+    }
+    const first = entry.lines[0] ?? '';
+    const keyText = KEY_REGEX.exec(first)?.[1] ?? '';
+    entry.lines[0] = `${formatKey(to)}${first.slice(keyText.length)}`;
+    entry.key = to;
+  }
+
+  toString(): string {
+    return this.entries.flatMap(entry => entry.lines).join(this.eol);
+  }
+}
+
+/**
+ * Splits a note into its frontmatter YAML (without the `---` fences) and
+ * body. `yaml` is null when the note has no frontmatter.
+ */
+export function splitFrontmatter(content: string): {yaml: string | null; body: string} {
+  const match = FRONTMATTER_REGEX.exec(content);
+  if (!match) {
+    return {yaml: null, body: content};
+  }
+  return {yaml: match[1] ?? '', body: content.slice(match[0].length)};
+}
+
+export function parseFrontmatter(content: string): Frontmatter {
+  return new Frontmatter(splitFrontmatter(content).yaml ?? '');
+}
+
+export function getProperties(content: string): Property[] {
+  return parseFrontmatter(content).properties;
+}
+
+/**
+ * Applies `change` to the note's frontmatter and returns the new content.
+ * The body is untouched; a frontmatter block is added when the note has
+ * none and removed once nothing is left in it.
+ */
+export function updateFrontmatter(
+  content: string,
+  change: (frontmatter: Frontmatter) => void,
+): string {
+  const match = FRONTMATTER_REGEX.exec(content);
+  const frontmatter = new Frontmatter(match?.[1] ?? '');
+  change(frontmatter);
+
+  const eol = /\r\n/.test(match?.[0] ?? content) ? '\r\n' : '\n';
+  const body = match ? content.slice(match[0].length) : content;
+  if (frontmatter.isEmpty) {
+    return match ? body : content;
+  }
+  const closing = match ? match[0].slice(match[0].lastIndexOf('---')) : `---${eol}`;
+  return `---${eol}${frontmatter.toString()}${eol}${closing}${body}`;
+}
+
+export function setProperty(content: string, key: string, value: PropertyValue): string {
+  return updateFrontmatter(content, frontmatter => frontmatter.set(key, value));
+}
+
+export function removeProperty(content: string, key: string): string {
+  return updateFrontmatter(content, frontmatter => frontmatter.delete(key));
+}
+
+export function renameProperty(content: string, from: string, to: string): string {
+  return updateFrontmatter(content, frontmatter => frontmatter.rename(from, to));
+}
@@ -0,0 +1,118 @@
+// Matches vault paths against .gitignore-style patterns. Later patterns
+// override earlier ones, `!` re-includes, a trailing `/` only matches
+// directories, and a pattern containing `/` is anchored to the vault root.
+
+export type IgnoreMatcher = (path: string, isDirectory?: boolean) => boolean;
+
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+function escapeRegex(char: string): string {
+  return /[.+^${}()|[\]\\]/.test(char) ? `\\${char}` : char;
+}
+
+function globToRegex(glob: string): string {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        if (atSegmentStart && glob[i + 2] === '/') {
+          // `**/` matches zero or more directories
+          out += '(?:.*/)?';
+          i += 2;
+        } else {
+          out += '.*';
+          i += 1;
+        }
+      } else {
+        out += '[^/]*';
+      }
+    } else if (char === '?') {
+      out += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        out += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+        out += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      out += escapeRegex(glob[i + 1]!);
+      i += 1;
+    } else {
+      out += escapeRegex(char);
+    }
+  }
+  return out;
+}
+
+function parseRule(line: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) {
+    return null;
+  }
+
+  const negated = pattern.startsWith('!');
+  if (negated) {
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith('/');
+  if (directoryOnly) {
+    pattern = pattern.slice(0, -1);
+  }
+  if (!pattern) {
+    return null;
+  }
+
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) {
+    pattern = pattern.slice(1);
+  }
+
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  return {
+    regex: new RegExp(`${prefix}${globToRegex(pattern)}$`),
+    negated,
+    directoryOnly,
+  };
+}
+
+export function createIgnoreMatcher(patterns: string[]): IgnoreMatcher {
+  const rules = patterns
+    .map(parseRule)
+    .filter((rule): rule is IgnoreRule => rule !== null);
+
+  const matches = (path: string, isDirectory: boolean): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.negated === ignored && rule.regex.test(path)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  };
+
+  return (path, isDirectory = false) => {
+    // Like git, nothing inside an ignored directory can be re-included
+    const segments = path.split('/').filter(Boolean);
+    for (let i = 1; i < segments.length; i++) {
+      if (matches(segments.slice(0, i).join('/'), true)) {
+        return true;
+      }
+    }
+    return matches(segments.join('/'), isDirectory);
+  };
+}
@@ -1,7 +1,12 @@
+import {Frontmatter, splitFrontmatter} from './frontmatter';
+
 const WIKILINK_REGEX = /\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
 const IMAGE_EMBED_REGEX = /!\[\[([^\]]+)\]\]/g;
-const FRONTMATTER_TITLE_REGEX = /^---\s*\n(?:.*\n)*?title:\s*["']?([^"'\n]+)["']?\s*\n(?:.*\n)*?---/;
+const MARKDOWN_LINK_REGEX = /(?<!!)\[[^\]]*\]\(([^)\s]+)\)/g;
 const H1_REGEX = /^#\s+(.+)$/m;
+const CODE_REGEX = /```[\s\S]*?(?:```|$)|`[^`\n]*`/g;
+// `#` after whitespace or `(`, then anything up to punctuation or space
+const INLINE_TAG_REGEX = /(^|[\s(])#([^\s#.,;:!?()[\]{}"'`*~<>=+|\\^&@$%]+)/g;
 
 export function parseWikilinks(content: string): string[] {
   const links: string[] = [];
@@ -15,10 +20,67 @@ export function parseWikilinks(content: string): string[] {
   return links;
 }
 
+/** URLs of `[text](url)` links, excluding images. */
+export function parseMarkdownLinks(content: string): string[] {
+  const urls: string[] = [];
+  let match;
+  while ((match = MARKDOWN_LINK_REGEX.exec(content)) !== null) {
+    const url = match[1];
+    if (url) {
+      urls.push(url);
+    }
+  }
+  return urls;
+}
+
+function cleanTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^["']|["']$/g, '')
+    .replace(/^#/, '')
+    .replace(/\/+$/, '')
+    .toLowerCase();
+}
+
+// `tags:` as a list, or a comma or space separated string
+function frontmatterTags(frontmatter: Frontmatter): string[] {
+  const value = frontmatter.get('tags') ?? frontmatter.get('tag');
+  if (Array.isArray(value)) {
+    return value;
+  }
+  return typeof value === 'string' ? value.split(/[,\s]+/) : [];
+}
+
+/**
+ * Tags from the frontmatter `tags:` key and inline `#tags` outside code,
+ * lowercased and without `#`. Nested tags such as `#area/sub` are kept
+ * whole; numbers alone (`#1`) are not tags.
+ */
+export function parseTags(content: string): string[] {
+  const {yaml, body: text} = splitFrontmatter(content);
+  const candidates = yaml ? frontmatterTags(new Frontmatter(yaml)) : [];
+
+  const body = text.replace(CODE_REGEX, ' ');
+  let match;
+  while ((match = INLINE_TAG_REGEX.exec(body)) !== null) {
+    candidates.push(match[2] ?? '');
+  }
+
+  const tags = new Set<string>();
+  for (const candidate of candidates) {
+    const tag = cleanTag(candidate);
+    if (tag && !/^[\d/]+$/.test(tag)) {
+      tags.add(tag);
+    }
+  }
+  return [...tags];
+}
+
 export function parseTitle(content: string): string {
-  const frontmatterMatch = FRONTMATTER_TITLE_REGEX.exec(content);
-  if (frontmatterMatch?.[1]) {
-    return frontmatterMatch[1].trim();
+  const {yaml} = splitFrontmatter(content);
+  const title = yaml ? new Frontmatter(yaml).get('title') : undefined;
+  if ((typeof title === 'string' || typeof title === 'number') && String(title).trim()) {
+    return String(title).trim();
   }
 
   const h1Match = H1_REGEX.exec(content);
@@ -0,0 +1,167 @@
+import type {ConflictHunk, MergeRegion} from '../types';
+import {joinLines, matchLines, splitLines} from './diff';
+
+export type HunkResolution =
+  | {type: 'local' | 'remote' | 'both'}
+  | {type: 'manual'; text: string};
+
+export interface MergeResult {
+  clean: boolean;
+  regions: MergeRegion[];
+  hunks: ConflictHunk[];
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+function toMatchMap(pairs: Array<[number, number]>, length: number): number[] {
+  const map = new Array<number>(length).fill(-1);
+  for (const [baseIndex, sideIndex] of pairs) {
+    map[baseIndex] = sideIndex;
+  }
+  return map;
+}
+
+/**
+ * Line-based three-way merge (diff3). Lines changed on only one side are
+ * taken from that side; lines changed identically on both sides are taken
+ * once; anything else becomes a conflict hunk.
+ */
+export function merge3(base: string, local: string, remote: string): MergeResult {
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+
+  const toLocal = toMatchMap(
+    matchLines(baseLines, localLines),
+    baseLines.length,
+  );
+  const toRemote = toMatchMap(
+    matchLines(baseLines, remoteLines),
+    baseLines.length,
+  );
+
+  const regions: MergeRegion[] = [];
+  const hunks: ConflictHunk[] = [];
+
+  const emit = (lines: string[]) => {
+    if (lines.length === 0) {
+      return;
+    }
+    const last = regions[regions.length - 1];
+    if (last?.type === 'merged') {
+      last.lines.push(...lines);
+    } else {
+      regions.push({type: 'merged', lines: [...lines]});
+    }
+  };
+
+  let i = 0;
+  let l = 0;
+  let r = 0;
+
+  while (
+    i < baseLines.length ||
+    l < localLines.length ||
+    r < remoteLines.length
+  ) {
+    // Stable run: base lines matched at the current position on both sides
+    let stable = 0;
+    while (
+      i + stable < baseLines.length &&
+      toLocal[i + stable] === l + stable &&
+      toRemote[i + stable] === r + stable
+    ) {
+      stable++;
+    }
+
+    if (stable > 0) {
+      emit(baseLines.slice(i, i + stable));
+      i += stable;
+      l += stable;
+      r += stable;
+      continue;
+    }
+
+    // Unstable chunk runs until the next base line both sides still contain
+    let next = i;
+    while (
+      next < baseLines.length &&
+      (toLocal[next] === -1 || toRemote[next] === -1)
+    ) {
+      next++;
+    }
+
+    const localEnd = next < baseLines.length ? toLocal[next]! : localLines.length;
+    const remoteEnd =
+      next < baseLines.length ? toRemote[next]! : remoteLines.length;
+
+    const baseChunk = baseLines.slice(i, next);
+    const localChunk = localLines.slice(l, localEnd);
+    const remoteChunk = remoteLines.slice(r, remoteEnd);
+
+    if (sameLines(localChunk, baseChunk)) {
+      emit(remoteChunk);
+    } else if (sameLines(remoteChunk, baseChunk)) {
+      emit(localChunk);
+    } else if (sameLines(localChunk, remoteChunk)) {
+      emit(localChunk);
+    } else {
+      hunks.push({
+        baseStart: i + 1,
+        localStart: l + 1,
+        remoteStart: r + 1,
+        base: baseChunk,
+        local: localChunk,
+        remote: remoteChunk,
+      });
+      regions.push({type: 'conflict', hunkIndex: hunks.length - 1});
+    }
+
+    i = next;
+    l = localEnd;
+    r = remoteEnd;
+  }
+
+  return {clean: hunks.length === 0, regions, hunks};
+}
+
+/**
+ * Rebuilds file content from merge regions, asking `resolve` for the lines
+ * to use in place of each conflict hunk.
+ */
+export function renderMerge(
+  regions: MergeRegion[],
+  hunks: ConflictHunk[],
+  resolve: (hunk: ConflictHunk, index: number) => string[],
+): string {
+  const lines: string[] = [];
+  for (const region of regions) {
+    if (region.type === 'merged') {
+      lines.push(...region.lines);
+    } else {
+      const hunk = hunks[region.hunkIndex];
+      if (hunk) {
+        lines.push(...resolve(hunk, region.hunkIndex));
+      }
+    }
+  }
+  return joinLines(lines);
+}
+
+export function resolveHunk(
+  hunk: ConflictHunk,
+  resolution: HunkResolution,
+): string[] {
+  switch (resolution.type) {
+    case 'local':
+      return hunk.local;
+    case 'remote':
+      return hunk.remote;
+    case 'both':
+      return [...hunk.local, ...hunk.remote];
+    case 'manual':
+      return splitLines(resolution.text);
+  }
+}
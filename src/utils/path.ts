@@ -78,3 +78,14 @@ export function getDirectory(path: string): string {
 export function isMarkdown(path: string): boolean {
   return isMarkdownFile(path);
 }
+
+/**
+ * Where `path` ends up when `from` (a file or folder) moves to `to`, or
+ * null when the move does not touch it.
+ */
+export function movedPath(path: string, from: string, to: string): string | null {
+  if (path === from || path.startsWith(`${from}/`)) {
+    return to + path.slice(from.length);
+  }
+  return null;
+}
@@ -0,0 +1,43 @@
+import type {NoteTag} from '../types';
+
+export interface TagNode {
+  /** The last segment, e.g. `sub` for `area/sub`. */
+  name: string;
+  tag: string;
+  /** Notes tagged with this tag or one nested under it. */
+  count: number;
+  children: TagNode[];
+}
+
+/**
+ * Arranges tags into a tree by their `/` segments. A parent counts each
+ * note once, however many of its nested tags the note has.
+ */
+export function buildTagTree(tags: NoteTag[]): TagNode[] {
+  const notes = new Map<string, Set<string>>();
+  for (const {path, tag} of tags) {
+    const segments = tag.split('/');
+    for (let i = 1; i <= segments.length; i++) {
+      const prefix = segments.slice(0, i).join('/');
+      const paths = notes.get(prefix) ?? new Set<string>();
+      paths.add(path);
+      notes.set(prefix, paths);
+    }
+  }
+
+  const nodes = new Map<string, TagNode>();
+  const roots: TagNode[] = [];
+  for (const tag of [...notes.keys()].sort()) {
+    const slash = tag.lastIndexOf('/');
+    const node: TagNode = {
+      name: tag.slice(slash + 1),
+      tag,
+      count: notes.get(tag)?.size ?? 0,
+      children: [],
+    };
+    nodes.set(tag, node);
+    const parent = slash === -1 ? undefined : nodes.get(tag.slice(0, slash));
+    (parent?.children ?? roots).push(node);
+  }
+  return roots;
+}